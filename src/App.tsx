@@ -10,8 +10,11 @@ import Auth from "@/pages/Auth";
 import Account from "@/pages/Account";
 import AdminDashboard from "@/pages/AdminDashboard";
 import CategoryPage from "@/pages/CategoryPage";
+import SearchPage from "@/pages/SearchPage";
 import ProductDetail from "@/pages/ProductDetail";
 import Cart from "@/pages/Cart";
+import Checkout from "@/pages/Checkout";
+import OrderConfirmation from "@/pages/OrderConfirmation";
 import NotFound from "@/pages/NotFound";
 import { useAuth } from "@/contexts/AuthContext";
 import ProductsPage from "@/pages/admin/ProductsPage";
@@ -21,6 +24,9 @@ import ReviewsPage from "@/pages/admin/ReviewsPage";
 import CategoriesPage from "@/pages/admin/CategoriesPage";
 import ReportsPage from "@/pages/admin/ReportsPage";
 import SettingsPage from "@/pages/admin/SettingsPage";
+import StorageAuditPage from "@/pages/admin/StorageAuditPage";
+import CatalogExportPage from "@/pages/admin/CatalogExportPage";
+import StockAlertsPage from "@/pages/admin/StockAlertsPage";
 
 const queryClient = new QueryClient();
 
@@ -106,10 +112,36 @@ const AppRoutes = () => {
           <SettingsPage />
         </AdminRoute>
       } />
+      <Route path="/admin/storage" element={
+        <AdminRoute>
+          <StorageAuditPage />
+        </AdminRoute>
+      } />
+      <Route path="/admin/catalog-export" element={
+        <AdminRoute>
+          <CatalogExportPage />
+        </AdminRoute>
+      } />
+      <Route path="/admin/stock-alerts" element={
+        <AdminRoute>
+          <StockAlertsPage />
+        </AdminRoute>
+      } />
       
       <Route path="/category/:category" element={<CategoryPage />} />
+      <Route path="/search" element={<SearchPage />} />
       <Route path="/product/:id" element={<ProductDetail />} />
       <Route path="/cart" element={<Cart />} />
+      <Route path="/checkout" element={
+        <ProtectedRoute>
+          <Checkout />
+        </ProtectedRoute>
+      } />
+      <Route path="/order-confirmation/:id" element={
+        <ProtectedRoute>
+          <OrderConfirmation />
+        </ProtectedRoute>
+      } />
       {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
       <Route path="*" element={<NotFound />} />
     </Routes>
@@ -9,6 +9,9 @@ import {
   Star,
   Tag,
   FileText,
+  HardDrive,
+  Rss,
+  AlertTriangle,
   Settings
 } from 'lucide-react';
 
@@ -20,11 +23,14 @@ const AdminMenu = ({ className }: AdminMenuProps) => {
   const menuItems = [
     { icon: BarChart2, label: 'Dashboard', path: '/admin/dashboard' },
     { icon: Package, label: 'Products', path: '/admin/products' },
+    { icon: AlertTriangle, label: 'Stock Alerts', path: '/admin/stock-alerts' },
     { icon: ShoppingBag, label: 'Orders', path: '/admin/orders' },
     { icon: Users, label: 'Customers', path: '/admin/customers' },
     { icon: Star, label: 'Reviews', path: '/admin/reviews' },
     { icon: Tag, label: 'Categories', path: '/admin/categories' },
     { icon: FileText, label: 'Reports', path: '/admin/reports' },
+    { icon: Rss, label: 'Catalog Export', path: '/admin/catalog-export' },
+    { icon: HardDrive, label: 'Storage', path: '/admin/storage' },
     { icon: Settings, label: 'Settings', path: '/admin/settings' }
   ];
 
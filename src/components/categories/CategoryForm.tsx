@@ -0,0 +1,297 @@
+import React, { useRef, useState } from 'react';
+import { Loader2, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AttributeDefinitionType } from '@/lib/api/attributes';
+import { CategoryInput, uploadCategoryBanner } from '@/lib/api/categories';
+import { generateSlug } from '@/lib/utils';
+
+// Lengths search engines show before truncating
+const META_TITLE_LENGTH = 60;
+const META_DESCRIPTION_LENGTH = 160;
+
+// Select value standing for "no parent", since Select items can't have an empty value
+const TOP_LEVEL = 'top-level';
+
+export interface AttributeAssignment {
+  attribute_id: string;
+  required: boolean;
+}
+
+interface CategoryFormProps {
+  category: CategoryInput;
+  // Categories this one can be placed under, in tree order
+  parentOptions: { id: string; name: string; depth: number }[];
+  attributeDefinitions: AttributeDefinitionType[];
+  // Attributes assigned to this category, and those it gets from its parents
+  attributes: AttributeAssignment[];
+  inheritedAttributeIds: string[];
+  isLoading: boolean;
+  isEdit?: boolean;
+  onSubmit: (e: React.FormEvent) => void;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  onBannerChange: (url: string | null) => void;
+  onParentChange: (parentId: string | null) => void;
+  onAttributesChange: (attributes: AttributeAssignment[]) => void;
+  onCancel: () => void;
+}
+
+const CategoryForm = ({
+  category,
+  parentOptions,
+  attributeDefinitions,
+  attributes,
+  inheritedAttributeIds,
+  isLoading,
+  isEdit = false,
+  onSubmit,
+  onInputChange,
+  onBannerChange,
+  onParentChange,
+  onAttributesChange,
+  onCancel
+}: CategoryFormProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const idPrefix = isEdit ? 'edit-' : '';
+
+  const handleBannerFile = async (file: File) => {
+    setIsUploading(true);
+    const url = await uploadCategoryBanner(file);
+    if (url) onBannerChange(url);
+    setIsUploading(false);
+  };
+
+  const toggleAttribute = (attributeId: string, checked: boolean) => {
+    onAttributesChange(checked
+      ? [...attributes, { attribute_id: attributeId, required: false }]
+      : attributes.filter(attribute => attribute.attribute_id !== attributeId));
+  };
+
+  const toggleRequired = (attributeId: string, required: boolean) => {
+    onAttributesChange(attributes.map(attribute =>
+      attribute.attribute_id === attributeId ? { ...attribute, required } : attribute
+    ));
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4 py-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}name`}>Category Name</Label>
+          <Input
+            id={`${idPrefix}name`}
+            name="name"
+            value={category.name}
+            onChange={onInputChange}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}slug`}>URL Slug</Label>
+          <Input
+            id={`${idPrefix}slug`}
+            name="slug"
+            value={category.slug ?? ''}
+            onChange={onInputChange}
+            placeholder={generateSlug(category.name)}
+            pattern="[a-z0-9_]+(-[a-z0-9_]+)*"
+            title="Lowercase letters, numbers and single hyphens"
+          />
+          {isEdit && (
+            <p className="text-xs text-muted-foreground">
+              Links to the old slug will redirect to the new one.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}parent`}>Parent Category</Label>
+        <Select
+          value={category.parent_id ?? TOP_LEVEL}
+          onValueChange={(value) => onParentChange(value === TOP_LEVEL ? null : value)}
+        >
+          <SelectTrigger id={`${idPrefix}parent`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+            {parentOptions.map(option => (
+              <SelectItem key={option.id} value={option.id}>
+                {'\u00A0\u00A0'.repeat(option.depth)}{option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}description`}>Description</Label>
+        <Textarea
+          id={`${idPrefix}description`}
+          name="description"
+          value={category.description ?? ''}
+          onChange={onInputChange}
+          rows={3}
+        />
+      </div>
+
+      {attributeDefinitions.length > 0 && (
+        <div className="space-y-2">
+          <Label>Product Attributes</Label>
+          <p className="text-xs text-muted-foreground">
+            Specifications asked for on products in this category and its subcategories.
+          </p>
+          <div className="rounded-md border divide-y">
+            {attributeDefinitions.map(definition => {
+              const assignment = attributes.find(attribute => attribute.attribute_id === definition.id);
+              const isInherited = inheritedAttributeIds.includes(definition.id);
+              const checkboxId = `${idPrefix}attribute-${definition.key}`;
+
+              return (
+                <div key={definition.id} className="flex items-center justify-between px-3 py-2">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={checkboxId}
+                      checked={!!assignment || isInherited}
+                      disabled={isInherited}
+                      onCheckedChange={(checked) => toggleAttribute(definition.id, checked === true)}
+                    />
+                    <label htmlFor={checkboxId} className="text-sm">
+                      {definition.label}
+                      {isInherited && <span className="ml-2 text-xs text-muted-foreground">from parent</span>}
+                    </label>
+                  </div>
+                  {assignment && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${checkboxId}-required`}
+                        checked={assignment.required}
+                        onCheckedChange={(checked) => toggleRequired(definition.id, checked === true)}
+                      />
+                      <label htmlFor={`${checkboxId}-required`} className="text-xs text-muted-foreground">
+                        Required
+                      </label>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Banner Image</Label>
+        {category.banner_image ? (
+          <div className="relative">
+            <img
+              src={category.banner_image}
+              alt={category.name}
+              className="w-full h-32 object-cover rounded-md"
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              className="absolute top-2 right-2 h-7 w-7"
+              onClick={() => onBannerChange(null)}
+            >
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove banner</span>
+            </Button>
+          </div>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            {isUploading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Upload Banner
+          </Button>
+        )}
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept="image/*"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleBannerFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}meta_title`}>Meta Title</Label>
+        <Input
+          id={`${idPrefix}meta_title`}
+          name="meta_title"
+          value={category.meta_title ?? ''}
+          onChange={onInputChange}
+          placeholder={`${category.name || 'Category'} | Usha Designs`}
+        />
+        <p className="text-xs text-muted-foreground">
+          {(category.meta_title ?? '').length}/{META_TITLE_LENGTH} characters
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}meta_description`}>Meta Description</Label>
+        <Textarea
+          id={`${idPrefix}meta_description`}
+          name="meta_description"
+          value={category.meta_description ?? ''}
+          onChange={onInputChange}
+          placeholder="Defaults to the description"
+          rows={2}
+        />
+        <p className="text-xs text-muted-foreground">
+          {(category.meta_description ?? '').length}/{META_DESCRIPTION_LENGTH} characters
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}display_order`}>Display Order</Label>
+        <Input
+          id={`${idPrefix}display_order`}
+          name="display_order"
+          type="number"
+          value={category.display_order}
+          onChange={onInputChange}
+          className="w-32"
+        />
+        <p className="text-xs text-muted-foreground">Lower numbers are listed first.</p>
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isLoading || isUploading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {isEdit ? 'Saving...' : 'Adding...'}
+            </>
+          ) : isEdit ? "Save Changes" : "Add Category"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CategoryForm;
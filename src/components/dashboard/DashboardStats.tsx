@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { ShoppingBag, Users, Package, BarChart2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatCurrency } from '@/lib/utils';
@@ -12,6 +13,7 @@ interface DashboardStatsProps {
     totalProducts: number;
     pendingOrders: number;
     lowStockProducts: number;
+    outOfStockProducts: number;
     recentReviews: number;
   };
   salesData: any[];
@@ -100,10 +102,10 @@ const DashboardStats = ({ stats, salesData, isLoading }: DashboardStatsProps) =>
               <Package />
             </div>
           </div>
-          {stats.lowStockProducts > 0 && (
-            <p className="text-xs text-muted-foreground mt-2">
-              {stats.lowStockProducts} items low in stock
-            </p>
+          {(stats.lowStockProducts > 0 || stats.outOfStockProducts > 0) && (
+            <Link to="/admin/stock-alerts" className="block text-xs text-muted-foreground hover:underline mt-2">
+              {stats.lowStockProducts} low in stock, {stats.outOfStockProducts} out of stock
+            </Link>
           )}
         </CardContent>
       </Card>
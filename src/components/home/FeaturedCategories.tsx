@@ -2,7 +2,7 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { featuredCategories } from '@/lib/constants';
-import { cn } from '@/lib/utils';
+import { cn, getCategoryUrl } from '@/lib/utils';
 
 export default function FeaturedCategories() {
   return (
@@ -15,8 +15,8 @@ export default function FeaturedCategories() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           {featuredCategories.map((category, index) => (
             <Link 
-              key={category.id} 
-              to={`/category/${category.id}`}
+              key={category.slug} 
+              to={getCategoryUrl(category.slug)}
               className={cn(
                 "group relative overflow-hidden rounded-lg h-64 transition-transform hover:scale-[1.02]",
                 "animate-fade-in",
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  NavigationMenu,
+  NavigationMenuContent,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList,
+  NavigationMenuTrigger,
+  navigationMenuTriggerStyle,
+} from '@/components/ui/navigation-menu';
+import { useCategories } from '@/hooks/use-catalog';
+import { buildCategoryTree } from '@/lib/categoryTree';
+import { cn, getCategoryUrl } from '@/lib/utils';
+
+interface MegaMenuProps {
+  // Links shown after the categories, e.g. New Arrivals
+  extraLinks?: { name: string; path: string }[];
+}
+
+// Desktop navigation built from the category tree. Each top-level category
+// opens a panel with a column per subcategory, listing the level below it.
+const MegaMenu = ({ extraLinks = [] }: MegaMenuProps) => {
+  const { data: categories = [] } = useCategories();
+  const tree = buildCategoryTree(categories);
+
+  return (
+    <NavigationMenu className="flex-1 max-w-none">
+      <NavigationMenuList>
+        {tree.map(root => (
+          <NavigationMenuItem key={root.id}>
+            {root.children.length > 0 ? (
+              <>
+                <NavigationMenuTrigger className="bg-transparent hover:text-usha-burgundy">
+                  {root.name}
+                </NavigationMenuTrigger>
+                <NavigationMenuContent>
+                  <div className="w-[640px] p-6">
+                    <div className="grid grid-cols-3 gap-6">
+                      {root.children.map(child => (
+                        <div key={child.id} className="space-y-2">
+                          <NavigationMenuLink asChild>
+                            <Link
+                              to={getCategoryUrl(child.slug)}
+                              className="block text-sm font-medium hover:text-usha-burgundy"
+                            >
+                              {child.name}
+                            </Link>
+                          </NavigationMenuLink>
+                          {child.children.map(grandchild => (
+                            <NavigationMenuLink asChild key={grandchild.id}>
+                              <Link
+                                to={getCategoryUrl(grandchild.slug)}
+                                className="block text-sm text-muted-foreground hover:text-usha-burgundy"
+                              >
+                                {grandchild.name}
+                              </Link>
+                            </NavigationMenuLink>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                    <NavigationMenuLink asChild>
+                      <Link
+                        to={getCategoryUrl(root.slug)}
+                        className="inline-block mt-6 text-sm font-medium text-usha-burgundy hover:underline"
+                      >
+                        Shop all {root.name}
+                      </Link>
+                    </NavigationMenuLink>
+                  </div>
+                </NavigationMenuContent>
+              </>
+            ) : (
+              <NavigationMenuLink asChild>
+                <Link
+                  to={getCategoryUrl(root.slug)}
+                  className={cn(navigationMenuTriggerStyle(), "bg-transparent hover:text-usha-burgundy")}
+                >
+                  {root.name}
+                </Link>
+              </NavigationMenuLink>
+            )}
+          </NavigationMenuItem>
+        ))}
+        {extraLinks.map(link => (
+          <NavigationMenuItem key={link.path}>
+            <NavigationMenuLink asChild>
+              <Link
+                to={link.path}
+                className={cn(navigationMenuTriggerStyle(), "bg-transparent hover:text-usha-burgundy")}
+              >
+                {link.name}
+              </Link>
+            </NavigationMenuLink>
+          </NavigationMenuItem>
+        ))}
+      </NavigationMenuList>
+    </NavigationMenu>
+  );
+};
+
+export default MegaMenu;
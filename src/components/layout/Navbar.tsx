@@ -1,26 +1,29 @@
 
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Menu, X, ShoppingBag, User, Search, LogOut } from 'lucide-react';
+import { Menu, X, ShoppingBag, User, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { ushaLogo } from '@/lib/constants';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useCart } from '@/hooks/use-cart';
+import { useCategories } from '@/hooks/use-catalog';
+import { buildCategoryTree } from '@/lib/categoryTree';
+import { getCategoryUrl } from '@/lib/utils';
+import MegaMenu from '@/components/layout/MegaMenu';
+import SearchBox from '@/components/layout/SearchBox';
 
-const categoryLinks = [
-  { name: 'Pure Silk', path: '/category/pure-silk' },
-  { name: 'Cotton', path: '/category/cotton' },
-  { name: 'Georgette', path: '/category/georgette' },
-  { name: 'Designer', path: '/category/designer' },
-  { name: 'Ready Sets', path: '/category/ready-sets' },
+const extraLinks = [
   { name: 'New Arrivals', path: '/new-arrivals' },
 ];
 
 export default function Navbar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [cartCount, setCartCount] = useState(0); // This would be from a context in a real app
+  const { itemCount: cartCount } = useCart();
+  const { data: categories = [] } = useCategories();
+  const categoryTree = buildCategoryTree(categories);
   const { user, signOut, isAdmin } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -79,23 +82,13 @@ export default function Navbar() {
           </Link>
           
           {/* Main Navigation Links */}
-          <nav className="hidden lg:flex flex-1 items-center justify-center space-x-6">
-            {categoryLinks.map((link) => (
-              <Link
-                key={link.name}
-                to={link.path}
-                className="text-foreground hover:text-usha-burgundy text-sm font-medium transition-colors"
-              >
-                {link.name}
-              </Link>
-            ))}
+          <nav className="hidden lg:flex flex-1 items-center justify-center">
+            <MegaMenu extraLinks={extraLinks} />
           </nav>
           
           {/* Right Nav Items */}
           <div className="flex items-center space-x-4">
-            <Button variant="ghost" size="icon" className="text-foreground hover:text-usha-burgundy">
-              <Search size={20} />
-            </Button>
+            <SearchBox className="w-56" />
             
             {user ? (
               <DropdownMenu>
@@ -184,19 +177,31 @@ export default function Navbar() {
               </div>
             )}
             
-            <div className="flex w-full rounded-md border border-input">
-              <input 
-                type="search" 
-                placeholder="Search for products..." 
-                className="flex-1 bg-transparent px-3 py-2 text-sm outline-none"
-              />
-              <Button variant="ghost" size="icon">
-                <Search size={18} />
-              </Button>
-            </div>
+            <SearchBox onSearch={() => setIsMenuOpen(false)} />
             
             <nav className="space-y-1">
-              {categoryLinks.map((link) => (
+              {categoryTree.map((root) => (
+                <div key={root.id}>
+                  <Link
+                    to={getCategoryUrl(root.slug)}
+                    className="block py-2 text-foreground hover:text-usha-burgundy"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    {root.name}
+                  </Link>
+                  {root.children.map((child) => (
+                    <Link
+                      key={child.id}
+                      to={getCategoryUrl(child.slug)}
+                      className="block py-1 pl-4 text-sm text-muted-foreground hover:text-usha-burgundy"
+                      onClick={() => setIsMenuOpen(false)}
+                    >
+                      {child.name}
+                    </Link>
+                  ))}
+                </div>
+              ))}
+              {extraLinks.map((link) => (
                 <Link
                   key={link.name}
                   to={link.path}
@@ -0,0 +1,271 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Clock, Folder, Loader2, Search, TrendingUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCategories } from '@/hooks/use-catalog';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { MIN_SUGGESTION_LENGTH, useSearchSuggestions, useTrendingSearches } from '@/hooks/use-search';
+import { splitHighlights } from '@/lib/api/search';
+import { clearRecentSearches, getRecentSearches, removeRecentSearch } from '@/lib/recentSearches';
+import { calculateDiscountPrice, cn, formatCurrency, getCategoryUrl, getSearchUrl } from '@/lib/utils';
+
+const SUGGESTION_DELAY = 250;
+const MAX_CATEGORY_SUGGESTIONS = 3;
+
+interface SearchBoxProps {
+  className?: string;
+  // Called after navigating away, e.g. to close the mobile menu
+  onSearch?: () => void;
+}
+
+// One entry of the dropdown; keyboard navigation moves through these in order
+interface SuggestionOption {
+  key: string;
+  url: string;
+}
+
+const SearchBox = ({ className, onSearch }: SearchBoxProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listId = useId();
+
+  const debouncedQuery = useDebouncedValue(query.trim(), SUGGESTION_DELAY);
+  const isTyping = query.trim().length >= MIN_SUGGESTION_LENGTH;
+  const suggestionsQuery = useSearchSuggestions(isTyping ? debouncedQuery : '');
+  const { data: trendingSearches = [] } = useTrendingSearches();
+  const { data: categories = [] } = useCategories();
+
+  // Show the current query while on the results page
+  useEffect(() => {
+    setQuery(location.pathname === '/search' ? searchParams.get('q') ?? '' : '');
+  }, [location.pathname, searchParams]);
+
+  const products = isTyping ? suggestionsQuery.data ?? [] : [];
+  const matchingCategories = isTyping
+    ? categories
+      .filter(category => category.name.toLowerCase().includes(query.trim().toLowerCase()))
+      .slice(0, MAX_CATEGORY_SUGGESTIONS)
+    : [];
+  const recent = isTyping ? [] : recentSearches;
+  const trending = isTyping ? [] : trendingSearches.filter(term => !recentSearches.includes(term));
+
+  const options: SuggestionOption[] = [
+    ...recent.map(term => ({ key: `recent-${term}`, url: getSearchUrl(term) })),
+    ...trending.map(term => ({ key: `trending-${term}`, url: getSearchUrl(term) })),
+    ...matchingCategories.map(category => ({ key: `category-${category.id}`, url: getCategoryUrl(category.slug) })),
+    ...products.map(product => ({ key: `product-${product.id}`, url: `/product/${product.id}` })),
+    ...(isTyping ? [{ key: 'all-results', url: getSearchUrl(query) }] : []),
+  ];
+  const optionIndex = (key: string) => options.findIndex(option => option.key === key);
+  const showDropdown = isOpen && options.length > 0;
+
+  // The highlighted entry would point at something else once the list changes
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [query, isOpen]);
+
+  const openDropdown = () => {
+    setRecentSearches(getRecentSearches());
+    setIsOpen(true);
+  };
+
+  const goTo = (url: string) => {
+    setIsOpen(false);
+    navigate(url);
+    onSearch?.();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (activeIndex >= 0 && options[activeIndex]) {
+      goTo(options[activeIndex].url);
+      return;
+    }
+    if (!query.trim()) return;
+    goTo(getSearchUrl(query));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (!isOpen) openDropdown();
+      setActiveIndex(index => (index + 1 < options.length ? index + 1 : 0));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index > 0 ? index - 1 : options.length - 1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  // Close once focus leaves the box and its dropdown
+  const handleBlur = (e: React.FocusEvent) => {
+    if (!containerRef.current?.contains(e.relatedTarget as Node | null)) {
+      setIsOpen(false);
+    }
+  };
+
+  const optionProps = (key: string, url: string) => {
+    const index = optionIndex(key);
+    return {
+      id: `${listId}-${index}`,
+      role: 'option',
+      'aria-selected': index === activeIndex,
+      // Keep focus in the input so the blur handler doesn't close the list first
+      onMouseDown: (e: React.MouseEvent) => e.preventDefault(),
+      onMouseEnter: () => setActiveIndex(index),
+      onClick: () => goTo(url),
+      className: cn(
+        "flex w-full items-center gap-3 px-3 py-2 text-left text-sm cursor-pointer",
+        index === activeIndex && "bg-accent"
+      ),
+    };
+  };
+
+  return (
+    <div ref={containerRef} className={cn("relative w-full", className)} onBlur={handleBlur}>
+      <form role="search" onSubmit={handleSubmit} className="flex w-full rounded-md border border-input">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            if (!isOpen) openDropdown();
+          }}
+          onFocus={openDropdown}
+          onKeyDown={handleKeyDown}
+          placeholder="Search for products..."
+          aria-label="Search products"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+          autoComplete="off"
+          className="flex-1 min-w-0 bg-transparent px-3 py-2 text-sm outline-none"
+        />
+        <Button type="submit" variant="ghost" size="icon" className="text-foreground hover:text-usha-burgundy">
+          <Search size={18} />
+          <span className="sr-only">Search</span>
+        </Button>
+      </form>
+
+      {showDropdown && (
+        <div
+          id={listId}
+          role="listbox"
+          className="absolute right-0 top-full z-50 mt-1 w-full min-w-[20rem] max-h-[70vh] overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow-md py-1"
+        >
+          {recent.length > 0 && (
+            <div role="group" aria-label="Recent searches">
+              <div className="flex items-center justify-between px-3 py-1">
+                <span className="text-xs font-medium text-muted-foreground">Recent searches</span>
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:text-usha-burgundy"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => {
+                    clearRecentSearches();
+                    setRecentSearches([]);
+                  }}
+                >
+                  Clear
+                </button>
+              </div>
+              {recent.map(term => (
+                <div key={term} {...optionProps(`recent-${term}`, getSearchUrl(term))}>
+                  <Clock className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="flex-1 truncate">{term}</span>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={`Remove ${term} from recent searches`}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setRecentSearches(removeRecentSearch(term));
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {trending.length > 0 && (
+            <div role="group" aria-label="Popular searches">
+              <div className="px-3 py-1 text-xs font-medium text-muted-foreground">Popular searches</div>
+              {trending.map(term => (
+                <div key={term} {...optionProps(`trending-${term}`, getSearchUrl(term))}>
+                  <TrendingUp className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="flex-1 truncate">{term}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {matchingCategories.length > 0 && (
+            <div role="group" aria-label="Categories">
+              <div className="px-3 py-1 text-xs font-medium text-muted-foreground">Categories</div>
+              {matchingCategories.map(category => (
+                <div key={category.id} {...optionProps(`category-${category.id}`, getCategoryUrl(category.slug))}>
+                  <Folder className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="flex-1 truncate">{category.name}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {products.length > 0 && (
+            <div role="group" aria-label="Products">
+              <div className="px-3 py-1 text-xs font-medium text-muted-foreground">Products</div>
+              {products.map(product => (
+                <div key={product.id} {...optionProps(`product-${product.id}`, `/product/${product.id}`)}>
+                  <img
+                    src={product.image || "/placeholder.svg"}
+                    alt=""
+                    className="h-10 w-10 rounded object-cover shrink-0"
+                  />
+                  <span className="flex-1 truncate">
+                    {splitHighlights(product.headline).map((part, index) =>
+                      part.highlighted ? (
+                        <strong key={index} className="font-semibold">{part.text}</strong>
+                      ) : (
+                        <React.Fragment key={index}>{part.text}</React.Fragment>
+                      )
+                    )}
+                  </span>
+                  <span className="text-muted-foreground shrink-0">
+                    {formatCurrency(product.discount ? calculateDiscountPrice(product.price, product.discount) : product.price)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isTyping && (
+            <div {...optionProps('all-results', getSearchUrl(query))}>
+              {suggestionsQuery.isFetching ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground shrink-0" />
+              ) : (
+                <Search className="h-4 w-4 text-muted-foreground shrink-0" />
+              )}
+              <span className="flex-1 truncate">
+                See all results for "<span className="font-medium">{query.trim()}</span>"
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AttributeValue, CategoryAttributeDefinition, ProductAttributes } from '@/lib/api/attributes';
+
+// Select value standing for "no value", since Select items can't have an empty value
+const NOT_SET = 'not-set';
+
+interface ProductAttributesFieldProps {
+  // Attributes of the product's category, see getCategoryAttributes
+  definitions: CategoryAttributeDefinition[];
+  values: ProductAttributes;
+  idPrefix: string;
+  onChange: (key: string, value: AttributeValue | undefined) => void;
+}
+
+// Inputs for the structured attributes (fabric, weave, ...) of the product form
+const ProductAttributesField = ({ definitions, values, idPrefix, onChange }: ProductAttributesFieldProps) => {
+  if (definitions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label>Specifications</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 rounded-md border p-4">
+        {definitions.map(definition => {
+          const id = `${idPrefix}attribute-${definition.key}`;
+          const value = values[definition.key];
+          const label = `${definition.label}${definition.unit ? ` (${definition.unit})` : ''}${definition.required ? ' *' : ''}`;
+
+          return (
+            <div key={definition.key} className="space-y-2">
+              <Label htmlFor={id} className="text-sm font-normal">{label}</Label>
+              {definition.type === 'select' || definition.type === 'boolean' ? (
+                <Select
+                  value={value === undefined ? NOT_SET : String(value)}
+                  onValueChange={(selected) => {
+                    if (selected === NOT_SET) {
+                      onChange(definition.key, undefined);
+                    } else {
+                      onChange(definition.key, definition.type === 'boolean' ? selected === 'true' : selected);
+                    }
+                  }}
+                >
+                  <SelectTrigger id={id}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_SET}>Not specified</SelectItem>
+                    {definition.type === 'boolean' ? (
+                      <>
+                        <SelectItem value="true">Yes</SelectItem>
+                        <SelectItem value="false">No</SelectItem>
+                      </>
+                    ) : (
+                      definition.options.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))
+                    )}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={id}
+                  type={definition.type === 'number' ? 'number' : 'text'}
+                  step={definition.type === 'number' ? 'any' : undefined}
+                  min={definition.type === 'number' ? '0' : undefined}
+                  value={value === undefined ? '' : String(value)}
+                  onChange={(e) => {
+                    const input = e.target.value;
+                    if (input === '') {
+                      onChange(definition.key, undefined);
+                    } else {
+                      onChange(definition.key, definition.type === 'number' ? Number(input) : input);
+                    }
+                  }}
+                  required={definition.required}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProductAttributesField;
@@ -0,0 +1,359 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CategoryType } from '@/lib/api/categories';
+import { InventoryReason, inventoryReasons } from '@/lib/api/inventory';
+import {
+  BulkProductAction,
+  BulkProductResult,
+  ProductWithCategory,
+  applyBulkProductAction,
+  getBulkStock,
+} from '@/lib/api/products';
+import { buildCategoryTree, flattenCategoryTree } from '@/lib/categoryTree';
+import { calculateDiscountPrice, formatCurrency } from '@/lib/utils';
+
+export type BulkActionType = BulkProductAction['type'];
+
+// Select value for "no category", since Select items can't have an empty value
+const UNCATEGORIZED = 'uncategorized';
+
+// Sales are recorded by checkout, not by hand
+const adjustReasons = inventoryReasons.filter(reason => reason.id !== 'sale');
+
+const actionTitles: Record<BulkActionType, string> = {
+  discount: 'Set Discount',
+  featured: 'Change Featured',
+  bestseller: 'Change Bestseller',
+  category: 'Change Category',
+  stock: 'Adjust Stock',
+  delete: 'Delete Products',
+};
+
+type Step = 'confirm' | 'applying' | 'done';
+
+interface ProductBulkActionDialogProps {
+  // The action picked from the bulk actions menu, or null when closed
+  actionType: BulkActionType | null;
+  // Value of the featured/bestseller flag to set
+  flagValue?: boolean;
+  products: ProductWithCategory[];
+  categories: CategoryType[];
+  onClose: () => void;
+  // Called once the action has changed anything, with the outcome
+  onApplied: (result: BulkProductResult) => void;
+}
+
+// Asks for the value of a bulk action, shows what it will do to each selected
+// product, then applies it and reports any products it failed for.
+const ProductBulkActionDialog = ({
+  actionType,
+  flagValue = true,
+  products,
+  categories,
+  onClose,
+  onApplied,
+}: ProductBulkActionDialogProps) => {
+  const [step, setStep] = useState<Step>('confirm');
+  const [discount, setDiscount] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [stockMode, setStockMode] = useState<'set' | 'adjust'>('adjust');
+  const [stockAmount, setStockAmount] = useState('');
+  const [stockReason, setStockReason] = useState<InventoryReason>('receipt');
+  const [stockNote, setStockNote] = useState('');
+  const [result, setResult] = useState<BulkProductResult | null>(null);
+
+  useEffect(() => {
+    if (actionType) {
+      setStep('confirm');
+      setDiscount('');
+      setCategoryId('');
+      setStockMode('adjust');
+      setStockAmount('');
+      setStockReason('receipt');
+      setStockNote('');
+      setResult(null);
+    }
+  }, [actionType]);
+
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories));
+  const categoryName = (id: string | null) =>
+    id ? categories.find(category => category.id === id)?.name ?? 'Unknown' : 'Uncategorized';
+
+  // The action to apply, or null until its value is filled in correctly
+  const getAction = (): BulkProductAction | null => {
+    switch (actionType) {
+      case 'discount': {
+        const value = Number(discount);
+        return discount !== '' && value >= 0 && value <= 100 ? { type: 'discount', discount: value } : null;
+      }
+      case 'featured':
+      case 'bestseller':
+        return { type: actionType, value: flagValue };
+      case 'category':
+        return categoryId ? { type: 'category', categoryId: categoryId === UNCATEGORIZED ? null : categoryId } : null;
+      case 'stock': {
+        const value = Number(stockAmount);
+        // Receipts and returns add stock and damage removes it, whatever sign is typed
+        const direction = adjustReasons.find(reason => reason.id === stockReason)?.direction ?? 0;
+        const amount = stockMode === 'adjust' && direction !== 0 ? direction * Math.abs(value) : value;
+        const isValid = stockMode === 'adjust' ? value !== 0 : value >= 0;
+        return stockAmount !== '' && Number.isInteger(value) && isValid
+          ? {
+            type: 'stock',
+            mode: stockMode,
+            amount,
+            // A stock count is always a correction
+            reason: stockMode === 'set' ? 'correction' : stockReason,
+            note: stockNote.trim(),
+          }
+          : null;
+      }
+      case 'delete':
+        return { type: 'delete' };
+      default:
+        return null;
+    }
+  };
+
+  const action = getAction();
+
+  // What the action changes on one product, as [before, after]
+  const describeChange = (product: ProductWithCategory): [string, string] => {
+    if (!action) return ['', ''];
+    switch (action.type) {
+      case 'discount':
+        return [
+          `${product.discount ?? 0}% (${formatCurrency(calculateDiscountPrice(product.price, product.discount || 0))})`,
+          `${action.discount}% (${formatCurrency(calculateDiscountPrice(product.price, action.discount))})`,
+        ];
+      case 'featured':
+      case 'bestseller':
+        return [product[action.type] ? 'Yes' : 'No', action.value ? 'Yes' : 'No'];
+      case 'category':
+        return [product.category_name || 'Uncategorized', categoryName(action.categoryId)];
+      case 'stock':
+        return [String(product.stock ?? 0), getBulkStock(product, action) < 0 ? 'Not enough stock' : String(getBulkStock(product, action))];
+      case 'delete':
+        return [product.category_name || 'Uncategorized', 'Deleted'];
+    }
+  };
+
+  const handleApply = async () => {
+    if (!action) return;
+    setStep('applying');
+    const bulkResult = await applyBulkProductAction(products, action);
+    setResult(bulkResult);
+    setStep('done');
+    if (bulkResult.succeeded.length > 0) {
+      onApplied(bulkResult);
+    }
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    // Closing mid-way would hide the result of changes that carry on anyway
+    if (!isOpen && step !== 'applying') onClose();
+  };
+
+  const title = actionType === 'featured' || actionType === 'bestseller'
+    ? `${flagValue ? 'Mark' : 'Unmark'} as ${actionType === 'featured' ? 'Featured' : 'Bestseller'}`
+    : actionType ? actionTitles[actionType] : '';
+  const productCount = `${products.length} ${products.length === 1 ? 'product' : 'products'}`;
+
+  return (
+    <Dialog open={actionType !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {step === 'confirm' && (actionType === 'delete'
+              ? `Permanently delete ${productCount} and their images. This cannot be undone.`
+              : `Review the change to ${productCount} before applying it.`)}
+            {step === 'applying' && `Updating ${productCount}...`}
+            {step === 'done' && 'Bulk action finished.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'confirm' && (
+          <div className="space-y-4 py-2">
+            {actionType === 'discount' && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-discount">Discount (%)</Label>
+                <Input
+                  id="bulk-discount"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={discount}
+                  onChange={(e) => setDiscount(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+            )}
+
+            {actionType === 'category' && (
+              <div className="space-y-2">
+                <Label>New Category</Label>
+                <Select value={categoryId} onValueChange={setCategoryId}>
+                  <SelectTrigger className="w-[280px]">
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem>
+                    {categoryOptions.map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {'\u00A0\u00A0'.repeat(depth)}{category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Specifications that don't apply to the new category are kept until a product is next edited.
+                </p>
+              </div>
+            )}
+
+            {actionType === 'stock' && (
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label>Change</Label>
+                  <Select value={stockMode} onValueChange={(value) => setStockMode(value as 'set' | 'adjust')}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="adjust">Add or remove</SelectItem>
+                      <SelectItem value="set">Set to</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bulk-stock">
+                    {stockMode === 'adjust' && stockReason === 'correction' ? 'Quantity (negative to remove)' : 'Quantity'}
+                  </Label>
+                  <Input
+                    id="bulk-stock"
+                    type="number"
+                    step="1"
+                    min={stockMode === 'set' ? '0' : undefined}
+                    value={stockAmount}
+                    onChange={(e) => setStockAmount(e.target.value)}
+                    className="w-32"
+                  />
+                </div>
+                {stockMode === 'adjust' && (
+                  <div className="space-y-2">
+                    <Label>Reason</Label>
+                    <Select value={stockReason} onValueChange={(value) => setStockReason(value as InventoryReason)}>
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {adjustReasons.map(reason => (
+                          <SelectItem key={reason.id} value={reason.id}>{reason.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="bulk-stock-note">Note</Label>
+                  <Input
+                    id="bulk-stock-note"
+                    placeholder="Optional"
+                    value={stockNote}
+                    onChange={(e) => setStockNote(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="rounded-md border max-h-[320px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>{actionType === 'delete' ? 'Category' : 'Now'}</TableHead>
+                    {actionType !== 'delete' && <TableHead>After</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {products.map(product => {
+                    const [before, after] = describeChange(product);
+                    return (
+                      <TableRow key={product.id}>
+                        <TableCell className="font-medium">{product.name}</TableCell>
+                        <TableCell className="text-muted-foreground">{before}</TableCell>
+                        {actionType !== 'delete' && (
+                          <TableCell className={before !== after ? 'font-medium' : 'text-muted-foreground'}>
+                            {after || '—'}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button
+                variant={actionType === 'delete' ? 'destructive' : 'default'}
+                onClick={handleApply}
+                disabled={!action}
+              >
+                {actionType === 'delete' ? `Delete ${productCount}` : `Update ${productCount}`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'applying' && (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4 py-2">
+            <p>
+              {actionType === 'delete' ? 'Deleted' : 'Updated'} {result.succeeded.length} of{' '}
+              {result.succeeded.length + result.failed.length} products.
+            </p>
+            {result.failed.length > 0 && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm">
+                <p className="font-medium text-red-700 mb-2">
+                  {result.failed.length} {result.failed.length === 1 ? 'product was' : 'products were'} not
+                  changed and {result.failed.length === 1 ? 'stays' : 'stay'} selected:
+                </p>
+                <ul className="list-disc pl-4 space-y-1 text-red-700">
+                  {result.failed.map(failure => (
+                    <li key={failure.id}>{failure.name}: {failure.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={onClose}>Close</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductBulkActionDialog;
@@ -1,12 +1,15 @@
 
-import React, { useState, useEffect, useContext } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Heart } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
-import { AuthContext } from '@/contexts/AuthContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCart } from '@/hooks/use-cart';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import ResponsiveImage from '@/components/products/ResponsiveImage';
+import { ImageSource } from '@/lib/imagePipeline';
 import { formatCurrency, calculateDiscountPrice, getStarRating } from '@/lib/utils';
 
 interface ProductCardProps {
@@ -15,6 +18,7 @@ interface ProductCardProps {
   price: number;
   discount?: number;
   image: string;
+  imageSources?: ImageSource[];
   category: string;
   inStock?: boolean;
   rating?: number;
@@ -27,13 +31,15 @@ export default function ProductCard({
   price,
   discount = 0,
   image,
+  imageSources,
   category,
   inStock = true,
   rating,
   salesCount
 }: ProductCardProps) {
-  const { user } = useContext(AuthContext);
+  const { user } = useAuth();
   const { toast } = useToast();
+  const { addItem } = useCart();
   const [isWishlisted, setIsWishlisted] = useState(false);
   const [isLoadingWishlist, setIsLoadingWishlist] = useState(false);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
@@ -120,15 +126,6 @@ export default function ProductCard({
   };
   
   const handleAddToCart = async () => {
-    if (!user) {
-      toast({
-        title: 'Login Required',
-        description: 'Please log in to add items to your cart.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
     if (!inStock) {
       toast({
         title: 'Out of Stock',
@@ -139,47 +136,15 @@ export default function ProductCard({
     }
 
     setIsAddingToCart(true);
-    try {
-      // Check if item already in cart
-      const { data: existingCartItem, error: fetchError } = await supabase
-        .from('cart_items')
-        .select('product_id')
-        .eq('user_id', user.id)
-        .eq('product_id', id)
-        .maybeSingle();
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      if (existingCartItem) {
-        toast({
-          title: 'Already in Cart',
-          description: `${name} is already in your cart.`,
-        });
-      } else {
-        // Add to cart
-        const { error: insertError } = await supabase
-          .from('cart_items')
-          .insert([{ user_id: user.id, product_id: id, quantity: 1 }]);
+    const added = await addItem({ productId: String(id) });
+    setIsAddingToCart(false);
 
-        if (insertError) {
-          throw insertError;
-        }
-        toast({
-          title: 'Added to Cart',
-          description: `${name} has been added to your cart.`,
-          variant: 'success',
-        });
-      }
-    } catch (error: any) {
+    if (added) {
       toast({
-        title: 'Error Adding to Cart',
-        description: error.message || 'An unexpected error occurred.',
-        variant: 'destructive',
+        title: 'Added to Cart',
+        description: `${name} has been added to your cart.`,
+        variant: 'success',
       });
-    } finally {
-      setIsAddingToCart(false);
     }
   };
   const renderStarRating = () => {
@@ -199,9 +164,11 @@ export default function ProductCard({
     <div className="product-card group rounded-lg border bg-card text-card-foreground overflow-hidden">
       <div className="relative product-image-container">
         <Link to={`/product/${id}`}>
-          <img 
-            src={image} 
-            alt={name} 
+          <ResponsiveImage
+            src={image}
+            sources={imageSources}
+            sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+            alt={name}
             className="w-full h-64 object-cover product-image"
           />
         </Link>
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { CategoryType } from '@/lib/api/categories';
+import { ProductListFilters, StockFilter, UNCATEGORIZED, hasProductListFilters } from '@/lib/api/productList';
+import { buildCategoryTree, flattenCategoryTree } from '@/lib/categoryTree';
+
+// Select value for "no filter", since Select items can't have an empty value
+const ANY = 'any';
+
+const flagValue = (flag: boolean | null) => (flag === null ? ANY : flag ? 'yes' : 'no');
+const toFlag = (value: string) => (value === ANY ? null : value === 'yes');
+
+interface ProductFiltersBarProps {
+  filters: ProductListFilters;
+  categories: CategoryType[];
+  onChange: (changes: Partial<ProductListFilters>) => void;
+}
+
+// Search and filters above the admin product list
+const ProductFiltersBar = ({ filters, categories, onChange }: ProductFiltersBarProps) => {
+  const [searchInput, setSearchInput] = useState(filters.search);
+  const debouncedSearch = useDebouncedValue(searchInput, 300);
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories));
+
+  // The search last applied, so only a settled search box changes the filters
+  const appliedSearch = useRef(filters.search);
+
+  useEffect(() => {
+    if (debouncedSearch !== appliedSearch.current) {
+      appliedSearch.current = debouncedSearch;
+      onChange({ search: debouncedSearch });
+    }
+  }, [debouncedSearch, onChange]);
+
+  // Follows the URL when it changes otherwise, e.g. going back or clearing filters
+  useEffect(() => {
+    appliedSearch.current = filters.search;
+    setSearchInput(filters.search);
+  }, [filters.search]);
+
+  const handlePriceChange = (field: 'minPrice' | 'maxPrice', value: string) => {
+    const price = Number(value);
+    onChange({ [field]: value === '' || !Number.isFinite(price) || price < 0 ? undefined : price });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    onChange({
+      search: '',
+      categoryId: null,
+      stock: null,
+      featured: null,
+      bestseller: null,
+      minPrice: undefined,
+      maxPrice: undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder="Search products..."
+          className="pl-8"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filters.categoryId ?? ANY}
+          onValueChange={(value) => onChange({ categoryId: value === ANY ? null : value })}
+        >
+          <SelectTrigger className="w-[200px]" aria-label="Category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All categories</SelectItem>
+            <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem>
+            {categoryOptions.map(({ category, depth }) => (
+              <SelectItem key={category.id} value={category.id}>
+                {'\u00A0\u00A0'.repeat(depth)}{category.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.stock ?? ANY}
+          onValueChange={(value) => onChange({ stock: value === ANY ? null : value as StockFilter })}
+        >
+          <SelectTrigger className="w-[150px]" aria-label="Stock">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any stock</SelectItem>
+            <SelectItem value="in_stock">In stock</SelectItem>
+            <SelectItem value="low_stock">Low stock</SelectItem>
+            <SelectItem value="out_of_stock">Out of stock</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={flagValue(filters.featured)}
+          onValueChange={(value) => onChange({ featured: toFlag(value) })}
+        >
+          <SelectTrigger className="w-[150px]" aria-label="Featured">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Featured or not</SelectItem>
+            <SelectItem value="yes">Featured</SelectItem>
+            <SelectItem value="no">Not featured</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={flagValue(filters.bestseller)}
+          onValueChange={(value) => onChange({ bestseller: toFlag(value) })}
+        >
+          <SelectTrigger className="w-[160px]" aria-label="Bestseller">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Bestseller or not</SelectItem>
+            <SelectItem value="yes">Bestseller</SelectItem>
+            <SelectItem value="no">Not bestseller</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            min="0"
+            placeholder="Min ₹"
+            className="w-24"
+            value={filters.minPrice ?? ''}
+            onChange={(e) => handlePriceChange('minPrice', e.target.value)}
+            aria-label="Minimum price"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min="0"
+            placeholder="Max ₹"
+            className="w-24"
+            value={filters.maxPrice ?? ''}
+            onChange={(e) => handlePriceChange('maxPrice', e.target.value)}
+            aria-label="Maximum price"
+          />
+        </div>
+        {hasProductListFilters(filters) && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="mr-1 h-4 w-4" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductFiltersBar;
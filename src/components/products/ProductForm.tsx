@@ -1,46 +1,55 @@
 
-import React, { useRef } from 'react';
-import { Upload, Loader2 } from 'lucide-react';
+import React from 'react';
+import { Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { AttributeValue, CategoryAttributeDefinition, toProductAttributes } from '@/lib/api/attributes';
 import { CategoryType } from '@/lib/api/categories';
-import { ProductType } from '@/lib/api/products';
+import { fulfilmentModes } from '@/lib/fulfilment';
+import { ProductImageDraft, ProductType } from '@/lib/api/products';
+import ProductAttributesField from '@/components/products/ProductAttributesField';
+import ProductImagesField from '@/components/products/ProductImagesField';
 
 interface ProductFormProps {
   product: Partial<ProductType>;
   categories: CategoryType[];
-  imageFile: File | null;
-  imagePreview: string | null;
+  // Attributes of the selected category
+  attributeDefinitions: CategoryAttributeDefinition[];
+  images: ProductImageDraft[];
   isLoading: boolean;
   isEdit?: boolean;
   onSubmit: (e: React.FormEvent) => void;
   onInputChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
   onCategoryChange: (value: string) => void;
+  onFulfilmentModeChange: (value: string) => void;
+  onAttributeChange: (key: string, value: AttributeValue | undefined) => void;
   onSwitchChange: (name: string, checked: boolean) => void;
-  onImageChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onAddImages: (files: FileList) => void;
+  onImagesChange: (images: ProductImageDraft[]) => void;
   onCancel: () => void;
 }
 
 const ProductForm = ({
   product,
   categories,
-  imageFile,
-  imagePreview,
+  attributeDefinitions,
+  images,
   isLoading,
   isEdit = false,
   onSubmit,
   onInputChange,
   onCategoryChange,
+  onFulfilmentModeChange,
+  onAttributeChange,
   onSwitchChange,
-  onImageChange,
+  onAddImages,
+  onImagesChange,
   onCancel
 }: ProductFormProps) => {
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
   return (
     <form onSubmit={onSubmit} className="space-y-4 py-4">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -103,49 +112,91 @@ const ProductForm = ({
         </div>
       </div>
       
-      <div className="space-y-2">
-        <Label htmlFor={isEdit ? "edit-stock" : "stock"}>Stock Quantity</Label>
-        <Input
-          id={isEdit ? "edit-stock" : "stock"}
-          name="stock"
-          type="number"
-          min="0"
-          value={product.stock || 0}
-          onChange={onInputChange}
-          required
-        />
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={isEdit ? "edit-stock" : "stock"}>{isEdit ? "Stock Quantity" : "Opening Stock"}</Label>
+          <Input
+            id={isEdit ? "edit-stock" : "stock"}
+            name="stock"
+            type="number"
+            min="0"
+            value={product.stock || 0}
+            onChange={onInputChange}
+            readOnly={isEdit}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={isEdit ? "edit-reorder-threshold" : "reorder-threshold"}>Reorder Threshold</Label>
+          <Input
+            id={isEdit ? "edit-reorder-threshold" : "reorder-threshold"}
+            name="reorder_threshold"
+            type="number"
+            min="0"
+            value={product.reorder_threshold ?? 0}
+            onChange={onInputChange}
+            required
+          />
+        </div>
+        <p className="col-span-2 text-sm text-muted-foreground">
+          {isEdit && "Record receipts, returns and corrections from the product's Stock History. "}
+          The product is flagged as low on stock once its stock falls to the threshold.
+        </p>
       </div>
-      
-      <div className="space-y-2">
-        <Label>Product Image</Label>
-        <div className="flex items-center space-x-4">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => fileInputRef.current?.click()}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Fulfilment</Label>
+          <Select
+            onValueChange={onFulfilmentModeChange}
+            value={product.fulfilment_mode || 'in_stock'}
           >
-            <Upload className="mr-2 h-4 w-4" />
-            {isEdit ? 'Change Image' : 'Upload Image'}
-          </Button>
-          <input
-            type="file"
-            ref={fileInputRef}
-            className="hidden"
-            accept="image/*"
-            onChange={onImageChange}
-          />
-          {imagePreview && (
-            <div className="relative h-16 w-16 rounded-md overflow-hidden">
-              <img
-                src={imagePreview}
-                alt="Preview"
-                className="h-full w-full object-cover"
-              />
-            </div>
-          )}
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {fulfilmentModes.map(mode => (
+                <SelectItem key={mode.id} value={mode.id}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
+        {product.fulfilment_mode && product.fulfilment_mode !== 'in_stock' && (
+          <div className="space-y-2">
+            <Label htmlFor={isEdit ? "edit-lead-time" : "lead-time"}>Lead Time (days)</Label>
+            <Input
+              id={isEdit ? "edit-lead-time" : "lead-time"}
+              name="lead_time_days"
+              type="number"
+              min="1"
+              value={product.lead_time_days ?? ''}
+              onChange={onInputChange}
+              required
+            />
+          </div>
+        )}
+        <p className="col-span-2 text-sm text-muted-foreground">
+          {fulfilmentModes.find(mode => mode.id === (product.fulfilment_mode || 'in_stock'))?.description}.
+          {product.fulfilment_mode && product.fulfilment_mode !== 'in_stock' &&
+            " Shoppers can order it when out of stock; those items are dispatched after the lead time."}
+        </p>
       </div>
       
+      <ProductAttributesField
+        definitions={attributeDefinitions}
+        values={toProductAttributes(product.attributes)}
+        idPrefix={isEdit ? "edit-" : ""}
+        onChange={onAttributeChange}
+      />
+      
+      <ProductImagesField
+        images={images}
+        onAddFiles={onAddImages}
+        onChange={onImagesChange}
+      />
+      
       <div className="space-y-2">
         <Label htmlFor={isEdit ? "edit-description" : "description"}>Description</Label>
         <Textarea
@@ -164,6 +215,7 @@ const ProductForm = ({
             id={isEdit ? "edit-inStock" : "inStock"}
             checked={(product.stock || 0) > 0}
             onCheckedChange={(checked) => onSwitchChange('stock', checked)}
+            disabled={isEdit}
           />
           <Label htmlFor={isEdit ? "edit-inStock" : "inStock"}>In Stock</Label>
         </div>
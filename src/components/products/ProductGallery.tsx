@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Json } from '@/integrations/supabase/types';
+import { toImageSources } from '@/lib/imagePipeline';
+import ResponsiveImage from '@/components/products/ResponsiveImage';
+
+interface GalleryImage {
+  url: string;
+  alt_text: string | null;
+  sources?: Json;
+}
+
+interface ProductGalleryProps {
+  images: GalleryImage[];
+  productName: string;
+}
+
+const ZOOM = 2.5;
+
+// Main image with hover-to-zoom (follows the pointer) and a thumbnail strip
+const ProductGallery = ({ images, productName }: ProductGalleryProps) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [zoomOrigin, setZoomOrigin] = useState<string | null>(null);
+
+  const active = images[activeIndex] ?? images[0];
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 100;
+    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        className="bg-white p-4 rounded-lg border flex items-center justify-center overflow-hidden cursor-zoom-in"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setZoomOrigin(null)}
+      >
+        <ResponsiveImage
+          src={active?.url || "/placeholder.svg"}
+          sources={toImageSources(active?.sources)}
+          sizes="(min-width: 768px) 50vw, 100vw"
+          alt={active?.alt_text || productName}
+          className="max-h-[500px] object-contain transition-transform duration-100"
+          style={zoomOrigin ? { transform: `scale(${ZOOM})`, transformOrigin: zoomOrigin } : undefined}
+        />
+      </div>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {images.map((image, index) => (
+            <button
+              key={image.url}
+              type="button"
+              onClick={() => setActiveIndex(index)}
+              className={`h-20 w-20 flex-shrink-0 rounded-md border-2 overflow-hidden bg-white ${
+                index === activeIndex ? 'border-usha-burgundy' : 'border-transparent hover:border-gray-300'
+              }`}
+              aria-label={`Show image ${index + 1}`}
+            >
+              <ResponsiveImage
+                src={image.url}
+                sources={toImageSources(image.sources)}
+                sizes="80px"
+                alt={image.alt_text || `${productName} ${index + 1}`}
+                className="h-full w-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductGallery;
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { Upload, X, GripVertical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ProductImageDraft } from '@/lib/api/products';
+
+interface ProductImagesFieldProps {
+  images: ProductImageDraft[];
+  onAddFiles: (files: FileList) => void;
+  onChange: (images: ProductImageDraft[]) => void;
+}
+
+// Gallery editor for the product form. Images can be reordered by dragging;
+// the first one is used as the cover image.
+const ProductImagesField = ({ images, onAddFiles, onChange }: ProductImagesFieldProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to) return;
+    const reordered = [...images];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+  };
+
+  const updateAltText = (index: number, altText: string) => {
+    onChange(images.map((image, i) => (i === index ? { ...image, alt_text: altText } : image)));
+  };
+
+  const removeImage = (index: number) => {
+    onChange(images.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Product Images</Label>
+      <p className="text-sm text-muted-foreground">
+        Drag to reorder. The first image is shown on listings.
+      </p>
+
+      {images.length > 0 && (
+        <div className="space-y-2">
+          {images.map((image, index) => (
+            <div
+              key={image.id ?? image.url}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) moveImage(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`flex items-center gap-2 rounded-md border p-2 bg-white ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              <GripVertical className="h-4 w-4 text-muted-foreground cursor-move flex-shrink-0" />
+              <div className="relative h-14 w-14 rounded-md overflow-hidden flex-shrink-0">
+                <img src={image.url} alt={image.alt_text} className="h-full w-full object-cover" />
+                {index === 0 && (
+                  <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-[10px] text-center">
+                    Cover
+                  </span>
+                )}
+              </div>
+              <Input
+                placeholder="Alt text, e.g. Pallu with zari border"
+                value={image.alt_text}
+                onChange={(e) => updateAltText(index, e.target.value)}
+                className="h-8"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeImage(index)}
+                className="text-red-500 hover:text-red-700"
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove image</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        Add Images
+      </Button>
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept="image/*"
+        multiple
+        onChange={(e) => {
+          if (e.target.files?.length) onAddFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default ProductImagesField;
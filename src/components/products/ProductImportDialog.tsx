@@ -0,0 +1,369 @@
+import React, { useRef, useState } from 'react';
+import { Download, FileUp, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { AttributeDefinitionType } from '@/lib/api/attributes';
+import { CategoryType } from '@/lib/api/categories';
+import { ProductImportResult, applyProductImport } from '@/lib/api/products';
+import { emptyProductListFilters, fetchAllMatchingProducts } from '@/lib/api/productList';
+import {
+  ImportAction,
+  ImportField,
+  ImportRow,
+  buildImportPlan,
+  getImportTargets,
+  getImportTemplate,
+  guessColumnMapping,
+  readImportFile,
+} from '@/lib/productImport';
+import { downloadFile } from '@/lib/utils';
+
+// Select value for columns that aren't imported, since Select items can't have an empty value
+const IGNORE = 'ignore';
+
+const actionLabels: Record<ImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  reject: 'Rejected',
+};
+
+const actionVariants: Record<ImportAction, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  unchanged: 'outline',
+  reject: 'destructive',
+};
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: CategoryType[];
+  attributeDefinitions: AttributeDefinitionType[];
+  // Called once an import has written anything, to reload the product list
+  onImported: () => void;
+}
+
+// Bulk import from CSV or XLSX: pick a file, check which column goes where,
+// review what each line would do, then write the changes in batches.
+const ProductImportDialog = ({
+  open,
+  onOpenChange,
+  categories,
+  attributeDefinitions,
+  onImported,
+}: ProductImportDialogProps) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(ImportField | null)[]>([]);
+  const [plan, setPlan] = useState<ImportRow[]>([]);
+  const [actionFilter, setActionFilter] = useState<ImportAction | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+
+  const targets = getImportTargets(attributeDefinitions);
+  const counts = plan.reduce(
+    (totals, row) => ({ ...totals, [row.action]: totals[row.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, reject: 0 } as Record<ImportAction, number>
+  );
+  const pendingCount = counts.create + counts.update;
+  const visibleRows = actionFilter ? plan.filter(row => row.action === actionFilter) : plan;
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    setPlan([]);
+    setActionFilter(null);
+    setProgress(0);
+    setResult(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    // Closing mid-import would hide the progress of writes that carry on anyway
+    if (step === 'importing') return;
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    try {
+      const [headerRow = [], ...dataRows] = await readImportFile(file);
+      if (dataRows.length === 0) {
+        toast({
+          title: 'Nothing to import',
+          description: `${file.name} has no product rows below its header.`,
+          variant: 'destructive'
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow, attributeDefinitions));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not read the file. Use a .csv or .xlsx file with a header row.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (index: number, value: string) => {
+    setMapping(mapping.map((field, i) => {
+      if (i === index) return value === IGNORE ? null : value as ImportField;
+      // A field can only come from one column
+      return field === value ? null : field;
+    }));
+  };
+
+  const handlePreview = async () => {
+    setIsPlanning(true);
+    try {
+      // Rows are matched against the whole catalog, not just the page on screen
+      const products = await fetchAllMatchingProducts(emptyProductListFilters, []);
+      setPlan(buildImportPlan(rows, mapping, { products, categories, definitions: attributeDefinitions }));
+      setActionFilter(null);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error loading products for import:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not load the existing products to compare against. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress(0);
+
+    const importResult = await applyProductImport(plan, (done, total) => {
+      setProgress(Math.round((done / total) * 100));
+    });
+
+    setResult(importResult);
+    setStep('done');
+    if (importResult.created + importResult.updated > 0) {
+      onImported();
+    }
+  };
+
+  const downloadTemplate = () => {
+    downloadFile(getImportTemplate(attributeDefinitions), 'product-import-template.csv', 'text/csv');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file with one product per row.'}
+            {step === 'map' && `Match the columns of ${fileName} to product fields.`}
+            {step === 'preview' && 'Review the changes. Nothing has been saved yet.'}
+            {step === 'importing' && 'Importing products...'}
+            {step === 'done' && 'Import finished.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4 py-4">
+            <div className="border-2 border-dashed rounded-md p-8 text-center">
+              <Button onClick={() => fileInputRef.current?.click()} disabled={isReading}>
+                {isReading ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileUp className="mr-2 h-4 w-4" />
+                )}
+                Choose File
+              </Button>
+              <input
+                type="file"
+                ref={fileInputRef}
+                className="hidden"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+              <p className="text-sm text-muted-foreground mt-4">
+                Rows are matched to existing products by Product ID, or else by name. Matching
+                products are updated; the rest are created. Categories can be given by name or URL slug.
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={downloadTemplate}>
+              <Download className="mr-2 h-4 w-4" />
+              Download Template
+            </Button>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4 py-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>First Row</TableHead>
+                  <TableHead>Import As</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {headers.map((header, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="font-medium">{header || `Column ${index + 1}`}</TableCell>
+                    <TableCell className="text-muted-foreground max-w-[200px] truncate">{rows[0]?.[index]}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping[index] ?? IGNORE}
+                        onValueChange={(value) => handleMappingChange(index, value)}
+                      >
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE}>Don't import</SelectItem>
+                          {targets.map(target => (
+                            <SelectItem key={target.field} value={target.field}>{target.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={handlePreview} disabled={isPlanning || (!mapping.includes('name') && !mapping.includes('id'))}>
+                {isPlanning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Preview {rows.length} Rows
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4 py-4">
+            <div className="flex flex-wrap gap-2">
+              <Button variant={actionFilter === null ? 'default' : 'outline'} size="sm" onClick={() => setActionFilter(null)}>
+                All ({plan.length})
+              </Button>
+              {(Object.keys(actionLabels) as ImportAction[]).map(action => (
+                <Button
+                  key={action}
+                  variant={actionFilter === action ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setActionFilter(action)}
+                >
+                  {actionLabels[action]} ({counts[action]})
+                </Button>
+              ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Line</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map(row => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell className="font-medium">{row.name || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={actionVariants[row.action]}>{actionLabels[row.action]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {row.action === 'reject' && (
+                        <ul className="list-disc pl-4 text-red-600">
+                          {row.errors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                      )}
+                      {row.action === 'update' && `Changes ${row.changes.join(', ')}`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setStep('map')}>Back</Button>
+              <Button onClick={handleImport} disabled={pendingCount === 0}>
+                Import {counts.create} New, Update {counts.update}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-2 py-8">
+            <Progress value={progress} />
+            <p className="text-sm text-muted-foreground text-center">{progress}% of {pendingCount} products</p>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4 py-4">
+            <p>
+              Created {result.created} and updated {result.updated} products.
+              {counts.reject > 0 && ` ${counts.reject} rejected rows were skipped.`}
+            </p>
+            {result.failed.length > 0 && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm">
+                <p className="font-medium text-red-700 mb-2">{result.failed.length} rows could not be saved:</p>
+                <ul className="list-disc pl-4 space-y-1 text-red-700">
+                  {result.failed.map(failure => (
+                    <li key={failure.line}>Line {failure.line} ({failure.name}): {failure.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={() => handleOpenChange(false)}>Close</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductImportDialog;
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  InventoryMovementType,
+  InventoryReason,
+  fetchInventoryMovements,
+  getInventoryReasonLabel,
+  inventoryReasons,
+  recordInventoryMovement,
+} from '@/lib/api/inventory';
+import { ProductType, ProductVariantType, fetchProductVariants, getVariantLabel } from '@/lib/api/products';
+
+// Sales are recorded by checkout, not by hand
+const manualReasons = inventoryReasons.filter(reason => reason.id !== 'sale');
+
+interface ProductStockDialogProps {
+  // The product whose stock is shown, or null when closed
+  product: ProductType | null;
+  onClose: () => void;
+  // Called after a movement is recorded, so the product's stock can be refreshed
+  onStockChange: () => void;
+}
+
+// The stock history of a product, with a form to record receipts, returns,
+// damage and count corrections
+const ProductStockDialog = ({ product, onClose, onStockChange }: ProductStockDialogProps) => {
+  const [movements, setMovements] = useState<InventoryMovementType[]>([]);
+  const [variants, setVariants] = useState<ProductVariantType[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [variantId, setVariantId] = useState('');
+  const [reason, setReason] = useState<InventoryReason>('receipt');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (!product) return;
+
+    const loadStock = async () => {
+      setIsLoading(true);
+      const [movementsData, variantsData] = await Promise.all([
+        fetchInventoryMovements(product.id),
+        fetchProductVariants(product.id),
+      ]);
+      setMovements(movementsData);
+      setVariants(variantsData);
+      setIsLoading(false);
+    };
+
+    setVariantId('');
+    setReason('receipt');
+    setQuantity('');
+    setNote('');
+    loadStock();
+  }, [product]);
+
+  const direction = inventoryReasons.find(r => r.id === reason)?.direction ?? 0;
+  const amount = Number(quantity);
+  // Receipts and returns add stock and damage removes it, so only
+  // corrections take a signed quantity
+  const signedQuantity = direction === 0 ? amount : direction * Math.abs(amount);
+  const canRecord = quantity !== '' && Number.isInteger(amount) && amount !== 0
+    && (variants.length === 0 || variantId !== '');
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product || !canRecord) return;
+
+    setIsSaving(true);
+    const movement = await recordInventoryMovement({
+      product_id: product.id,
+      variant_id: variantId || null,
+      quantity: signedQuantity,
+      reason,
+      note: note.trim() || null,
+    });
+
+    if (movement) {
+      const [movementsData, variantsData] = await Promise.all([
+        fetchInventoryMovements(product.id),
+        fetchProductVariants(product.id),
+      ]);
+      setMovements(movementsData);
+      setVariants(variantsData);
+      setQuantity('');
+      setNote('');
+      onStockChange();
+    }
+    setIsSaving(false);
+  };
+
+  const currentStock = variants.length > 0
+    ? variants.reduce((total, variant) => total + variant.stock, 0)
+    : movements[0]?.stock_after ?? product?.stock ?? 0;
+
+  return (
+    <Dialog open={product !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History</DialogTitle>
+          <DialogDescription>
+            {product?.name} has {currentStock} in stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleRecord} className="space-y-4 rounded-md border p-4">
+          <h3 className="font-medium">Record Movement</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {variants.length > 0 && (
+              <div className="space-y-1">
+                <Label>Variant</Label>
+                <Select value={variantId} onValueChange={setVariantId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a variant" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {variants.map(variant => (
+                      <SelectItem key={variant.id} value={variant.id}>
+                        {variant.sku} ({variant.stock})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as InventoryReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {manualReasons.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="movement-quantity">
+                {direction === 0 ? 'Quantity (negative to remove)' : 'Quantity'}
+              </Label>
+              <Input
+                id="movement-quantity"
+                type="number"
+                step="1"
+                min={direction === 0 ? undefined : '1'}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="movement-note">Note</Label>
+              <Input
+                id="movement-note"
+                placeholder="Optional"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving || !canRecord}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record
+            </Button>
+          </div>
+        </form>
+
+        <div className="rounded-md border max-h-[400px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                {variants.length > 0 && <TableHead>Variant</TableHead>}
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : movements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No stock movements recorded yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                movements.map(movement => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(movement.created_at), 'MMM dd, yyyy HH:mm')}
+                    </TableCell>
+                    {variants.length > 0 && (
+                      <TableCell>
+                        {movement.variant ? movement.variant.sku : '—'}
+                        {movement.variant && getVariantLabel(movement.variant) && (
+                          <span className="block text-xs text-muted-foreground">{getVariantLabel(movement.variant)}</span>
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>{getInventoryReasonLabel(movement.reason)}</TableCell>
+                    <TableCell className={`text-right font-medium ${movement.quantity > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                      {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </TableCell>
+                    <TableCell className="text-right">{movement.stock_after}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {movement.order_id ? `Order #${movement.order_id.slice(0, 8).toUpperCase()}` : movement.note || '—'}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {movement.created_by_name || '—'}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductStockDialog;
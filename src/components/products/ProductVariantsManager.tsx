@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ProductVariantType,
+  fetchProductVariants,
+  addProductVariant,
+  updateProductVariant,
+  deleteProductVariant,
+  getVariantLabel,
+} from '@/lib/api/products';
+
+interface ProductVariantsManagerProps {
+  productId: string;
+  // Called after any change, since variant stock changes the product's total stock
+  onStockChange?: () => void;
+}
+
+const emptyVariant = {
+  sku: '',
+  color: '',
+  size: '',
+  blouse_option: '',
+  price: '',
+  stock: '0',
+};
+
+const ProductVariantsManager = ({ productId, onStockChange }: ProductVariantsManagerProps) => {
+  const [variants, setVariants] = useState<ProductVariantType[]>([]);
+  const [newVariant, setNewVariant] = useState(emptyVariant);
+  // Unsaved price changes by variant id
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadVariants = async () => {
+      setIsLoading(true);
+      setVariants(await fetchProductVariants(productId));
+      setIsLoading(false);
+    };
+
+    loadVariants();
+  }, [productId]);
+
+  const handleNewVariantChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setNewVariant(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handlePriceChange = (variant: ProductVariantType, value: string) => {
+    setEdits(prev => ({ ...prev, [variant.id]: value }));
+  };
+
+  const handleAddVariant = async () => {
+    if (!newVariant.sku.trim()) return;
+
+    setIsSaving(true);
+    const variant = await addProductVariant({
+      product_id: productId,
+      sku: newVariant.sku.trim(),
+      color: newVariant.color.trim() || null,
+      size: newVariant.size.trim() || null,
+      blouse_option: newVariant.blouse_option.trim() || null,
+      price: newVariant.price ? Number(newVariant.price) : null,
+      stock: Number(newVariant.stock) || 0,
+    });
+
+    if (variant) {
+      setVariants([...variants, variant]);
+      setNewVariant(emptyVariant);
+      onStockChange?.();
+    }
+    setIsSaving(false);
+  };
+
+  const handleSaveVariant = async (variant: ProductVariantType) => {
+    const price = edits[variant.id];
+    if (price === undefined) return;
+
+    setIsSaving(true);
+    const updated = await updateProductVariant(variant.id, {
+      price: price ? Number(price) : null,
+    });
+
+    if (updated) {
+      setVariants(variants.map(v => (v.id === updated.id ? updated : v)));
+      setEdits(prev => {
+        const { [variant.id]: _saved, ...rest } = prev;
+        return rest;
+      });
+    }
+    setIsSaving(false);
+  };
+
+  const handleDeleteVariant = async (variantId: string) => {
+    if (!window.confirm('Are you sure you want to delete this variant?')) return;
+
+    setIsSaving(true);
+    const success = await deleteProductVariant(variantId);
+    if (success) {
+      setVariants(variants.filter(v => v.id !== variantId));
+      onStockChange?.();
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div>
+        <h3 className="font-medium">Variants</h3>
+        <p className="text-sm text-muted-foreground">
+          When a product has variants, its stock is the total of its variants' stock.
+          Leave the price empty to use the product price. Record stock changes in the
+          product's stock history.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : variants.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Option</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Stock</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variants.map(variant => (
+                <TableRow key={variant.id}>
+                  <TableCell className="font-medium">{variant.sku}</TableCell>
+                  <TableCell>
+                    {getVariantLabel(variant) || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="h-8 w-24"
+                      placeholder="Default"
+                      value={edits[variant.id] ?? variant.price?.toString() ?? ''}
+                      onChange={(e) => handlePriceChange(variant, e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>{variant.stock}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleSaveVariant(variant)}
+                        disabled={isSaving || edits[variant.id] === undefined}
+                      >
+                        <Save className="h-4 w-4" />
+                        <span className="sr-only">Save</span>
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-500 hover:text-red-700"
+                        onClick={() => handleDeleteVariant(variant.id)}
+                        disabled={isSaving}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="variant-sku">SKU</Label>
+          <Input id="variant-sku" name="sku" value={newVariant.sku} onChange={handleNewVariantChange} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="variant-color">Colour</Label>
+          <Input id="variant-color" name="color" value={newVariant.color} onChange={handleNewVariantChange} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="variant-size">Size</Label>
+          <Input id="variant-size" name="size" value={newVariant.size} onChange={handleNewVariantChange} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="variant-blouse">Blouse Option</Label>
+          <Input
+            id="variant-blouse"
+            name="blouse_option"
+            placeholder="e.g. With blouse piece"
+            value={newVariant.blouse_option}
+            onChange={handleNewVariantChange}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="variant-price">Price (₹)</Label>
+          <Input
+            id="variant-price"
+            name="price"
+            type="number"
+            min="0"
+            placeholder="Default"
+            value={newVariant.price}
+            onChange={handleNewVariantChange}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="variant-stock">Opening Stock</Label>
+          <Input
+            id="variant-stock"
+            name="stock"
+            type="number"
+            min="0"
+            value={newVariant.stock}
+            onChange={handleNewVariantChange}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAddVariant}
+          disabled={isSaving || !newVariant.sku.trim()}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Variant
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ProductVariantsManager;
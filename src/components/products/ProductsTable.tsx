@@ -1,9 +1,10 @@
 
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Package, PlusCircle, Edit, Trash2, ChevronDown, Eye, Loader2 } from 'lucide-react';
+import { Package, PlusCircle, Edit, Trash2, ChevronDown, Eye, History, Loader2, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Table,
   TableBody,
@@ -18,57 +19,146 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { ProductType } from '@/lib/api/products';
+import { format } from 'date-fns';
+import { ProductWithCategory } from '@/lib/api/products';
+import { ProductSortField } from '@/lib/api/productList';
 import { formatCurrency } from '@/lib/utils';
 
+interface SortableHeadProps {
+  field: ProductSortField;
+  label: string;
+  sort: ProductSortField;
+  ascending: boolean;
+  onSortChange: (sort: ProductSortField, ascending: boolean) => void;
+}
+
+// A column header that sorts by its column, or flips the direction if it already does
+const SortableHead = ({ field, label, sort, ascending, onSortChange }: SortableHeadProps) => {
+  const isActive = sort === field;
+  const Icon = !isActive ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead aria-sort={isActive ? (ascending ? 'ascending' : 'descending') : undefined}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-ml-3 h-8"
+        // Dates start newest first, everything else A-Z or low to high
+        onClick={() => onSortChange(field, isActive ? !ascending : field !== 'created_at')}
+      >
+        {label}
+        <Icon className={`ml-2 h-4 w-4 ${isActive ? '' : 'text-muted-foreground'}`} />
+      </Button>
+    </TableHead>
+  );
+};
+
 interface ProductsTableProps {
-  products: ProductType[];
+  products: ProductWithCategory[];
   isLoading: boolean;
-  onEdit: (product: ProductType) => void;
+  // Whether search or filters are narrowing the list, for the empty state
+  isFiltered: boolean;
+  sort: ProductSortField;
+  ascending: boolean;
+  onSortChange: (sort: ProductSortField, ascending: boolean) => void;
+  // IDs of the products picked for a bulk action, possibly beyond this page
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onEdit: (product: ProductWithCategory) => void;
+  onStockHistory: (product: ProductWithCategory) => void;
   onDelete: (productId: string) => void;
   onAddProduct: () => void;
 }
 
-const ProductsTable = ({ products, isLoading, onEdit, onDelete, onAddProduct }: ProductsTableProps) => {
+const ProductsTable = ({
+  products,
+  isLoading,
+  isFiltered,
+  sort,
+  ascending,
+  onSortChange,
+  selectedIds,
+  onSelectionChange,
+  onEdit,
+  onStockHistory,
+  onDelete,
+  onAddProduct
+}: ProductsTableProps) => {
+  const sortProps = { sort, ascending, onSortChange };
+  const pageIds = products.map(product => product.id);
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.includes(id));
+
+  const togglePage = (checked: boolean) => {
+    onSelectionChange(checked
+      ? [...selectedIds, ...pageIds.filter(id => !selectedIds.includes(id))]
+      : selectedIds.filter(id => !pageIds.includes(id)));
+  };
+
+  const toggleProduct = (productId: string, checked: boolean) => {
+    onSelectionChange(checked ? [...selectedIds, productId] : selectedIds.filter(id => id !== productId));
+  };
+
   return (
     <div className="rounded-md border">
       <Table>
         <TableHeader>
           <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={allOnPageSelected}
+                onCheckedChange={(checked) => togglePage(checked === true)}
+                disabled={isLoading || pageIds.length === 0}
+                aria-label="Select all on this page"
+              />
+            </TableHead>
             <TableHead className="w-[100px]">Image</TableHead>
-            <TableHead>Name</TableHead>
-            <TableHead>Category</TableHead>
-            <TableHead>Price</TableHead>
-            <TableHead>Status</TableHead>
+            <SortableHead field="name" label="Name" {...sortProps} />
+            <SortableHead field="category" label="Category" {...sortProps} />
+            <SortableHead field="price" label="Price" {...sortProps} />
+            <SortableHead field="stock" label="Status" {...sortProps} />
+            <SortableHead field="created_at" label="Added" {...sortProps} />
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {isLoading ? (
             <TableRow>
-              <TableCell colSpan={6} className="text-center py-8">
+              <TableCell colSpan={8} className="text-center py-8">
                 <Loader2 className="h-6 w-6 animate-spin mx-auto" />
                 <p className="mt-2 text-sm text-muted-foreground">Loading products...</p>
               </TableCell>
             </TableRow>
           ) : products.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={6} className="text-center py-8">
+              <TableCell colSpan={8} className="text-center py-8">
                 <Package className="h-10 w-10 mx-auto text-muted-foreground opacity-50" />
-                <p className="mt-2 text-sm text-muted-foreground">No products yet</p>
-                <Button
-                  variant="outline"
-                  className="mt-4"
-                  onClick={onAddProduct}
-                >
-                  <PlusCircle className="mr-2 h-4 w-4" />
-                  Add Your First Product
-                </Button>
+                {isFiltered ? (
+                  <p className="mt-2 text-sm text-muted-foreground">No products match these filters</p>
+                ) : (
+                  <>
+                    <p className="mt-2 text-sm text-muted-foreground">No products yet</p>
+                    <Button
+                      variant="outline"
+                      className="mt-4"
+                      onClick={onAddProduct}
+                    >
+                      <PlusCircle className="mr-2 h-4 w-4" />
+                      Add Your First Product
+                    </Button>
+                  </>
+                )}
               </TableCell>
             </TableRow>
           ) : (
             products.map((product) => (
-              <TableRow key={product.id}>
+              <TableRow key={product.id} data-state={selectedIds.includes(product.id) ? 'selected' : undefined}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(product.id)}
+                    onCheckedChange={(checked) => toggleProduct(product.id, checked === true)}
+                    aria-label={`Select ${product.name}`}
+                  />
+                </TableCell>
                 <TableCell>
                   <div className="h-10 w-10 rounded-md overflow-hidden bg-muted">
                     {product.image ? (
@@ -88,7 +178,15 @@ const ProductsTable = ({ products, isLoading, onEdit, onDelete, onAddProduct }:
                 <TableCell>{product.category_name || 'Uncategorized'}</TableCell>
                 <TableCell>{formatCurrency(product.price)}</TableCell>
                 <TableCell>
-                  {product.stock && product.stock > 0 ? (
+                  {product.stock_status === 'low_stock' ? (
+                    <Badge
+                      variant="outline"
+                      className="bg-amber-50 text-amber-700 hover:bg-amber-50"
+                      title={`Reorder at ${product.reorder_threshold}`}
+                    >
+                      Low Stock ({product.stock})
+                    </Badge>
+                  ) : product.stock && product.stock > 0 ? (
                     <Badge variant="outline" className="bg-green-50 text-green-700 hover:bg-green-50">
                       In Stock ({product.stock})
                     </Badge>
@@ -98,6 +196,9 @@ const ProductsTable = ({ products, isLoading, onEdit, onDelete, onAddProduct }:
                     </Badge>
                   )}
                 </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {format(new Date(product.created_at), 'MMM dd, yyyy')}
+                </TableCell>
                 <TableCell className="text-right">
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -117,6 +218,10 @@ const ProductsTable = ({ products, isLoading, onEdit, onDelete, onAddProduct }:
                         <Edit className="mr-2 h-4 w-4" />
                         Edit
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => onStockHistory(product)}>
+                        <History className="mr-2 h-4 w-4" />
+                        Stock History
+                      </DropdownMenuItem>
                       <DropdownMenuItem 
                         className="text-red-600"
                         onClick={() => onDelete(product.id)}
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ImageSource, buildSrcSet } from '@/lib/imagePipeline';
+
+interface ResponsiveImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+  src: string;
+  alt: string;
+  // Uploaded widths of the image; without them a plain <img> is rendered
+  sources?: ImageSource[];
+  // Rendered width of the image, so the browser can pick the smallest fitting file
+  sizes?: string;
+}
+
+// Serves WebP where the browser supports it and JPEG otherwise
+const ResponsiveImage = ({ src, alt, sources = [], sizes = '100vw', ...imgProps }: ResponsiveImageProps) => {
+  if (sources.length === 0) {
+    return <img src={src} alt={alt} {...imgProps} />;
+  }
+
+  const hasWebp = sources.every(source => source.webp);
+
+  return (
+    <picture>
+      {hasWebp && <source type="image/webp" srcSet={buildSrcSet(sources, 'webp')} sizes={sizes} />}
+      <img
+        src={src}
+        srcSet={buildSrcSet(sources, 'jpeg')}
+        sizes={sizes}
+        alt={alt}
+        {...imgProps}
+      />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
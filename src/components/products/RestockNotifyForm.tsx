@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Bell, Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { subscribeToRestock } from '@/lib/api/stockSubscriptions';
+
+interface RestockNotifyFormProps {
+  productId: string;
+  // The selected variant, when the product has variants
+  variantId: string | null;
+  // The signed-in shopper's email, if any
+  defaultEmail?: string;
+}
+
+// "Notify me" form shown in place of buying when an item is sold out
+const RestockNotifyForm = ({ productId, variantId, defaultEmail = '' }: RestockNotifyFormProps) => {
+  const [email, setEmail] = useState(defaultEmail);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSubmitting(true);
+    setIsSubscribed(await subscribeToRestock(productId, variantId, email));
+    setIsSubmitting(false);
+  };
+
+  if (isSubscribed) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border bg-muted/50 p-4 mb-6 text-sm">
+        <Check className="h-4 w-4 text-green-600" />
+        We'll email {email.trim()} as soon as this is back in stock.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-md border p-4 mb-6 space-y-3">
+      <div>
+        <p className="font-medium">This is sold out</p>
+        <p className="text-sm text-muted-foreground">Leave your email and we'll let you know once it's back.</p>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          type="email"
+          placeholder="Your email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          aria-label="Email"
+        />
+        <Button type="submit" variant="outline" disabled={isSubmitting}>
+          {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Bell className="mr-2 h-4 w-4" />}
+          Notify Me
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default RestockNotifyForm;
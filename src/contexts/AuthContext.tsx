@@ -3,6 +3,7 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { User, Session } from '@supabase/supabase-js';
 import { useToast } from '@/hooks/use-toast';
+import { mergeGuestCart } from '@/lib/api/cart';
 
 type AuthContextType = {
   user: User | null;
@@ -33,6 +34,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (session?.user) {
           setTimeout(() => {
             checkUserRole(session.user.id);
+            if (event === 'SIGNED_IN') {
+              mergeGuestCart(session.user.id);
+            }
           }, 0);
         } else {
           setIsAdmin(false);
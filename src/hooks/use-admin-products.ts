@@ -0,0 +1,15 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+
+import { ProductListParams, fetchProductList } from "@/lib/api/productList"
+
+// One page of the admin product list. `categoryIds` are the filter category
+// and its descendants. The previous page stays on screen while the next one
+// loads, so sorting or filtering doesn't flash an empty table.
+export function useAdminProducts(params: ProductListParams, categoryIds: string[], enabled = true) {
+  return useQuery({
+    queryKey: ["admin-products", params, categoryIds],
+    queryFn: () => fetchProductList(params, categoryIds),
+    enabled,
+    placeholderData: keepPreviousData,
+  })
+}
@@ -0,0 +1,127 @@
+import * as React from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { useAuth } from "@/contexts/AuthContext"
+import { toast } from "@/hooks/use-toast"
+import { GUEST_CART_MERGED_EVENT } from "@/lib/guestCart"
+import {
+  CartLine,
+  CartProduct,
+  CartVariant,
+  addCartItem,
+  clearCart,
+  fetchCart,
+  removeCartItem,
+  updateCartItemQuantity,
+} from "@/lib/api/cart"
+
+export const CART_QUERY_KEY = "cart"
+
+type AddItemInput = {
+  productId: string
+  variantId?: string | null
+  quantity?: number
+  // When given, the line shows up in the cart before the server responds
+  product?: CartProduct
+  variant?: CartVariant | null
+}
+
+const isSameLine = (line: CartLine, productId: string, variantId: string | null) =>
+  line.product.id === productId && (line.variant?.id ?? null) === variantId
+
+// Shared cart state for the signed-in user, or the guest cart when signed out.
+// Mutations update the cache straight away and roll back if the request fails.
+export function useCart() {
+  const { user, loading: authLoading } = useAuth()
+  const queryClient = useQueryClient()
+  const userId = user?.id ?? null
+  const queryKey = [CART_QUERY_KEY, userId ?? "guest"]
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => fetchCart(userId),
+    enabled: !authLoading,
+  })
+
+  // Signing in moves the guest cart into the account, so refetch once that's done
+  React.useEffect(() => {
+    const onMerged = () => queryClient.invalidateQueries({ queryKey: [CART_QUERY_KEY] })
+    window.addEventListener(GUEST_CART_MERGED_EVENT, onMerged)
+    return () => window.removeEventListener(GUEST_CART_MERGED_EVENT, onMerged)
+  }, [queryClient])
+
+  const optimistic = <TVariables,>(
+    mutationFn: (variables: TVariables) => Promise<void>,
+    update: (lines: CartLine[], variables: TVariables) => CartLine[],
+    errorMessage: string
+  ) => ({
+    mutationFn,
+    onMutate: async (variables: TVariables) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<CartLine[]>(queryKey)
+      queryClient.setQueryData<CartLine[]>(queryKey, lines => update(lines ?? [], variables))
+      return { previous }
+    },
+    onError: (error: unknown, _variables: TVariables, context?: { previous?: CartLine[] }) => {
+      console.error("Error updating cart:", error)
+      queryClient.setQueryData(queryKey, context?.previous)
+      toast({
+        title: "Cart not updated",
+        description: errorMessage,
+        variant: "destructive",
+      })
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  })
+
+  const addMutation = useMutation(optimistic<AddItemInput>(
+    ({ productId, variantId = null, quantity = 1 }) => addCartItem(userId, productId, quantity, variantId),
+    (lines, { productId, variantId = null, quantity = 1, product, variant = null }) => {
+      if (lines.some(line => isSameLine(line, productId, variantId))) {
+        return lines.map(line =>
+          isSameLine(line, productId, variantId) ? { ...line, quantity: line.quantity + quantity } : line
+        )
+      }
+      return product
+        ? [...lines, { id: `pending-${variantId ?? productId}`, quantity, product, variant }]
+        : lines
+    },
+    "Failed to add item to cart"
+  ))
+
+  const updateMutation = useMutation(optimistic<{ itemId: string; quantity: number }>(
+    ({ itemId, quantity }) => updateCartItemQuantity(userId, itemId, quantity),
+    (lines, { itemId, quantity }) =>
+      lines.map(line => (line.id === itemId ? { ...line, quantity } : line)),
+    "There was a problem updating your cart"
+  ))
+
+  const removeMutation = useMutation(optimistic<string>(
+    itemId => removeCartItem(userId, itemId),
+    (lines, itemId) => lines.filter(line => line.id !== itemId),
+    "There was a problem removing the item from your cart"
+  ))
+
+  const clearMutation = useMutation(optimistic<void>(
+    () => clearCart(userId),
+    () => [],
+    "There was a problem clearing your cart"
+  ))
+
+  const items = query.data ?? []
+
+  // Failures are already reported by onError, so callers just get a success flag
+  const settle = (promise: Promise<void>) => promise.then(() => true, () => false)
+
+  return {
+    items,
+    itemCount: items.reduce((count, line) => count + line.quantity, 0),
+    isLoading: authLoading || query.isLoading,
+    isUpdating: addMutation.isPending || updateMutation.isPending || removeMutation.isPending || clearMutation.isPending,
+    addItem: (input: AddItemInput) => settle(addMutation.mutateAsync(input)),
+    updateQuantity: (itemId: string, quantity: number) => settle(updateMutation.mutateAsync({ itemId, quantity })),
+    removeItem: (itemId: string) => settle(removeMutation.mutateAsync(itemId)),
+    clear: () => settle(clearMutation.mutateAsync()),
+    refresh: () => queryClient.invalidateQueries({ queryKey: [CART_QUERY_KEY] }),
+  }
+}
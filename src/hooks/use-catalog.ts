@@ -0,0 +1,65 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+
+import { fetchAttributeDefinitions } from "@/lib/api/attributes"
+import { fetchCategories } from "@/lib/api/categories"
+import {
+  CatalogFilters,
+  fetchCatalogFacets,
+  fetchCategoryBySlug,
+  fetchCategoryProducts,
+} from "@/lib/api/catalog"
+
+// Listings change rarely while someone browses, so serve them from cache for a bit
+const CATALOG_STALE_TIME = 5 * 60 * 1000
+
+// Every category, flat and in display order; see categoryTree for building the tree
+export function useCategories() {
+  return useQuery({
+    queryKey: ["categories"],
+    queryFn: fetchCategories,
+    staleTime: CATALOG_STALE_TIME,
+  })
+}
+
+// Product attribute definitions with the categories they are assigned to
+export function useAttributeDefinitions() {
+  return useQuery({
+    queryKey: ["attribute-definitions"],
+    queryFn: fetchAttributeDefinitions,
+    staleTime: CATALOG_STALE_TIME,
+  })
+}
+
+export function useCategory(slug: string | undefined) {
+  return useQuery({
+    queryKey: ["category", slug],
+    queryFn: () => fetchCategoryBySlug(slug!),
+    enabled: !!slug,
+    staleTime: CATALOG_STALE_TIME,
+  })
+}
+
+export function useCatalogFacets(categoryIds: string[] | undefined) {
+  return useQuery({
+    queryKey: ["catalog-facets", categoryIds],
+    queryFn: () => fetchCatalogFacets(categoryIds!),
+    enabled: !!categoryIds,
+    staleTime: CATALOG_STALE_TIME,
+  })
+}
+
+// One page of products from the given categories. The previous page stays on
+// screen while the next one loads, so changing a filter doesn't flash an empty grid.
+export function useCategoryProducts(
+  categoryIds: string[] | undefined,
+  filters: CatalogFilters,
+  page: number
+) {
+  return useQuery({
+    queryKey: ["catalog-products", categoryIds, filters, page],
+    queryFn: () => fetchCategoryProducts(categoryIds!, filters, page),
+    enabled: !!categoryIds,
+    staleTime: CATALOG_STALE_TIME,
+    placeholderData: keepPreviousData,
+  })
+}
@@ -0,0 +1,31 @@
+import * as React from "react"
+
+const setMetaDescription = (content: string | null) => {
+  let tag = document.querySelector<HTMLMetaElement>('meta[name="description"]')
+  if (!tag) {
+    tag = document.createElement("meta")
+    tag.name = "description"
+    document.head.appendChild(tag)
+  }
+  tag.content = content ?? ""
+}
+
+// Sets the page title and meta description while the component is mounted,
+// restoring the previous ones afterwards
+export function useDocumentMeta(title: string | undefined, description?: string | null) {
+  React.useEffect(() => {
+    if (!title) return
+
+    const previousTitle = document.title
+    const previousDescription =
+      document.querySelector<HTMLMetaElement>('meta[name="description"]')?.content ?? null
+
+    document.title = title
+    if (description) setMetaDescription(description)
+
+    return () => {
+      document.title = previousTitle
+      if (description) setMetaDescription(previousDescription)
+    }
+  }, [title, description])
+}
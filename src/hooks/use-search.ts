@@ -0,0 +1,53 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+
+import {
+  SearchFilters,
+  fetchSearchFacets,
+  fetchSearchSuggestions,
+  fetchTrendingSearches,
+  searchProducts,
+} from "@/lib/api/search"
+
+const SEARCH_STALE_TIME = 60 * 1000
+const TRENDING_STALE_TIME = 10 * 60 * 1000
+
+// Suggestions wait for a couple of characters; one letter matches too much to be useful
+export const MIN_SUGGESTION_LENGTH = 2
+
+export function useProductSearch(query: string, filters: SearchFilters, page: number) {
+  return useQuery({
+    queryKey: ["search", query, filters, page],
+    queryFn: () => searchProducts(query, filters, page),
+    enabled: query.trim() !== "",
+    staleTime: SEARCH_STALE_TIME,
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useSearchFacets(query: string) {
+  return useQuery({
+    queryKey: ["search-facets", query],
+    queryFn: () => fetchSearchFacets(query),
+    enabled: query.trim() !== "",
+    staleTime: SEARCH_STALE_TIME,
+  })
+}
+
+// Products for the search box dropdown. Pass an already debounced query.
+export function useSearchSuggestions(query: string) {
+  return useQuery({
+    queryKey: ["search-suggestions", query],
+    queryFn: () => fetchSearchSuggestions(query),
+    enabled: query.trim().length >= MIN_SUGGESTION_LENGTH,
+    staleTime: SEARCH_STALE_TIME,
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useTrendingSearches() {
+  return useQuery({
+    queryKey: ["trending-searches"],
+    queryFn: fetchTrendingSearches,
+    staleTime: TRENDING_STALE_TIME,
+  })
+}
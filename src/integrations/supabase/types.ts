@@ -9,6 +9,45 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      attribute_definitions: {
+        Row: {
+          created_at: string
+          display_order: number
+          filterable: boolean
+          id: string
+          key: string
+          label: string
+          options: string[]
+          type: string
+          unit: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          filterable?: boolean
+          id?: string
+          key: string
+          label: string
+          options?: string[]
+          type: string
+          unit?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          filterable?: boolean
+          id?: string
+          key?: string
+          label?: string
+          options?: string[]
+          type?: string
+          unit?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       cart_items: {
         Row: {
           cart_id: string
@@ -17,6 +56,7 @@ export type Database = {
           product_id: string
           quantity: number
           updated_at: string
+          variant_id: string | null
         }
         Insert: {
           cart_id: string
@@ -25,6 +65,7 @@ export type Database = {
           product_id: string
           quantity?: number
           updated_at?: string
+          variant_id?: string | null
         }
         Update: {
           cart_id?: string
@@ -33,6 +74,7 @@ export type Database = {
           product_id?: string
           quantity?: number
           updated_at?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -49,6 +91,13 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       carts: {
@@ -74,49 +123,237 @@ export type Database = {
       }
       categories: {
         Row: {
+          banner_image: string | null
           created_at: string
+          description: string | null
+          display_order: number
           id: string
+          meta_description: string | null
+          meta_title: string | null
           name: string
+          parent_id: string | null
+          slug: string
           updated_at: string
         }
         Insert: {
+          banner_image?: string | null
           created_at?: string
+          description?: string | null
+          display_order?: number
           id?: string
+          meta_description?: string | null
+          meta_title?: string | null
           name: string
+          parent_id?: string | null
+          slug: string
           updated_at?: string
         }
         Update: {
+          banner_image?: string | null
           created_at?: string
+          description?: string | null
+          display_order?: number
           id?: string
+          meta_description?: string | null
+          meta_title?: string | null
           name?: string
+          parent_id?: string | null
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_attributes: {
+        Row: {
+          attribute_id: string
+          category_id: string
+          required: boolean
+        }
+        Insert: {
+          attribute_id: string
+          category_id: string
+          required?: boolean
+        }
+        Update: {
+          attribute_id?: string
+          category_id?: string
+          required?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_attributes_attribute_id_fkey"
+            columns: ["attribute_id"]
+            isOneToOne: false
+            referencedRelation: "attribute_definitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_attributes_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_slug_redirects: {
+        Row: {
+          category_id: string
+          created_at: string
+          old_slug: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          old_slug: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          old_slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_slug_redirects_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cod_settings: {
+        Row: {
+          blocked_pincodes: string[]
+          enabled: boolean
+          id: number
+          max_order_value: number | null
+          max_rto_count: number
+          updated_at: string
+        }
+        Insert: {
+          blocked_pincodes?: string[]
+          enabled?: boolean
+          id?: number
+          max_order_value?: number | null
+          max_rto_count?: number
+          updated_at?: string
+        }
+        Update: {
+          blocked_pincodes?: string[]
+          enabled?: boolean
+          id?: number
+          max_order_value?: number | null
+          max_rto_count?: number
           updated_at?: string
         }
         Relationships: []
       }
+      inventory_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          order_id: string | null
+          product_id: string
+          quantity: number
+          reason: string
+          stock_after: number
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          product_id: string
+          quantity: number
+          reason: string
+          stock_after?: number
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          product_id?: string
+          quantity?: number
+          reason?: string
+          stock_after?: number
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
+          backordered: number
           created_at: string
+          dispatch_by: string | null
+          fulfilment_mode: string
           id: string
           order_id: string
           price: number
           product_id: string
           quantity: number
+          variant_id: string | null
         }
         Insert: {
+          backordered?: number
           created_at?: string
+          dispatch_by?: string | null
+          fulfilment_mode?: string
           id?: string
           order_id: string
           price: number
           product_id: string
           quantity: number
+          variant_id?: string | null
         }
         Update: {
+          backordered?: number
           created_at?: string
+          dispatch_by?: string | null
+          fulfilment_mode?: string
           id?: string
           order_id?: string
           price?: number
           product_id?: string
           quantity?: number
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -133,13 +370,60 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
           created_at: string
+          dispatch_by: string | null
           id: string
           payment_intent: string | null
+          payment_method: string
           shipping_address: Json | null
           status: string
           total: number
@@ -148,8 +432,10 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          dispatch_by?: string | null
           id?: string
           payment_intent?: string | null
+          payment_method?: string
           shipping_address?: Json | null
           status?: string
           total: number
@@ -158,8 +444,10 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          dispatch_by?: string | null
           id?: string
           payment_intent?: string | null
+          payment_method?: string
           shipping_address?: Json | null
           status?: string
           total?: number
@@ -168,53 +456,171 @@ export type Database = {
         }
         Relationships: []
       }
+      product_images: {
+        Row: {
+          alt_text: string | null
+          created_at: string
+          id: string
+          product_id: string
+          sort_order: number
+          sources: Json
+          storage_path: string | null
+          url: string
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string
+          id?: string
+          product_id: string
+          sort_order?: number
+          sources?: Json
+          storage_path?: string | null
+          url: string
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string
+          id?: string
+          product_id?: string
+          sort_order?: number
+          sources?: Json
+          storage_path?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          blouse_option: string | null
+          color: string | null
+          created_at: string
+          id: string
+          price: number | null
+          product_id: string
+          size: string | null
+          sku: string
+          stock: number
+          updated_at: string
+        }
+        Insert: {
+          blouse_option?: string | null
+          color?: string | null
+          created_at?: string
+          id?: string
+          price?: number | null
+          product_id: string
+          size?: string | null
+          sku: string
+          stock?: number
+          updated_at?: string
+        }
+        Update: {
+          blouse_option?: string | null
+          color?: string | null
+          created_at?: string
+          id?: string
+          price?: number | null
+          product_id?: string
+          size?: string | null
+          sku?: string
+          stock?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
+          attributes: Json
           bestseller: boolean | null
           category_id: string | null
           created_at: string
           description: string | null
           discount: number | null
           featured: boolean | null
+          fulfilment_mode: string
           id: string
           image: string | null
+          image_sources: Json
+          lead_time_days: number | null
+          low_stock_since: string | null
           name: string
           price: number
           rating: number | null
+          reorder_threshold: number
+          sale_price: number | null
           sales_count: number | null
+          search_text: string | null
+          search_vector: unknown | null
           stock: number | null
+          stock_status: string | null
           updated_at: string
         }
         Insert: {
+          attributes?: Json
           bestseller?: boolean | null
           category_id?: string | null
           created_at?: string
           description?: string | null
           discount?: number | null
           featured?: boolean | null
+          fulfilment_mode?: string
           id?: string
           image?: string | null
+          image_sources?: Json
+          lead_time_days?: number | null
+          low_stock_since?: string | null
           name: string
           price: number
           rating?: number | null
+          reorder_threshold?: number
+          sale_price?: never
           sales_count?: number | null
+          search_text?: string | null
+          search_vector?: unknown | null
           stock?: number | null
+          stock_status?: never
           updated_at?: string
         }
         Update: {
+          attributes?: Json
           bestseller?: boolean | null
           category_id?: string | null
           created_at?: string
           description?: string | null
           discount?: number | null
           featured?: boolean | null
+          fulfilment_mode?: string
           id?: string
           image?: string | null
+          image_sources?: Json
+          lead_time_days?: number | null
+          low_stock_since?: string | null
           name?: string
           price?: number
           rating?: number | null
+          reorder_threshold?: number
+          sale_price?: never
           sales_count?: number | null
+          search_text?: string | null
+          search_vector?: unknown | null
           stock?: number | null
+          stock_status?: never
           updated_at?: string
         }
         Relationships: [
@@ -292,6 +698,117 @@ export type Database = {
           },
         ]
       }
+      search_queries: {
+        Row: {
+          created_at: string
+          id: string
+          query: string
+          result_count: number
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          query: string
+          result_count?: number
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          query?: string
+          result_count?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      search_synonyms: {
+        Row: {
+          group_name: string
+          term: string
+        }
+        Insert: {
+          group_name: string
+          term: string
+        }
+        Update: {
+          group_name?: string
+          term?: string
+        }
+        Relationships: []
+      }
+      stock_alert_digests: {
+        Row: {
+          channel: string
+          id: string
+          low_stock_count: number
+          new_count: number
+          out_of_stock_count: number
+          sent_at: string
+        }
+        Insert: {
+          channel: string
+          id?: string
+          low_stock_count: number
+          new_count: number
+          out_of_stock_count: number
+          sent_at?: string
+        }
+        Update: {
+          channel?: string
+          id?: string
+          low_stock_count?: number
+          new_count?: number
+          out_of_stock_count?: number
+          sent_at?: string
+        }
+        Relationships: []
+      }
+      stock_subscriptions: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          notified_at: string | null
+          product_id: string
+          user_id: string | null
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          notified_at?: string | null
+          product_id: string
+          user_id?: string | null
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          notified_at?: string | null
+          product_id?: string
+          user_id?: string | null
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_subscriptions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_subscriptions_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -347,6 +864,32 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      check_cod_eligibility: {
+        Args: {
+          _postal_code: string
+        }
+        Returns: Json
+      }
+      claim_restock_notifications: {
+        Args: {
+          _limit?: number
+        }
+        Returns: {
+          id: string
+          email: string
+          product_id: string
+          product_name: string
+          variant_name: string
+        }[]
+      }
+      cod_ineligibility_reason: {
+        Args: {
+          _user_id: string
+          _postal_code: string
+          _order_value: number
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -354,6 +897,129 @@ export type Database = {
         }
         Returns: boolean
       }
+      log_search: {
+        Args: {
+          _query: string
+        }
+        Returns: undefined
+      }
+      order_status_transition_allowed: {
+        Args: {
+          _from: string
+          _to: string
+          _payment_method: string
+        }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          _shipping_address: Json
+          _shipping_method?: string
+          _payment_method?: string
+        }
+        Returns: string
+      }
+      release_restock_notifications: {
+        Args: {
+          _ids: string[]
+        }
+        Returns: undefined
+      }
+      restock_demand: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          product_id: string
+          variant_id: string
+          product_name: string
+          variant_sku: string
+          variant_name: string
+          stock: number
+          waiting: number
+          oldest: string
+        }[]
+      }
+      search_product_facets: {
+        Args: {
+          _query: string
+        }
+        Returns: Json
+      }
+      search_products: {
+        Args: {
+          _query: string
+          _category_ids?: string[]
+          _min_price?: number
+          _max_price?: number
+          _colors?: string[]
+          _sizes?: string[]
+          _in_stock?: boolean
+          _sort?: string
+          _limit?: number
+          _offset?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          price: number
+          discount: number
+          image: string
+          image_sources: Json
+          stock: number
+          fulfilment_mode: string
+          rating: number
+          headline: string
+          rank: number
+          total_count: number
+        }[]
+      }
+      search_suggestions: {
+        Args: {
+          _query: string
+          _limit?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          price: number
+          discount: number
+          image: string
+          headline: string
+        }[]
+      }
+      set_stock_level: {
+        Args: {
+          _product_id: string
+          _variant_id: string
+          _stock: number
+          _note?: string
+        }
+        Returns: number
+      }
+      subscribe_to_restock: {
+        Args: {
+          _product_id: string
+          _variant_id: string
+          _email: string
+        }
+        Returns: undefined
+      }
+      trending_searches: {
+        Args: {
+          _limit?: number
+        }
+        Returns: {
+          query: string
+          search_count: number
+        }[]
+      }
+      update_order_status: {
+        Args: {
+          _order_id: string
+          _status: string
+          _note?: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -63,17 +63,26 @@ export const getDashboardStats = async () => {
       console.error('Error getting pending orders count:', pendingError);
     }
 
-    // Get low stock products (less than 10)
+    // Get products at or below their reorder threshold but not sold out
     const { count: lowStockCount, error: lowStockError } = await supabase
       .from('products')
       .select('*', { count: 'exact', head: true })
-      .lt('stock', 10)
-      .gt('stock', 0); // Only count products that have stock > 0
+      .eq('stock_status', 'low_stock');
 
     if (lowStockError) {
       console.error('Error getting low stock products count:', lowStockError);
     }
 
+    // Get sold out products
+    const { count: outOfStockCount, error: outOfStockError } = await supabase
+      .from('products')
+      .select('*', { count: 'exact', head: true })
+      .eq('stock_status', 'out_of_stock');
+
+    if (outOfStockError) {
+      console.error('Error getting out of stock products count:', outOfStockError);
+    }
+
     // Get recent reviews count in the last 30 days
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -94,6 +103,7 @@ export const getDashboardStats = async () => {
       totalCustomers: customersCount || 0,
       pendingOrders: pendingOrdersCount || 0,
       lowStockProducts: lowStockCount || 0,
+      outOfStockProducts: outOfStockCount || 0,
       recentReviews: recentReviewsCount || 0
     };
   } catch (error) {
@@ -105,6 +115,7 @@ export const getDashboardStats = async () => {
       totalCustomers: 0,
       pendingOrders: 0,
       lowStockProducts: 0,
+      outOfStockProducts: 0,
       recentReviews: 0
     };
   }
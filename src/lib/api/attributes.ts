@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { Json } from '@/integrations/supabase/types';
+import { CategoryType } from '@/lib/api/categories';
+import { getCategoryPath } from '@/lib/categoryTree';
+
+export type AttributeType = 'text' | 'select' | 'boolean' | 'number';
+
+export type AttributeValue = string | number | boolean;
+
+// Values of a product's attributes, keyed by attribute key (products.attributes)
+export type ProductAttributes = Record<string, AttributeValue>;
+
+export interface CategoryAttributeType {
+  category_id: string;
+  required: boolean;
+}
+
+export interface AttributeDefinitionType {
+  id: string;
+  key: string;
+  label: string;
+  type: AttributeType;
+  // Allowed values of a select attribute
+  options: string[];
+  unit: string | null;
+  filterable: boolean;
+  display_order: number;
+  // Categories the attribute is assigned to
+  category_attributes: CategoryAttributeType[];
+}
+
+// An attribute as it applies to one category
+export interface CategoryAttributeDefinition extends AttributeDefinitionType {
+  required: boolean;
+}
+
+export const fetchAttributeDefinitions = async (): Promise<AttributeDefinitionType[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('attribute_definitions')
+      .select('*, category_attributes(category_id, required)')
+      .order('display_order', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as AttributeDefinitionType[];
+  } catch (error) {
+    console.error('Error fetching attribute definitions:', error);
+    return [];
+  }
+};
+
+// Replaces the attributes assigned to a category
+export const saveCategoryAttributes = async (
+  categoryId: string,
+  assignments: { attribute_id: string; required: boolean }[]
+): Promise<boolean> => {
+  try {
+    const { error: deleteError } = await supabase
+      .from('category_attributes')
+      .delete()
+      .eq('category_id', categoryId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    if (assignments.length > 0) {
+      const { error } = await supabase
+        .from('category_attributes')
+        .insert(assignments.map(assignment => ({ ...assignment, category_id: categoryId })));
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error saving category attributes:', error);
+    toast({
+      title: "Error",
+      description: "Failed to save the category's attributes. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
+
+// Attributes a product in `categoryId` can have: those assigned to the category
+// or any of its ancestors, required if any of them requires it
+export const getCategoryAttributes = (
+  definitions: AttributeDefinitionType[],
+  categories: CategoryType[],
+  categoryId: string | null | undefined
+): CategoryAttributeDefinition[] => {
+  if (!categoryId) return [];
+
+  const path = getCategoryPath(categories, categoryId).map(category => category.id);
+
+  return definitions.flatMap(definition => {
+    const assignments = definition.category_attributes.filter(assignment => path.includes(assignment.category_id));
+    return assignments.length > 0
+      ? [{ ...definition, required: assignments.some(assignment => assignment.required) }]
+      : [];
+  });
+};
+
+export const toProductAttributes = (value: Json | undefined): ProductAttributes =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as ProductAttributes) : {};
+
+// Drops empty values and those of attributes the category doesn't have
+export const cleanProductAttributes = (
+  attributes: ProductAttributes,
+  definitions: AttributeDefinitionType[]
+): ProductAttributes =>
+  Object.fromEntries(
+    definitions
+      .filter(definition => attributes[definition.key] !== undefined && attributes[definition.key] !== '')
+      .map(definition => [definition.key, attributes[definition.key]])
+  );
+
+export const formatAttributeValue = (definition: AttributeDefinitionType, value: AttributeValue): string => {
+  if (definition.type === 'boolean') return value ? 'Yes' : 'No';
+  return definition.unit ? `${value} ${definition.unit}` : String(value);
+};
@@ -0,0 +1,381 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { getOrderableQuantity } from '@/lib/fulfilment';
+import { calculateDiscountPrice } from '@/lib/utils';
+import {
+  GUEST_CART_MERGED_EVENT,
+  addToGuestCart,
+  clearGuestCart,
+  getGuestCart,
+  removeGuestCartItem,
+  updateGuestCartItem,
+} from '@/lib/guestCart';
+
+export interface CartProduct {
+  id: string;
+  name: string;
+  image: string | null;
+  price: number;
+  discount: number;
+  stock: number;
+  fulfilment_mode: string;
+  lead_time_days: number | null;
+}
+
+export interface CartVariant {
+  id: string;
+  sku: string;
+  color: string | null;
+  size: string | null;
+  blouse_option: string | null;
+  price: number | null;
+  stock: number;
+}
+
+export interface CartLine {
+  id: string;
+  quantity: number;
+  product: CartProduct;
+  variant: CartVariant | null;
+}
+
+// A line with a variant is priced and stocked from the variant
+export const getLineUnitPrice = (line: CartLine): number =>
+  calculateDiscountPrice(line.variant?.price ?? line.product.price, line.product.discount);
+
+export const getLineStock = (line: CartLine): number =>
+  line.variant ? line.variant.stock : line.product.stock;
+
+// Most of the line that can be ordered; beyond stock for pre-order and
+// made-to-order products
+export const getLineLimit = (line: CartLine): number =>
+  getOrderableQuantity(getLineStock(line), line.product.fulfilment_mode);
+
+// The cart functions below take the signed-in user's id, or null for a guest
+// whose cart lives in localStorage. They throw on failure so that callers
+// (see useCart) can roll back optimistic updates.
+
+// Returns the id of the user's cart, creating the cart if they don't have one yet
+export const getOrCreateCartId = async (userId: string): Promise<string> => {
+  const { data: existingCart, error: cartError } = await supabase
+    .from('carts')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (cartError) {
+    throw cartError;
+  }
+
+  if (existingCart) {
+    return existingCart.id;
+  }
+
+  const { data: newCart, error: createError } = await supabase
+    .from('carts')
+    .insert({ user_id: userId })
+    .select('id')
+    .single();
+
+  if (createError) {
+    throw createError;
+  }
+
+  return newCart.id;
+};
+
+const fetchGuestCartLines = async (): Promise<CartLine[]> => {
+  const guestItems = getGuestCart();
+  if (guestItems.length === 0) return [];
+
+  // Guest lines only store ids, so look the products and variants up to display them
+  const variantIds = guestItems.map(item => item.variant_id).filter(Boolean);
+  const [{ data: products, error }, { data: variants, error: variantsError }] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, image, price, discount, stock, fulfilment_mode, lead_time_days')
+      .in('id', guestItems.map(item => item.product_id)),
+    supabase
+      .from('product_variants')
+      .select('id, sku, color, size, blouse_option, price, stock')
+      .in('id', variantIds),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+  if (variantsError) {
+    throw variantsError;
+  }
+
+  return guestItems
+    // Drop lines whose product or variant has been deleted since
+    .filter(item =>
+      products.some(product => product.id === item.product_id) &&
+      (!item.variant_id || variants.some(variant => variant.id === item.variant_id))
+    )
+    .map(item => ({
+      id: item.id,
+      quantity: item.quantity,
+      product: products.find(product => product.id === item.product_id),
+      variant: variants.find(variant => variant.id === item.variant_id) ?? null,
+    }));
+};
+
+export const fetchCart = async (userId: string | null): Promise<CartLine[]> => {
+  if (!userId) {
+    return fetchGuestCartLines();
+  }
+
+  const { data: cart, error: cartError } = await supabase
+    .from('carts')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (cartError) {
+    throw cartError;
+  }
+  if (!cart) return [];
+
+  const { data: items, error: itemsError } = await supabase
+    .from('cart_items')
+    .select(`
+      id,
+      quantity,
+      product:product_id (
+        id,
+        name,
+        image,
+        price,
+        discount,
+        stock,
+        fulfilment_mode,
+        lead_time_days
+      ),
+      variant:variant_id (
+        id,
+        sku,
+        color,
+        size,
+        blouse_option,
+        price,
+        stock
+      )
+    `)
+    .eq('cart_id', cart.id)
+    .order('created_at');
+
+  if (itemsError) {
+    throw itemsError;
+  }
+
+  return items;
+};
+
+export const addCartItem = async (
+  userId: string | null,
+  productId: string,
+  quantity = 1,
+  variantId: string | null = null
+): Promise<void> => {
+  if (!userId) {
+    addToGuestCart(productId, quantity, variantId);
+    return;
+  }
+
+  const cartId = await getOrCreateCartId(userId);
+
+  let existingQuery = supabase
+    .from('cart_items')
+    .select('id, quantity')
+    .eq('cart_id', cartId)
+    .eq('product_id', productId);
+
+  existingQuery = variantId
+    ? existingQuery.eq('variant_id', variantId)
+    : existingQuery.is('variant_id', null);
+
+  const { data: existingItem, error: itemError } = await existingQuery.maybeSingle();
+
+  if (itemError) {
+    throw itemError;
+  }
+
+  const { error } = existingItem
+    ? await supabase
+      .from('cart_items')
+      .update({ quantity: existingItem.quantity + quantity })
+      .eq('id', existingItem.id)
+    : await supabase
+      .from('cart_items')
+      .insert({ cart_id: cartId, product_id: productId, variant_id: variantId, quantity });
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const updateCartItemQuantity = async (userId: string | null, itemId: string, quantity: number): Promise<void> => {
+  if (!userId) {
+    updateGuestCartItem(itemId, quantity);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('cart_items')
+    .update({ quantity })
+    .eq('id', itemId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const removeCartItem = async (userId: string | null, itemId: string): Promise<void> => {
+  if (!userId) {
+    removeGuestCartItem(itemId);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('cart_items')
+    .delete()
+    .eq('id', itemId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const clearCart = async (userId: string | null): Promise<void> => {
+  if (!userId) {
+    clearGuestCart();
+    return;
+  }
+
+  const { data: cart, error: cartError } = await supabase
+    .from('carts')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (cartError) {
+    throw cartError;
+  }
+  if (!cart) return;
+
+  const { error } = await supabase
+    .from('cart_items')
+    .delete()
+    .eq('cart_id', cart.id);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Moves the signed-out cart into the user's cart. Quantities for lines (product
+// and variant) that are in both carts are added together, and every line is
+// clamped to what can be ordered.
+export const mergeGuestCart = async (userId: string): Promise<boolean> => {
+  const guestItems = getGuestCart();
+  if (guestItems.length === 0) return true;
+
+  try {
+    const cartId = await getOrCreateCartId(userId);
+    const productIds = guestItems.map(item => item.product_id);
+    const variantIds = guestItems.map(item => item.variant_id).filter(Boolean);
+
+    const [
+      { data: products, error: productsError },
+      { data: variants, error: variantsError },
+      { data: existingItems, error: itemsError },
+    ] = await Promise.all([
+      supabase
+        .from('products')
+        .select('id, stock, fulfilment_mode')
+        .in('id', productIds),
+      supabase
+        .from('product_variants')
+        .select('id, stock')
+        .in('id', variantIds),
+      supabase
+        .from('cart_items')
+        .select('id, product_id, variant_id, quantity')
+        .eq('cart_id', cartId)
+        .in('product_id', productIds),
+    ]);
+
+    if (productsError) {
+      throw productsError;
+    }
+    if (variantsError) {
+      throw variantsError;
+    }
+    if (itemsError) {
+      throw itemsError;
+    }
+
+    const stockById = new Map([...products, ...variants].map(row => [row.id, row.stock]));
+    const modeById = new Map(products.map(product => [product.id, product.fulfilment_mode]));
+    let clamped = false;
+
+    for (const guestItem of guestItems) {
+      const variantId = guestItem.variant_id ?? null;
+      const stockKey = variantId ?? guestItem.product_id;
+
+      // Products and variants deleted since they were added are dropped
+      if (!stockById.has(stockKey)) continue;
+
+      const stock = stockById.get(stockKey) ?? 0;
+      const existing = existingItems.find(item =>
+        item.product_id === guestItem.product_id && item.variant_id === variantId
+      );
+      const wanted = (existing?.quantity ?? 0) + guestItem.quantity;
+      const quantity = Math.min(wanted, getOrderableQuantity(stock, modeById.get(guestItem.product_id)));
+
+      if (quantity < wanted) {
+        clamped = true;
+      }
+
+      if (existing) {
+        const { error } = quantity > 0
+          ? await supabase.from('cart_items').update({ quantity }).eq('id', existing.id)
+          : await supabase.from('cart_items').delete().eq('id', existing.id);
+
+        if (error) {
+          throw error;
+        }
+      } else if (quantity > 0) {
+        const { error } = await supabase
+          .from('cart_items')
+          .insert({ cart_id: cartId, product_id: guestItem.product_id, variant_id: variantId, quantity });
+
+        if (error) {
+          throw error;
+        }
+      }
+    }
+
+    clearGuestCart();
+    window.dispatchEvent(new Event(GUEST_CART_MERGED_EVENT));
+
+    if (clamped) {
+      toast({
+        title: "Cart updated",
+        description: "Some quantities in your cart were reduced to match available stock.",
+      });
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error merging guest cart:', error);
+    toast({
+      title: "Error",
+      description: "We couldn't move your saved cart to your account. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
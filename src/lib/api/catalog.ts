@@ -0,0 +1,202 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toProductAttributes } from '@/lib/api/attributes';
+import { CategoryType } from '@/lib/api/categories';
+import { ProductType } from '@/lib/api/products';
+
+// Queries behind the shopper-facing product listings. They throw on failure
+// and are meant to be called through React Query (see useCategoryProducts).
+
+export type CatalogSort = 'newest' | 'price_asc' | 'price_desc' | 'popular' | 'rating';
+
+export const catalogSorts: { id: CatalogSort; label: string }[] = [
+  { id: 'newest', label: 'Newest' },
+  { id: 'popular', label: 'Best Selling' },
+  { id: 'rating', label: 'Top Rated' },
+  { id: 'price_asc', label: 'Price: Low to High' },
+  { id: 'price_desc', label: 'Price: High to Low' },
+];
+
+export interface CatalogFilters {
+  // Bounds on the price after discount
+  minPrice?: number;
+  maxPrice?: number;
+  colors: string[];
+  sizes: string[];
+  // Selected values per attribute key, compared as text ('true'/'false' for yes/no attributes)
+  attributes: Record<string, string[]>;
+  inStock: boolean;
+  sort: CatalogSort;
+}
+
+export interface CatalogFacets {
+  colors: string[];
+  sizes: string[];
+  // Values products have for each attribute key, as text
+  attributes: Record<string, string[]>;
+  minPrice: number;
+  maxPrice: number;
+}
+
+export interface CatalogPage {
+  products: ProductType[];
+  total: number;
+}
+
+export const CATALOG_PAGE_SIZE = 12;
+
+// Also resolves slugs a category used to have; the returned category's slug
+// then differs from `slug` and the caller should redirect to it
+export const fetchCategoryBySlug = async (slug: string): Promise<CategoryType | null> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (data) {
+    return data;
+  }
+
+  const { data: redirect, error: redirectError } = await supabase
+    .from('category_slug_redirects')
+    .select('categories(*)')
+    .eq('old_slug', slug)
+    .maybeSingle();
+
+  if (redirectError) {
+    throw redirectError;
+  }
+
+  return redirect?.categories ?? null;
+};
+
+// Colours, sizes, attribute values and price bounds available across the given
+// categories, for the filter sidebar
+export const fetchCatalogFacets = async (categoryIds: string[]): Promise<CatalogFacets> => {
+  const [variantsResult, attributesResult, cheapestResult, dearestResult] = await Promise.all([
+    supabase
+      .from('product_variants')
+      .select('color, size, products!inner(category_id)')
+      .in('products.category_id', categoryIds),
+    supabase
+      .from('products')
+      .select('attributes')
+      .in('category_id', categoryIds),
+    supabase
+      .from('products')
+      .select('sale_price')
+      .in('category_id', categoryIds)
+      .order('sale_price', { ascending: true })
+      .limit(1),
+    supabase
+      .from('products')
+      .select('sale_price')
+      .in('category_id', categoryIds)
+      .order('sale_price', { ascending: false })
+      .limit(1),
+  ]);
+
+  const error = variantsResult.error || attributesResult.error || cheapestResult.error || dearestResult.error;
+  if (error) {
+    throw error;
+  }
+
+  const distinct = (values: (string | null)[]) =>
+    Array.from(new Set(values.filter(Boolean))).sort() as string[];
+
+  const attributeValues: Record<string, string[]> = {};
+  for (const { attributes } of attributesResult.data) {
+    for (const [key, value] of Object.entries(toProductAttributes(attributes))) {
+      attributeValues[key] = [...(attributeValues[key] ?? []), String(value)];
+    }
+  }
+
+  return {
+    colors: distinct(variantsResult.data.map(variant => variant.color)),
+    sizes: distinct(variantsResult.data.map(variant => variant.size)),
+    attributes: Object.fromEntries(
+      Object.entries(attributeValues).map(([key, values]) => [key, distinct(values)])
+    ),
+    minPrice: Math.floor(cheapestResult.data[0]?.sale_price ?? 0),
+    maxPrice: Math.ceil(dearestResult.data[0]?.sale_price ?? 0),
+  };
+};
+
+// Products in any of `categoryIds`; a parent category passes its own id and
+// those of all its descendants (see getDescendantIds)
+export const fetchCategoryProducts = async (
+  categoryIds: string[],
+  filters: CatalogFilters,
+  page: number
+): Promise<CatalogPage> => {
+  // Colours and sizes belong to variants, so an inner join on the matching
+  // variants narrows the products down in the same request
+  const filterVariants = filters.colors.length > 0 || filters.sizes.length > 0;
+
+  let query = supabase
+    .from('products')
+    .select(filterVariants ? '*, product_variants!inner(id)' : '*', { count: 'exact' })
+    .in('category_id', categoryIds);
+
+  if (filters.colors.length > 0) {
+    query = query.in('product_variants.color', filters.colors);
+  }
+  if (filters.sizes.length > 0) {
+    query = query.in('product_variants.size', filters.sizes);
+  }
+  if (filterVariants && filters.inStock) {
+    query = query.gt('product_variants.stock', 0);
+  }
+
+  for (const [key, values] of Object.entries(filters.attributes)) {
+    if (values.length > 0) {
+      query = query.in(`attributes->>${key}`, values);
+    }
+  }
+
+  if (filters.minPrice !== undefined) {
+    query = query.gte('sale_price', filters.minPrice);
+  }
+  if (filters.maxPrice !== undefined) {
+    query = query.lte('sale_price', filters.maxPrice);
+  }
+  if (filters.inStock) {
+    query = query.gt('stock', 0);
+  }
+
+  switch (filters.sort) {
+    case 'price_asc':
+      query = query.order('sale_price', { ascending: true });
+      break;
+    case 'price_desc':
+      query = query.order('sale_price', { ascending: false });
+      break;
+    case 'popular':
+      query = query.order('sales_count', { ascending: false, nullsFirst: false });
+      break;
+    case 'rating':
+      query = query.order('rating', { ascending: false, nullsFirst: false });
+      break;
+    default:
+      query = query.order('created_at', { ascending: false });
+  }
+
+  const from = (page - 1) * CATALOG_PAGE_SIZE;
+  const { data, count, error } = await query
+    // Keeps paging stable when the sort column has ties
+    .order('id')
+    .range(from, from + CATALOG_PAGE_SIZE - 1);
+
+  if (error) {
+    throw error;
+  }
+
+  // The joined variants were only there to filter on
+  const products = (data as unknown as (ProductType & { product_variants?: unknown })[])
+    .map(({ product_variants: _variants, ...product }) => product);
+
+  return { products, total: count ?? 0 };
+};
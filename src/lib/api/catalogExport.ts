@@ -0,0 +1,107 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { AttributeDefinitionType, formatAttributeValue, toProductAttributes } from '@/lib/api/attributes';
+import { fetchProducts } from '@/lib/api/products';
+import { toCsv } from '@/lib/csv';
+import { calculateDiscountPrice, downloadFile } from '@/lib/utils';
+
+export type ExportFormat = 'csv' | 'json';
+
+export type FeedFormat = 'google' | 'meta';
+
+export const feedFormats: { id: FeedFormat; label: string; fileName: string; type: string }[] = [
+  { id: 'google', label: 'Google Merchant Center', fileName: 'google-merchant-feed.xml', type: 'application/xml' },
+  { id: 'meta', label: 'Meta Commerce Manager', fileName: 'meta-catalog-feed.csv', type: 'text/csv' },
+];
+
+// Public URL of the catalog-feed edge function, to paste into Merchant Center
+// or Commerce Manager as a scheduled feed
+export const getFeedUrl = (format: FeedFormat): string => {
+  const { data } = supabase.storage.from('product-images').getPublicUrl('');
+  return `${new URL(data.publicUrl).origin}/functions/v1/catalog-feed?format=${format}`;
+};
+
+const exportDate = () => new Date().toISOString().slice(0, 10);
+
+// Downloads every product. The CSV uses the column names of the product
+// import, so an edited export can be imported again; Sale Price and Image are
+// for reference only and ignored on import.
+export const exportProducts = async (
+  format: ExportFormat,
+  attributeDefinitions: AttributeDefinitionType[]
+): Promise<number> => {
+  try {
+    const products = await fetchProducts();
+    const fileName = `products-${exportDate()}.${format}`;
+
+    if (format === 'json') {
+      downloadFile(JSON.stringify(products, null, 2), fileName, 'application/json');
+      return products.length;
+    }
+
+    const header = [
+      'Product ID', 'Name', 'Category', 'Description', 'Price', 'Discount (%)', 'Sale Price',
+      'Stock', 'Featured', 'Bestseller', 'Image',
+      ...attributeDefinitions.map(definition => definition.label),
+    ];
+    const rows = products.map(product => {
+      const attributes = toProductAttributes(product.attributes);
+      const salePrice = product.sale_price ?? calculateDiscountPrice(product.price, product.discount || 0);
+
+      return [
+        product.id,
+        product.name,
+        product.category_name ?? '',
+        product.description ?? '',
+        String(product.price),
+        String(product.discount ?? 0),
+        String(Math.round(salePrice * 100) / 100),
+        String(product.stock ?? 0),
+        product.featured ? 'yes' : 'no',
+        product.bestseller ? 'yes' : 'no',
+        product.image ?? '',
+        ...attributeDefinitions.map(definition => {
+          const value = attributes[definition.key];
+          if (value === undefined) return '';
+          // Plain values, without units, so they import back as they are
+          return definition.type === 'boolean' ? formatAttributeValue(definition, value).toLowerCase() : String(value);
+        }),
+      ];
+    });
+
+    downloadFile(toCsv([header, ...rows]), fileName, 'text/csv');
+    return products.length;
+  } catch (error) {
+    console.error('Error exporting products:', error);
+    toast({
+      title: "Error",
+      description: "Failed to export products. Please try again.",
+      variant: "destructive"
+    });
+    return 0;
+  }
+};
+
+// Downloads the current contents of a feed, to check it before submitting
+export const downloadFeed = async (format: FeedFormat): Promise<boolean> => {
+  const feed = feedFormats.find(f => f.id === format);
+
+  try {
+    const response = await fetch(getFeedUrl(format));
+
+    if (!response.ok) {
+      throw new Error(`Feed request failed with status ${response.status}`);
+    }
+
+    downloadFile(await response.text(), feed.fileName, feed.type);
+    return true;
+  } catch (error) {
+    console.error('Error downloading feed:', error);
+    toast({
+      title: "Error",
+      description: "Failed to generate the feed. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
@@ -1,19 +1,78 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
+import { generateSlug } from '@/lib/utils';
+import { getPathFromUrl, removeStoredImages } from '@/lib/api/storage';
 
 export interface CategoryType {
   id: string;
   name: string;
+  // Stored, so renaming a category keeps its URL. Changing it leaves a redirect behind.
+  slug: string;
+  // Null for top-level categories
+  parent_id: string | null;
+  description: string | null;
+  banner_image: string | null;
+  meta_title: string | null;
+  meta_description: string | null;
+  display_order: number;
   created_at: string;
   updated_at: string;
 }
 
+export type CategoryInput = Omit<CategoryType, 'id' | 'slug' | 'created_at' | 'updated_at'> & {
+  // Generated from the name when left empty
+  slug?: string;
+};
+
+const isSlugTaken = (error: unknown) =>
+  (error as { code?: string })?.code === '23505';
+
+// Stored under categories/ in the product images bucket
+export const uploadCategoryBanner = async (file: File): Promise<string | null> => {
+  try {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `categories/${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`;
+
+    const { error } = await supabase.storage
+      .from('product-images')
+      .upload(filePath, file, { contentType: file.type, cacheControl: '31536000' });
+
+    if (error) {
+      throw error;
+    }
+
+    return supabase.storage.from('product-images').getPublicUrl(filePath).data.publicUrl;
+  } catch (error) {
+    console.error('Error uploading category banner:', error);
+    toast({
+      title: "Error",
+      description: "Failed to upload banner image. Please try again.",
+      variant: "destructive"
+    });
+    return null;
+  }
+};
+
+// Deletes a banner that is no longer used. Failures are only logged, the
+// storage audit picks up anything left behind.
+const removeBanner = async (url: string | null) => {
+  const path = url ? getPathFromUrl(url) : null;
+  if (!path) return;
+
+  try {
+    await removeStoredImages([path]);
+  } catch (error) {
+    console.error('Error deleting category banner:', error);
+  }
+};
+
 export const fetchCategories = async (): Promise<CategoryType[]> => {
   try {
     const { data, error } = await supabase
       .from('categories')
       .select('*')
+      .order('display_order', { ascending: true })
       .order('name', { ascending: true });
 
     if (error) {
@@ -45,12 +104,13 @@ export const getProductCountByCategory = async (categoryId: string): Promise<num
   }
 };
 
-export const addCategory = async (name: string): Promise<CategoryType | null> => {
+export const addCategory = async (categoryData: CategoryInput): Promise<CategoryType | null> => {
   try {
     const { data, error } = await supabase
       .from('categories')
       .insert({
-        name,
+        ...categoryData,
+        slug: categoryData.slug || generateSlug(categoryData.name),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
@@ -63,7 +123,7 @@ export const addCategory = async (name: string): Promise<CategoryType | null> =>
 
     toast({
       title: "Category Added",
-      description: `${name} has been added successfully.`,
+      description: `${categoryData.name} has been added successfully.`,
     });
 
     return data;
@@ -71,19 +131,32 @@ export const addCategory = async (name: string): Promise<CategoryType | null> =>
     console.error('Error adding category:', error);
     toast({
       title: "Error",
-      description: "Failed to add category. Please try again.",
+      description: isSlugTaken(error)
+        ? "Another category already uses this URL slug."
+        : "Failed to add category. Please try again.",
       variant: "destructive"
     });
     return null;
   }
 };
 
-export const updateCategory = async (id: string, name: string): Promise<CategoryType | null> => {
+export const updateCategory = async (id: string, categoryData: CategoryInput): Promise<CategoryType | null> => {
   try {
+    const { data: current, error: fetchError } = await supabase
+      .from('categories')
+      .select('banner_image')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
     const { data, error } = await supabase
       .from('categories')
       .update({
-        name,
+        ...categoryData,
+        slug: categoryData.slug || generateSlug(categoryData.name),
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
@@ -94,6 +167,10 @@ export const updateCategory = async (id: string, name: string): Promise<Category
       throw error;
     }
 
+    if (current.banner_image !== data.banner_image) {
+      await removeBanner(current.banner_image);
+    }
+
     toast({
       title: "Category Updated",
       description: `Category has been updated successfully.`,
@@ -104,7 +181,39 @@ export const updateCategory = async (id: string, name: string): Promise<Category
     console.error('Error updating category:', error);
     toast({
       title: "Error",
-      description: "Failed to update category. Please try again.",
+      description: isSlugTaken(error)
+        ? "Another category already uses this URL slug."
+        : "Failed to update category. Please try again.",
+      variant: "destructive"
+    });
+    return null;
+  }
+};
+
+// Moves a category (with everything below it) under `parentId`, or to the top
+// level when null. The database rejects moves that would create a loop.
+export const moveCategory = async (id: string, parentId: string | null): Promise<CategoryType | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('categories')
+      .update({
+        parent_id: parentId,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error moving category:', error);
+    toast({
+      title: "Error",
+      description: "Failed to move category. Please try again.",
       variant: "destructive"
     });
     return null;
@@ -132,15 +241,36 @@ export const deleteCategory = async (id: string): Promise<boolean> => {
       return false;
     }
 
-    const { error } = await supabase
+    const { count: childCount, error: childError } = await supabase
+      .from('categories')
+      .select('*', { count: 'exact', head: true })
+      .eq('parent_id', id);
+
+    if (childError) {
+      throw childError;
+    }
+
+    if (childCount && childCount > 0) {
+      toast({
+        title: "Cannot Delete",
+        description: `This category has ${childCount} subcategories. Move or delete them first.`,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const { data: deleted, error } = await supabase
       .from('categories')
       .delete()
-      .eq('id', id);
+      .eq('id', id)
+      .select('banner_image');
 
     if (error) {
       throw error;
     }
 
+    await removeBanner(deleted[0]?.banner_image ?? null);
+
     toast({
       title: "Category Deleted",
       description: "The category has been successfully removed.",
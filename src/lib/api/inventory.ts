@@ -0,0 +1,150 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { ProductVariantType } from '@/lib/api/products';
+
+// Stock changes go through the inventory_movements ledger, which keeps
+// products.stock and product_variants.stock up to date. Stock can't be
+// written directly.
+
+export type InventoryReason = 'receipt' | 'sale' | 'return' | 'damage' | 'correction';
+
+// `direction` is the sign the quantity of a movement with this reason takes;
+// corrections can go either way
+export const inventoryReasons: { id: InventoryReason; label: string; direction: 1 | -1 | 0 }[] = [
+  { id: 'receipt', label: 'Received from weaver', direction: 1 },
+  { id: 'return', label: 'Customer return', direction: 1 },
+  { id: 'damage', label: 'Damaged / written off', direction: -1 },
+  { id: 'correction', label: 'Stock count correction', direction: 0 },
+  { id: 'sale', label: 'Sale', direction: -1 },
+];
+
+export const getInventoryReasonLabel = (reason: string): string =>
+  inventoryReasons.find(r => r.id === reason)?.label ?? reason;
+
+export interface InventoryMovementType {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  reason: InventoryReason;
+  note: string | null;
+  order_id: string | null;
+  stock_after: number;
+  created_by: string | null;
+  created_at: string;
+  variant?: Pick<ProductVariantType, 'sku' | 'color' | 'size' | 'blouse_option'> | null;
+  // Name of whoever recorded the movement, if they have a profile
+  created_by_name?: string | null;
+}
+
+export interface InventoryMovementInput {
+  product_id: string;
+  variant_id?: string | null;
+  // Signed: positive adds stock, negative removes it
+  quantity: number;
+  reason: InventoryReason;
+  note?: string | null;
+  order_id?: string | null;
+}
+
+// Explains the errors raised by the ledger triggers
+export const describeInventoryError = (error: unknown): string => {
+  const { message, details } = (error ?? {}) as { message?: string; details?: string };
+  switch (message) {
+    case 'insufficient_stock':
+      return `Not enough stock to remove that many. ${details ?? ''}`.trim();
+    case 'variant_required':
+      return 'This product has variants. Record its stock against a variant.';
+    default:
+      return 'Failed to record the stock change. Please try again.';
+  }
+};
+
+export const fetchInventoryMovements = async (productId: string): Promise<InventoryMovementType[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('inventory_movements')
+      .select('*, variant:product_variants(sku, color, size, blouse_option)')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    // Names come from profiles, which the ledger doesn't reference directly
+    const userIds = Array.from(new Set(data.map(movement => movement.created_by).filter(Boolean))) as string[];
+    const { data: profiles, error: profilesError } = userIds.length > 0
+      ? await supabase.from('profiles').select('id, first_name, last_name').in('id', userIds)
+      : { data: [], error: null };
+
+    if (profilesError) {
+      console.error('Error fetching movement authors:', profilesError);
+    }
+
+    const names = new Map((profiles ?? []).map(profile => [
+      profile.id,
+      [profile.first_name, profile.last_name].filter(Boolean).join(' ') || null,
+    ]));
+
+    return data.map(movement => ({
+      ...movement,
+      reason: movement.reason as InventoryReason,
+      created_by_name: movement.created_by ? names.get(movement.created_by) ?? null : null,
+    }));
+  } catch (error) {
+    console.error('Error fetching inventory movements:', error);
+    return [];
+  }
+};
+
+export const recordInventoryMovement = async (movement: InventoryMovementInput): Promise<InventoryMovementType | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('inventory_movements')
+      .insert(movement)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    toast({
+      title: "Stock Updated",
+      description: `Stock is now ${data.stock_after}.`,
+    });
+
+    return { ...data, reason: data.reason as InventoryReason };
+  } catch (error) {
+    console.error('Error recording inventory movement:', error);
+    toast({
+      title: "Error",
+      description: describeInventoryError(error),
+      variant: "destructive"
+    });
+    return null;
+  }
+};
+
+// Records a stock count: a correction by the difference from the current
+// stock. Throws on failure, for callers that report errors per product.
+export const setStockLevel = async (
+  productId: string,
+  variantId: string | null,
+  stock: number,
+  note?: string
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('set_stock_level', {
+    _product_id: productId,
+    _variant_id: variantId,
+    _stock: stock,
+    _note: note,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { PaymentMethod } from '@/lib/constants';
+
+// Order statuses only move forward along orderStatusTransitions, which the
+// orders trigger enforces too. Every change is kept in order_status_history.
+
+// "collected" and "rto" only apply to orders paid on delivery: the courier has
+// collected the money, or brought the parcel back undelivered.
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'collected' | 'completed' | 'cancelled' | 'rto';
+
+// Together with payOnDeliveryTransitions, mirrors
+// order_status_transition_allowed in the database
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['completed'],
+  collected: ['completed'],
+  completed: [],
+  cancelled: [],
+  rto: [],
+};
+
+// Orders paid on delivery are only completed once the courier's collection
+// is recorded
+export const payOnDeliveryTransitions: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  shipped: ['collected', 'rto'],
+};
+
+// Statuses an order can move to next
+export const getNextStatuses = (status: OrderStatus, paymentMethod: PaymentMethod): OrderStatus[] =>
+  (paymentMethod === 'cod' || paymentMethod === 'upi_on_delivery'
+    ? payOnDeliveryTransitions[status] ?? orderStatusTransitions[status]
+    : orderStatusTransitions[status]) ?? [];
+
+export interface OrderStatusHistoryType {
+  id: string;
+  order_id: string;
+  // Null for the order's first status
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  note: string | null;
+  changed_by: string | null;
+  created_at: string;
+  // Name of whoever made the change, if they have a profile
+  changed_by_name?: string | null;
+}
+
+// Oldest first
+export const fetchOrderStatusHistory = async (orderId: string): Promise<OrderStatusHistoryType[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at');
+
+    if (error) {
+      throw error;
+    }
+
+    const userIds = Array.from(new Set(data.map(entry => entry.changed_by).filter(Boolean))) as string[];
+    const { data: profiles, error: profilesError } = userIds.length > 0
+      ? await supabase.from('profiles').select('id, first_name, last_name').in('id', userIds)
+      : { data: [], error: null };
+
+    if (profilesError) {
+      console.error('Error fetching status change authors:', profilesError);
+    }
+
+    const names = new Map((profiles ?? []).map(profile => [
+      profile.id,
+      [profile.first_name, profile.last_name].filter(Boolean).join(' ') || null,
+    ]));
+
+    return data.map(entry => ({
+      ...entry,
+      from_status: entry.from_status as OrderStatus | null,
+      to_status: entry.to_status as OrderStatus,
+      changed_by_name: entry.changed_by ? names.get(entry.changed_by) ?? null : null,
+    }));
+  } catch (error) {
+    console.error('Error fetching order status history:', error);
+    return [];
+  }
+};
+
+export const updateOrderStatus = async (
+  orderId: string,
+  status: OrderStatus,
+  note?: string
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc('update_order_status', {
+      _order_id: orderId,
+      _status: status,
+      _note: note,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    toast({
+      title: "Order status updated",
+      description: `Order ${orderId.slice(0, 8).toUpperCase()} is now ${status}.`,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    const { message, details } = (error ?? {}) as { message?: string; details?: string };
+    toast({
+      title: "Error",
+      description: message === 'invalid_status_transition'
+        ? `${details ?? 'That status change is not allowed'}. Refresh to see the latest status.`
+        : "Failed to update the order status. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
@@ -0,0 +1,293 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { getDispatchDate } from '@/lib/fulfilment';
+import { calculateDiscountPrice, calculateShippingCost } from '@/lib/utils';
+import { PaymentMethod, ShippingMethod } from '@/lib/constants';
+
+export interface ShippingAddress {
+  full_name: string;
+  phone: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  shipping_method?: ShippingMethod;
+}
+
+export interface CheckoutItem {
+  id: string;
+  quantity: number;
+  product: {
+    id: string;
+    name: string;
+    image: string | null;
+    price: number;
+    discount: number | null;
+    stock: number | null;
+    fulfilment_mode: string;
+    lead_time_days: number | null;
+  };
+  variant: {
+    id: string;
+    sku: string;
+    color: string | null;
+    size: string | null;
+    blouse_option: string | null;
+    price: number | null;
+    stock: number;
+  } | null;
+}
+
+// A line with a variant is priced from the variant; the product discount still applies
+export const getCheckoutItemPrice = (item: CheckoutItem): number =>
+  calculateDiscountPrice(item.variant?.price ?? item.product.price, item.product.discount || 0);
+
+// When the part of a line that isn't in stock would be dispatched, null when
+// it is all in stock
+export const getCheckoutItemDispatchDate = (item: CheckoutItem): Date | null =>
+  getDispatchDate(
+    item.quantity,
+    item.variant ? item.variant.stock : item.product.stock ?? 0,
+    item.product.fulfilment_mode,
+    item.product.lead_time_days
+  );
+
+// The order ships complete, so it is dispatched once its slowest line is ready
+export const getExpectedDispatchDate = (items: CheckoutItem[]): Date | null =>
+  items
+    .map(getCheckoutItemDispatchDate)
+    .reduce<Date | null>((latest, date) => (date && (!latest || date > latest) ? date : latest), null);
+
+export interface OrderItemWithProduct {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  price: number;
+  backordered: number;
+  dispatch_by: string | null;
+  product: {
+    name: string;
+    image: string | null;
+  } | null;
+  variant: {
+    sku: string;
+    color: string | null;
+    size: string | null;
+    blouse_option: string | null;
+  } | null;
+}
+
+export interface OrderWithItems {
+  id: string;
+  user_id: string;
+  status: string;
+  total: number;
+  shipping_address: ShippingAddress | null;
+  payment_intent: string | null;
+  payment_method: PaymentMethod;
+  // Set when some items are pre-ordered or made to order
+  dispatch_by: string | null;
+  created_at: string;
+  updated_at: string;
+  order_items: OrderItemWithProduct[];
+}
+
+export const fetchCheckoutItems = async (userId: string): Promise<{ cartId: string | null; items: CheckoutItem[] }> => {
+  try {
+    const { data: cart, error: cartError } = await supabase
+      .from('carts')
+      .select('id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (cartError) {
+      throw cartError;
+    }
+
+    if (!cart) {
+      return { cartId: null, items: [] };
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from('cart_items')
+      .select(`
+        id,
+        quantity,
+        product:product_id (
+          id,
+          name,
+          image,
+          price,
+          discount,
+          stock,
+          fulfilment_mode,
+          lead_time_days
+        ),
+        variant:variant_id (
+          id,
+          sku,
+          color,
+          size,
+          blouse_option,
+          price,
+          stock
+        )
+      `)
+      .eq('cart_id', cart.id);
+
+    if (itemsError) {
+      throw itemsError;
+    }
+
+    return { cartId: cart.id, items: (items || []) as CheckoutItem[] };
+  } catch (error) {
+    console.error('Error fetching checkout items:', error);
+    return { cartId: null, items: [] };
+  }
+};
+
+export const getCheckoutTotals = (items: CheckoutItem[], shippingMethod: ShippingMethod) => {
+  const subtotal = items.reduce((sum, item) => {
+    const itemPrice = getCheckoutItemPrice(item);
+    return sum + (itemPrice * item.quantity);
+  }, 0);
+
+  const shippingCost = calculateShippingCost(subtotal, shippingMethod);
+
+  return {
+    subtotal,
+    shippingCost,
+    total: subtotal + shippingCost
+  };
+};
+
+export interface OutOfStockLine {
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+export interface PlaceOrderResult {
+  orderId: string | null;
+  outOfStock: OutOfStockLine[];
+}
+
+// Stock is checked, decremented and the cart cleared inside the place_order
+// Postgres function so that concurrent checkouts cannot oversell a product.
+export const placeOrder = async (
+  address: ShippingAddress,
+  shippingMethod: ShippingMethod,
+  paymentMethod: PaymentMethod = 'online'
+): Promise<PlaceOrderResult> => {
+  try {
+    const { data: orderId, error } = await supabase.rpc('place_order', {
+      _shipping_address: { ...address },
+      _shipping_method: shippingMethod,
+      _payment_method: paymentMethod
+    });
+
+    if (error) {
+      if (error.message === 'out_of_stock') {
+        const outOfStock: OutOfStockLine[] = JSON.parse(error.details || '[]');
+        toast({
+          title: "Some items are out of stock",
+          description: outOfStock
+            .map(line => line.available > 0
+              ? `${line.name}: only ${line.available} left`
+              : `${line.name}: out of stock`)
+            .join(', '),
+          variant: "destructive"
+        });
+        return { orderId: null, outOfStock };
+      }
+
+      if (error.message === 'cod_ineligible') {
+        toast({
+          title: "Pay on delivery unavailable",
+          description: error.details || "Please choose another payment method.",
+          variant: "destructive"
+        });
+        return { orderId: null, outOfStock: [] };
+      }
+
+      if (error.message === 'cart_empty') {
+        toast({
+          title: "Cart is empty",
+          description: "Add some items to your cart before checking out.",
+          variant: "destructive"
+        });
+        return { orderId: null, outOfStock: [] };
+      }
+
+      throw error;
+    }
+
+    toast({
+      title: "Order Placed",
+      description: "Thank you! Your order has been placed successfully.",
+    });
+
+    return { orderId, outOfStock: [] };
+  } catch (error) {
+    console.error('Error placing order:', error);
+    toast({
+      title: "Error",
+      description: "Failed to place your order. Please try again.",
+      variant: "destructive"
+    });
+    return { orderId: null, outOfStock: [] };
+  }
+};
+
+export const checkCodEligibility = async (postalCode: string): Promise<{ eligible: boolean; reason: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('check_cod_eligibility', {
+      _postal_code: postalCode
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as { eligible: boolean; reason: string | null };
+  } catch (error) {
+    console.error('Error checking COD eligibility:', error);
+    return { eligible: false, reason: 'Could not check pay on delivery availability' };
+  }
+};
+
+export const fetchOrder = async (orderId: string): Promise<OrderWithItems | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (
+          id,
+          product_id,
+          variant_id,
+          quantity,
+          price,
+          backordered,
+          dispatch_by,
+          product:product_id (name, image),
+          variant:variant_id (sku, color, size, blouse_option)
+        )
+      `)
+      .eq('id', orderId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as unknown as OrderWithItems;
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    return null;
+  }
+};
@@ -0,0 +1,151 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+
+export type PaymentProviderId = 'razorpay' | 'fake';
+
+export interface PaymentSession {
+  provider: PaymentProviderId;
+  public_key: string | null;
+  intent_id: string;
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentPrefill {
+  name?: string;
+  email?: string;
+  contact?: string;
+}
+
+// Collects payment in the browser and returns whatever the provider's checkout
+// hands back, to be verified server-side. Resolves null if the buyer backs out.
+type PaymentCollector = (session: PaymentSession, prefill: PaymentPrefill) => Promise<Record<string, string> | null>;
+
+type RazorpayResponse = {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+};
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => { open: () => void };
+  }
+}
+
+const loadRazorpayScript = () => new Promise<void>((resolve, reject) => {
+  if (window.Razorpay) {
+    resolve();
+    return;
+  }
+
+  const script = document.createElement('script');
+  script.src = 'https://checkout.razorpay.com/v1/checkout.js';
+  script.onload = () => resolve();
+  script.onerror = () => reject(new Error('Could not load Razorpay checkout'));
+  document.body.appendChild(script);
+});
+
+const collectors: Record<PaymentProviderId, PaymentCollector> = {
+  razorpay: async (session, prefill) => {
+    await loadRazorpayScript();
+
+    return new Promise(resolve => {
+      const checkout = new window.Razorpay!({
+        key: session.public_key,
+        order_id: session.intent_id,
+        amount: session.amount,
+        currency: session.currency,
+        name: 'Usha Designs',
+        prefill,
+        theme: { color: '#800020' },
+        handler: (response: RazorpayResponse) => resolve({ ...response }),
+        modal: { ondismiss: () => resolve(null) },
+      });
+      checkout.open();
+    });
+  },
+
+  fake: async () => ({ outcome: 'success' }),
+};
+
+const invokePayments = async <T,>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('payments', { body });
+
+  if (error) {
+    throw error;
+  }
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+
+  return data as T;
+};
+
+export const createPaymentIntent = (orderId: string) =>
+  invokePayments<PaymentSession>({ action: 'create_intent', order_id: orderId });
+
+export const confirmPayment = (orderId: string, payload: Record<string, string>) =>
+  invokePayments<{ confirmed: boolean; reason?: string }>({ action: 'confirm', order_id: orderId, payload });
+
+// Runs the whole pay-now flow for a pending order. The order only moves to
+// "processing" once the server has verified the provider's response.
+export const payForOrder = async (orderId: string, prefill: PaymentPrefill = {}): Promise<boolean> => {
+  try {
+    const session = await createPaymentIntent(orderId);
+    const payload = await collectors[session.provider](session, prefill);
+
+    if (!payload) {
+      toast({
+        title: "Payment cancelled",
+        description: "Your order is saved. You can complete the payment from the order page.",
+      });
+      return false;
+    }
+
+    const result = await confirmPayment(orderId, payload);
+
+    if (!result.confirmed) {
+      toast({
+        title: "Payment failed",
+        description: result.reason || "We could not verify your payment. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    toast({
+      title: "Payment Successful",
+      description: "Your payment has been received.",
+    });
+    return true;
+  } catch (error) {
+    console.error('Error processing payment:', error);
+    toast({
+      title: "Error",
+      description: "Failed to process payment. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
+
+export const refundPayment = async (orderId: string, amount?: number): Promise<boolean> => {
+  try {
+    await invokePayments<{ refundId: string; status: string }>({ action: 'refund', order_id: orderId, amount });
+
+    toast({
+      title: "Refund Issued",
+      description: "The refund has been submitted to the payment provider.",
+    });
+    return true;
+  } catch (error) {
+    console.error('Error refunding payment:', error);
+    toast({
+      title: "Error",
+      description: "Failed to issue refund. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
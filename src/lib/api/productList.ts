@@ -0,0 +1,203 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ProductWithCategory } from '@/lib/api/products';
+
+// The paginated product list of the admin products page. Queries throw on
+// failure and are meant to be called through React Query (see useAdminProducts).
+// Filters, sort and page live in the page URL, so a filtered view can be
+// reloaded or shared.
+
+export type ProductSortField = 'name' | 'category' | 'price' | 'stock' | 'created_at';
+
+export type StockFilter = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+export interface ProductListFilters {
+  // Part of the product name
+  search: string;
+  // A category id, or UNCATEGORIZED for products without one
+  categoryId: string | null;
+  stock: StockFilter | null;
+  featured: boolean | null;
+  bestseller: boolean | null;
+  // Bounds on the list price, before discount
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export interface ProductListParams extends ProductListFilters {
+  sort: ProductSortField;
+  ascending: boolean;
+  page: number;
+}
+
+export interface ProductListPage {
+  products: ProductWithCategory[];
+  total: number;
+}
+
+export const UNCATEGORIZED = 'none';
+
+export const emptyProductListFilters: ProductListFilters = {
+  search: '',
+  categoryId: null,
+  stock: null,
+  featured: null,
+  bestseller: null,
+};
+
+export const PRODUCT_LIST_PAGE_SIZE = 10;
+
+// PostgREST returns at most this many rows per request
+const MAX_ROWS = 1000;
+
+const sortFields: ProductSortField[] = ['name', 'category', 'price', 'stock', 'created_at'];
+
+const parseFlag = (value: string | null) => (value === 'yes' ? true : value === 'no' ? false : null);
+
+const parsePrice = (value: string | null) => {
+  const price = value === null || value === '' ? NaN : Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+};
+
+export const readProductListParams = (params: URLSearchParams): ProductListParams => {
+  const sort = params.get('sort') as ProductSortField;
+  const stock = params.get('stock');
+  const page = Number(params.get('page'));
+
+  return {
+    search: params.get('q') ?? '',
+    categoryId: params.get('category'),
+    stock: stock === 'in_stock' || stock === 'low_stock' || stock === 'out_of_stock' ? stock : null,
+    featured: parseFlag(params.get('featured')),
+    bestseller: parseFlag(params.get('bestseller')),
+    minPrice: parsePrice(params.get('min_price')),
+    maxPrice: parsePrice(params.get('max_price')),
+    sort: sortFields.includes(sort) ? sort : 'created_at',
+    // Newest first unless another direction is asked for
+    ascending: params.get('dir') === 'asc',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+// The URL query for `params`, leaving out anything at its default
+export const toProductListSearchParams = (params: ProductListParams): URLSearchParams => {
+  const entries: [string, string | undefined][] = [
+    ['q', params.search.trim() || undefined],
+    ['category', params.categoryId ?? undefined],
+    ['stock', params.stock ?? undefined],
+    ['featured', params.featured === null ? undefined : params.featured ? 'yes' : 'no'],
+    ['bestseller', params.bestseller === null ? undefined : params.bestseller ? 'yes' : 'no'],
+    ['min_price', params.minPrice?.toString()],
+    ['max_price', params.maxPrice?.toString()],
+    ['sort', params.sort === 'created_at' ? undefined : params.sort],
+    ['dir', params.ascending ? 'asc' : undefined],
+    ['page', params.page > 1 ? String(params.page) : undefined],
+  ];
+
+  return new URLSearchParams(entries.filter((entry): entry is [string, string] => entry[1] !== undefined));
+};
+
+export const hasProductListFilters = (filters: ProductListFilters): boolean =>
+  filters.search.trim() !== '' ||
+  filters.categoryId !== null ||
+  filters.stock !== null ||
+  filters.featured !== null ||
+  filters.bestseller !== null ||
+  filters.minPrice !== undefined ||
+  filters.maxPrice !== undefined;
+
+type ProductRow = ProductWithCategory & { categories: { name: string } | null };
+
+const toProductWithCategory = ({ categories, ...product }: ProductRow): ProductWithCategory => ({
+  ...product,
+  category_name: categories?.name,
+});
+
+// `categoryIds` are the filter category and its descendants (see getDescendantIds)
+const buildProductListQuery = (filters: ProductListFilters, categoryIds: string[], count?: 'exact') => {
+  let query = supabase
+    .from('products')
+    .select('*, categories(name)', { count });
+
+  const search = filters.search.trim().replace(/[%_\\]/g, '\\$&');
+  if (search) {
+    query = query.ilike('name', `%${search}%`);
+  }
+
+  if (filters.categoryId === UNCATEGORIZED) {
+    query = query.is('category_id', null);
+  } else if (filters.categoryId) {
+    query = query.in('category_id', categoryIds);
+  }
+
+  if (filters.stock === 'in_stock') {
+    query = query.gt('stock', 0);
+  } else if (filters.stock === 'low_stock') {
+    // At or below the reorder threshold, but not sold out
+    query = query.eq('stock_status', 'low_stock');
+  } else if (filters.stock === 'out_of_stock') {
+    query = query.or('stock.is.null,stock.lte.0');
+  }
+
+  if (filters.featured !== null) {
+    query = query.eq('featured', filters.featured);
+  }
+  if (filters.bestseller !== null) {
+    query = query.eq('bestseller', filters.bestseller);
+  }
+  if (filters.minPrice !== undefined) {
+    query = query.gte('price', filters.minPrice);
+  }
+  if (filters.maxPrice !== undefined) {
+    query = query.lte('price', filters.maxPrice);
+  }
+
+  return query;
+};
+
+export const fetchProductList = async (
+  params: ProductListParams,
+  categoryIds: string[]
+): Promise<ProductListPage> => {
+  const query = buildProductListQuery(params, categoryIds, 'exact');
+  // Category sorts by the name of the product's category (a PostgREST
+  // order on a to-one embedded resource)
+  const column = params.sort === 'category' ? 'categories(name)' : params.sort;
+  const from = (params.page - 1) * PRODUCT_LIST_PAGE_SIZE;
+
+  const { data, count, error } = await query
+    .order(column, { ascending: params.ascending, nullsFirst: false })
+    // Keeps paging stable when the sort column has ties
+    .order('id')
+    .range(from, from + PRODUCT_LIST_PAGE_SIZE - 1);
+
+  if (error) {
+    throw error;
+  }
+
+  return { products: (data as ProductRow[]).map(toProductWithCategory), total: count ?? 0 };
+};
+
+// Every product matching `filters`, newest first, fetched in chunks so large
+// catalogs aren't cut off at the row limit
+export const fetchAllMatchingProducts = async (
+  filters: ProductListFilters,
+  categoryIds: string[]
+): Promise<ProductWithCategory[]> => {
+  const products: ProductWithCategory[] = [];
+
+  for (let from = 0; ; from += MAX_ROWS) {
+    const { data, error } = await buildProductListQuery(filters, categoryIds)
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, from + MAX_ROWS - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    products.push(...(data as ProductRow[]).map(toProductWithCategory));
+    if (data.length < MAX_ROWS) {
+      return products;
+    }
+  }
+};
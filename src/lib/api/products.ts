@@ -2,6 +2,12 @@
 import { supabase } from '@/integrations/supabase/client';
 import { formatCurrency } from '@/lib/utils';
 import { toast } from '@/components/ui/use-toast';
+import { Json } from '@/integrations/supabase/types';
+import { ImageSource, processImage } from '@/lib/imagePipeline';
+import { removeStoredImages } from '@/lib/api/storage';
+import { ImportRow } from '@/lib/productImport';
+import { emptyProductListFilters, fetchAllMatchingProducts } from '@/lib/api/productList';
+import { InventoryReason, describeInventoryError, setStockLevel } from '@/lib/api/inventory';
 
 export interface ProductType {
   id: string;
@@ -9,9 +15,26 @@ export interface ProductType {
   description: string | null;
   price: number;
   discount: number | null;
+  // Price after discount, computed by the database
+  sale_price?: number | null;
   category_id: string | null;
   image: string | null;
+  // Responsive sources of the cover image, see toImageSources
+  image_sources?: Json;
+  // Fabric, weave etc., see toProductAttributes
+  attributes?: Json;
   stock: number | null;
+  // Stock at or below which the product needs reordering
+  reorder_threshold?: number;
+  // 'in_stock', 'low_stock' or 'out_of_stock', computed by the database
+  // from stock and reorder_threshold
+  stock_status?: string | null;
+  // When stock last fell to the threshold, null while above it
+  low_stock_since?: string | null;
+  // 'in_stock', 'pre_order' or 'made_to_order', see fulfilmentModes
+  fulfilment_mode?: string;
+  // Days to dispatch items ordered beyond stock; set unless in_stock
+  lead_time_days?: number | null;
   featured: boolean | null;
   bestseller: boolean | null;
   rating: number | null;
@@ -24,81 +47,192 @@ export interface ProductWithCategory extends ProductType {
   category_name?: string;
 }
 
+// Every product, newest first. The admin products page loads a page at a time
+// with fetchProductList instead; this is for imports and exports.
 export const fetchProducts = async (): Promise<ProductWithCategory[]> => {
   try {
-    const { data: products, error } = await supabase
-      .from('products')
+    return await fetchAllMatchingProducts(emptyProductListFilters, []);
+  } catch (error) {
+    console.error('Error fetching products:', error);
+    return [];
+  }
+};
+
+export interface ProductImageType {
+  id: string;
+  product_id: string;
+  url: string;
+  storage_path: string | null;
+  sources: Json;
+  alt_text: string | null;
+  sort_order: number;
+  created_at: string;
+}
+
+// An image as edited in the product form: either already saved (has an id)
+// or a newly picked file that still needs uploading, previewed from `url`.
+export interface ProductImageDraft {
+  id?: string;
+  url: string;
+  file?: File;
+  alt_text: string;
+}
+
+const uploadImageObject = async (path: string, blob: Blob): Promise<string> => {
+  const { error } = await supabase.storage
+    .from('product-images')
+    .upload(path, blob, { contentType: blob.type, cacheControl: '31536000' });
+
+  if (error) {
+    throw error;
+  }
+
+  return supabase.storage.from('product-images').getPublicUrl(path).data.publicUrl;
+};
+
+// Resizes the file and uploads every width into its own folder, e.g.
+// `1716970000000-ab12cd/640.webp` and `.../640.jpg`. The folder is returned as
+// the storage path; `url` is the largest JPEG, for places without srcset.
+const uploadProductImage = async (file: File): Promise<{ url: string; path: string; sources: ImageSource[] }> => {
+  const folder = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+  const variants = await processImage(file);
+  const sources: ImageSource[] = [];
+
+  for (const variant of variants) {
+    sources.push({
+      width: variant.width,
+      webp: variant.webp ? await uploadImageObject(`${folder}/${variant.width}.webp`, variant.webp) : null,
+      jpeg: await uploadImageObject(`${folder}/${variant.width}.jpg`, variant.jpeg),
+    });
+  }
+
+  return { url: sources[sources.length - 1].jpeg, path: folder, sources };
+};
+
+export const fetchProductImages = async (productId: string): Promise<ProductImageType[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_images')
       .select('*')
-      .order('created_at', { ascending: false });
+      .eq('product_id', productId)
+      .order('sort_order');
 
     if (error) {
       throw error;
     }
 
-    // Get all category IDs from products
-    const categoryIds = products
-      .map(product => product.category_id)
-      .filter(Boolean) as string[];
+    return data;
+  } catch (error) {
+    console.error('Error fetching product images:', error);
+    return [];
+  }
+};
 
-    // Fetch all categories for these IDs in one go
-    const { data: categories, error: categoriesError } = await supabase
-      .from('categories')
-      .select('id, name')
-      .in('id', categoryIds);
+// Deletes the files of removed images. The rows are already gone, so a failure
+// here only leaves unused files behind, which the storage audit can clean up.
+const removeReplacedImages = async (storagePaths: string[]) => {
+  if (storagePaths.length === 0) return;
 
-    if (categoriesError) {
-      console.error('Error fetching categories:', categoriesError);
+  try {
+    await removeStoredImages(storagePaths);
+  } catch (error) {
+    console.error('Error deleting product images from storage:', error);
+    toast({
+      title: "Images Not Removed",
+      description: "Some old images could not be deleted from storage. Use the storage audit to clean them up.",
+      variant: "destructive"
+    });
+  }
+};
+
+// Makes the product's gallery match `images`, in that order: uploads new files,
+// updates alt text and order of existing rows and drops rows no longer listed
+// along with their files. The first image becomes products.image (and its
+// sources image_sources). Throws on failure.
+const saveProductImages = async (productId: string, images: ProductImageDraft[]): Promise<ProductImageType[]> => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('product_images')
+    .select('id, storage_path')
+    .eq('product_id', productId);
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  const keptIds = images.map(image => image.id).filter(Boolean);
+  const removed = existing.filter(row => !keptIds.includes(row.id));
+  const removedIds = removed.map(row => row.id);
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('product_images')
+      .delete()
+      .in('id', removedIds);
+
+    if (error) {
+      throw error;
     }
+  }
 
-    // Create a map of category ID to category name for quick lookup
-    const categoryMap = new Map();
-    if (categories) {
-      categories.forEach(category => {
-        categoryMap.set(category.id, category.name);
-      });
+  const saved: ProductImageType[] = [];
+
+  for (const [index, image] of images.entries()) {
+    if (image.file) {
+      const { url, path, sources } = await uploadProductImage(image.file);
+      const { data, error } = await supabase
+        .from('product_images')
+        .insert({
+          product_id: productId,
+          url,
+          storage_path: path,
+          sources: sources as unknown as Json,
+          alt_text: image.alt_text || null,
+          sort_order: index,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      saved.push(data);
+    } else if (image.id) {
+      const { data, error } = await supabase
+        .from('product_images')
+        .update({ alt_text: image.alt_text || null, sort_order: index })
+        .eq('id', image.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      saved.push(data);
     }
+  }
 
-    // Add category name to each product
-    const productsWithCategories = products.map(product => ({
-      ...product,
-      category_name: product.category_id ? categoryMap.get(product.category_id) : undefined
-    }));
+  const { error: coverError } = await supabase
+    .from('products')
+    .update({ image: saved[0]?.url ?? null, image_sources: saved[0]?.sources ?? [] })
+    .eq('id', productId);
 
-    return productsWithCategories;
-  } catch (error) {
-    console.error('Error fetching products:', error);
-    return [];
+  if (coverError) {
+    throw coverError;
   }
-};
 
-export const addProduct = async (productData: Partial<ProductType>, imageFile?: File): Promise<ProductType | null> => {
-  try {
-    let imagePath = null;
-
-    // Upload image if provided
-    if (imageFile) {
-      const fileExt = imageFile.name.split('.').pop();
-      const filePath = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from('product-images')
-        .upload(filePath, imageFile);
-
-      if (uploadError) {
-        throw uploadError;
-      }
+  await removeReplacedImages(removed.map(row => row.storage_path).filter(Boolean));
 
-      // Get public URL for the uploaded image
-      const { data } = supabase.storage.from('product-images').getPublicUrl(filePath);
-      imagePath = data.publicUrl;
-    }
+  return saved;
+};
 
-    // Create product with image path
+export const addProduct = async (productData: Partial<ProductType>, images: ProductImageDraft[] = []): Promise<ProductType | null> => {
+  try {
     const { data, error } = await supabase
       .from('products')
       .insert({
         ...productData,
-        image: imagePath,
+        image: null,
+        image_sources: [],
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
@@ -109,12 +243,14 @@ export const addProduct = async (productData: Partial<ProductType>, imageFile?:
       throw error;
     }
 
+    const savedImages = await saveProductImages(data.id, images);
+
     toast({
       title: "Product Added",
       description: `${productData.name} has been added successfully.`,
     });
 
-    return data;
+    return { ...data, image: savedImages[0]?.url ?? null, image_sources: savedImages[0]?.sources ?? [] };
   } catch (error) {
     console.error('Error adding product:', error);
     toast({
@@ -129,35 +265,27 @@ export const addProduct = async (productData: Partial<ProductType>, imageFile?:
 export const updateProduct = async (
   id: string, 
   productData: Partial<ProductType>, 
-  imageFile?: File
+  images?: ProductImageDraft[]
 ): Promise<ProductType | null> => {
   try {
-    let imagePath = productData.image;
-
-    // Upload new image if provided
-    if (imageFile) {
-      const fileExt = imageFile.name.split('.').pop();
-      const filePath = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from('product-images')
-        .upload(filePath, imageFile);
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      // Get public URL for the uploaded image
-      const { data } = supabase.storage.from('product-images').getPublicUrl(filePath);
-      imagePath = data.publicUrl;
-    }
+    // products.image follows the gallery, so it is only written through saveProductImages,
+    // sale_price is generated from price and discount, stock changes go
+    // through the inventory ledger and the stock status follows from both
+    const {
+      image: _cover,
+      image_sources: _coverSources,
+      sale_price: _salePrice,
+      category_name: _categoryName,
+      stock: _stock,
+      stock_status: _stockStatus,
+      low_stock_since: _lowStockSince,
+      ...fields
+    } = productData as ProductWithCategory;
 
-    // Update product
     const { data, error } = await supabase
       .from('products')
       .update({
-        ...productData,
-        image: imagePath,
+        ...fields,
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
@@ -168,12 +296,16 @@ export const updateProduct = async (
       throw error;
     }
 
+    const savedImages = images ? await saveProductImages(id, images) : null;
+
     toast({
       title: "Product Updated",
       description: `${productData.name} has been updated successfully.`,
     });
 
-    return data;
+    return savedImages
+      ? { ...data, image: savedImages[0]?.url ?? null, image_sources: savedImages[0]?.sources ?? [] }
+      : data;
   } catch (error) {
     console.error('Error updating product:', error);
     toast({
@@ -187,12 +319,11 @@ export const updateProduct = async (
 
 export const deleteProduct = async (id: string): Promise<boolean> => {
   try {
-    // Get product details to know which image to delete
-    const { data: product, error: fetchError } = await supabase
-      .from('products')
-      .select('image')
-      .eq('id', id)
-      .single();
+    // The gallery rows are deleted with the product, so read their files first
+    const { data: images, error: fetchError } = await supabase
+      .from('product_images')
+      .select('storage_path')
+      .eq('product_id', id);
 
     if (fetchError) {
       throw fetchError;
@@ -208,18 +339,7 @@ export const deleteProduct = async (id: string): Promise<boolean> => {
       throw error;
     }
 
-    // If product had an image, try to delete it from storage
-    if (product && product.image) {
-      try {
-        const imagePath = product.image.split('/').pop();
-        if (imagePath) {
-          await supabase.storage.from('product-images').remove([imagePath]);
-        }
-      } catch (imageError) {
-        console.error('Error deleting product image:', imageError);
-        // Continue even if image deletion fails
-      }
-    }
+    await removeReplacedImages(images.map(image => image.storage_path).filter(Boolean));
 
     toast({
       title: "Product Deleted",
@@ -237,3 +357,347 @@ export const deleteProduct = async (id: string): Promise<boolean> => {
     return false;
   }
 };
+
+const errorMessage = (error: unknown) => (error as { message?: string })?.message ?? String(error);
+
+const IMPORT_BATCH_SIZE = 25;
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  failed: { line: number; name: string; message: string }[];
+}
+
+// Writes the create and update rows of an import plan (see buildImportPlan) in
+// batches, reporting progress after each. A failed batch doesn't stop the rest;
+// its rows are listed in `failed`.
+export const applyProductImport = async (
+  rows: ImportRow[],
+  onProgress: (done: number, total: number) => void
+): Promise<ProductImportResult> => {
+  const creates = rows.filter(row => row.action === 'create');
+  const updates = rows.filter(row => row.action === 'update');
+  const total = creates.length + updates.length;
+  const result: ProductImportResult = { created: 0, updated: 0, failed: [] };
+  let done = 0;
+
+  const fail = (row: ImportRow, error: unknown) => {
+    result.failed.push({ line: row.line, name: row.name, message: errorMessage(error) });
+  };
+
+  for (let i = 0; i < creates.length; i += IMPORT_BATCH_SIZE) {
+    const batch = creates.slice(i, i + IMPORT_BATCH_SIZE);
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('products')
+      .insert(batch.map(row => ({
+        ...row.values,
+        name: row.name,
+        price: row.values.price ?? 0,
+        created_at: now,
+        updated_at: now,
+      })));
+
+    if (error) {
+      console.error('Error importing products:', error);
+      batch.forEach(row => fail(row, error));
+    } else {
+      result.created += batch.length;
+    }
+    done += batch.length;
+    onProgress(done, total);
+  }
+
+  // Imported stock of existing products is recorded as a stock count
+  const updateProductRow = async ({ values: { stock, ...values }, productId }: ImportRow) => {
+    const { error } = await supabase
+      .from('products')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', productId);
+
+    if (error || stock === undefined) {
+      return { error };
+    }
+
+    try {
+      await setStockLevel(productId, null, stock, 'Product import');
+      return { error: null };
+    } catch (stockError) {
+      return { error: stockError };
+    }
+  };
+
+  for (let i = 0; i < updates.length; i += IMPORT_BATCH_SIZE) {
+    const batch = updates.slice(i, i + IMPORT_BATCH_SIZE);
+    const results = await Promise.all(batch.map(updateProductRow));
+
+    results.forEach(({ error }, index) => {
+      if (error) {
+        console.error('Error importing product update:', error);
+        fail(batch[index], error);
+      } else {
+        result.updated += 1;
+      }
+    });
+    done += batch.length;
+    onProgress(done, total);
+  }
+
+  return result;
+};
+
+const BULK_BATCH_SIZE = 50;
+
+// A change applied to many products at once from the products table
+export type BulkProductAction =
+  | { type: 'discount'; discount: number }
+  | { type: 'featured'; value: boolean }
+  | { type: 'bestseller'; value: boolean }
+  | { type: 'category'; categoryId: string | null }
+  // `set` records a stock count, `adjust` adds stock (or removes it, if
+  // negative) for `reason`
+  | { type: 'stock'; mode: 'set' | 'adjust'; amount: number; reason: InventoryReason; note: string }
+  | { type: 'delete' };
+
+export interface BulkProductResult {
+  // IDs of the products that were changed or deleted
+  succeeded: string[];
+  failed: { id: string; name: string; message: string }[];
+}
+
+// Stock a product would have after a stock action; below zero means the
+// action would fail for it
+export const getBulkStock = (product: Pick<ProductType, 'stock'>, action: Extract<BulkProductAction, { type: 'stock' }>): number =>
+  action.mode === 'set' ? action.amount : (product.stock ?? 0) + action.amount;
+
+// Applies `action` to `products` in batches. A failed batch doesn't stop the
+// rest; its products are listed in `failed`. Products whose stock is the sum
+// of their variants' can't have it changed here and fail with a reason.
+export const applyBulkProductAction = async (
+  products: ProductType[],
+  action: BulkProductAction
+): Promise<BulkProductResult> => {
+  const result: BulkProductResult = { succeeded: [], failed: [] };
+  const fail = (product: ProductType, message: string) => {
+    result.failed.push({ id: product.id, name: product.name, message });
+  };
+
+  for (let i = 0; i < products.length; i += BULK_BATCH_SIZE) {
+    let batch = products.slice(i, i + BULK_BATCH_SIZE);
+    const ids = batch.map(product => product.id);
+    const updated_at = new Date().toISOString();
+    let errors: unknown[];
+
+    if (action.type === 'delete') {
+      // The gallery rows are deleted with the products, so read their files first
+      const { data: images, error: fetchError } = await supabase
+        .from('product_images')
+        .select('storage_path')
+        .in('product_id', ids);
+      const { error } = fetchError
+        ? { error: fetchError }
+        : await supabase.from('products').delete().in('id', ids);
+
+      if (!error) {
+        await removeReplacedImages(images.map(image => image.storage_path).filter(Boolean));
+      }
+      errors = batch.map(() => error);
+    } else if (action.type === 'stock') {
+      const { data: variants, error: variantsError } = await supabase
+        .from('product_variants')
+        .select('product_id')
+        .in('product_id', ids);
+
+      if (variantsError) {
+        console.error('Error checking product variants:', variantsError);
+        batch.forEach(product => fail(product, errorMessage(variantsError)));
+        continue;
+      }
+
+      const withVariants = new Set(variants.map(variant => variant.product_id));
+      batch.filter(product => withVariants.has(product.id)).forEach(product => fail(product, 'Stock is set per variant'));
+      batch = batch.filter(product => !withVariants.has(product.id));
+
+      // Each product gets its own movement in the inventory ledger
+      errors = await Promise.all(batch.map(async product => {
+        try {
+          if (action.mode === 'set') {
+            await setStockLevel(product.id, null, action.amount, action.note || undefined);
+          } else {
+            const { error } = await supabase
+              .from('inventory_movements')
+              .insert({
+                product_id: product.id,
+                quantity: action.amount,
+                reason: action.reason,
+                note: action.note || null,
+              });
+
+            if (error) {
+              throw error;
+            }
+          }
+          return null;
+        } catch (error) {
+          return new Error(describeInventoryError(error));
+        }
+      }));
+    } else {
+      const values = action.type === 'discount'
+        ? { discount: action.discount }
+        : action.type === 'category'
+          ? { category_id: action.categoryId }
+          : { [action.type]: action.value };
+      const { error } = await supabase
+        .from('products')
+        .update({ ...values, updated_at })
+        .in('id', ids);
+      errors = batch.map(() => error);
+    }
+
+    errors.forEach((error, index) => {
+      if (error) {
+        console.error(`Error applying bulk ${action.type}:`, error);
+        fail(batch[index], errorMessage(error));
+      } else {
+        result.succeeded.push(batch[index].id);
+      }
+    });
+  }
+
+  return result;
+};
+
+export interface ProductVariantType {
+  id: string;
+  product_id: string;
+  sku: string;
+  color: string | null;
+  size: string | null;
+  blouse_option: string | null;
+  price: number | null;
+  stock: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Human-readable name of a variant, e.g. "Maroon / M / With blouse"
+export const getVariantLabel = (variant: Pick<ProductVariantType, 'color' | 'size' | 'blouse_option'>): string =>
+  [variant.color, variant.size, variant.blouse_option].filter(Boolean).join(' / ');
+
+export const fetchProductVariants = async (productId: string): Promise<ProductVariantType[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_variants')
+      .select('*')
+      .eq('product_id', productId)
+      .order('created_at');
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching product variants:', error);
+    return [];
+  }
+};
+
+export const addProductVariant = async (
+  variantData: Omit<ProductVariantType, 'id' | 'created_at' | 'updated_at'>
+): Promise<ProductVariantType | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_variants')
+      .insert(variantData)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    toast({
+      title: "Variant Added",
+      description: `${variantData.sku} has been added successfully.`,
+    });
+
+    return data;
+  } catch (error) {
+    console.error('Error adding product variant:', error);
+    toast({
+      title: "Error",
+      description: "Failed to add variant. Check that the SKU is unique.",
+      variant: "destructive"
+    });
+    return null;
+  }
+};
+
+export const updateProductVariant = async (
+  id: string,
+  variantData: Partial<ProductVariantType>
+): Promise<ProductVariantType | null> => {
+  try {
+    // Stock changes go through the inventory ledger
+    const { stock: _stock, ...fields } = variantData;
+
+    const { data, error } = await supabase
+      .from('product_variants')
+      .update({
+        ...fields,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    toast({
+      title: "Variant Updated",
+      description: `${data.sku} has been updated successfully.`,
+    });
+
+    return data;
+  } catch (error) {
+    console.error('Error updating product variant:', error);
+    toast({
+      title: "Error",
+      description: "Failed to update variant. Please try again.",
+      variant: "destructive"
+    });
+    return null;
+  }
+};
+
+export const deleteProductVariant = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('product_variants')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+
+    toast({
+      title: "Variant Deleted",
+      description: "The variant has been successfully removed.",
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting product variant:', error);
+    toast({
+      title: "Error",
+      description: "Failed to delete variant. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
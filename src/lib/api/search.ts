@@ -0,0 +1,153 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { CatalogFacets, CatalogFilters, CatalogSort, catalogSorts } from '@/lib/api/catalog';
+
+// Product search for the /search page, backed by the search_products and
+// search_product_facets database functions. Like the catalog queries these
+// throw on failure and are called through React Query (see useProductSearch).
+
+export type SearchSort = 'relevance' | CatalogSort;
+
+export const searchSorts: { id: SearchSort; label: string }[] = [
+  { id: 'relevance', label: 'Relevance' },
+  ...catalogSorts,
+];
+
+export interface SearchFilters extends Omit<CatalogFilters, 'sort' | 'attributes'> {
+  categoryId: string | null;
+  sort: SearchSort;
+}
+
+export interface SearchResult {
+  id: string;
+  name: string;
+  price: number;
+  discount: number | null;
+  image: string | null;
+  image_sources: Json;
+  stock: number | null;
+  fulfilment_mode: string;
+  rating: number | null;
+  // Name with matches wrapped in HIGHLIGHT_START ... HIGHLIGHT_END
+  headline: string;
+}
+
+export interface SearchFacets extends Omit<CatalogFacets, 'attributes'> {
+  // Categories with matching products, most matches first
+  categories: { id: string; name: string; slug: string; count: number }[];
+}
+
+export const HIGHLIGHT_START = '\u0001';
+export const HIGHLIGHT_END = '\u0002';
+
+export const SEARCH_PAGE_SIZE = 12;
+
+export const searchProducts = async (
+  query: string,
+  filters: SearchFilters,
+  page: number
+): Promise<{ results: SearchResult[]; total: number }> => {
+  const { data, error } = await supabase.rpc('search_products', {
+    _query: query,
+    _category_ids: filters.categoryId ? [filters.categoryId] : undefined,
+    _min_price: filters.minPrice,
+    _max_price: filters.maxPrice,
+    _colors: filters.colors.length > 0 ? filters.colors : undefined,
+    _sizes: filters.sizes.length > 0 ? filters.sizes : undefined,
+    _in_stock: filters.inStock,
+    _sort: filters.sort,
+    _limit: SEARCH_PAGE_SIZE,
+    _offset: (page - 1) * SEARCH_PAGE_SIZE,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    results: data.map(row => ({
+      id: row.id,
+      name: row.name,
+      price: row.price,
+      discount: row.discount,
+      image: row.image,
+      image_sources: row.image_sources,
+      stock: row.stock,
+      fulfilment_mode: row.fulfilment_mode,
+      rating: row.rating,
+      headline: row.headline,
+    })),
+    total: data[0]?.total_count ?? 0,
+  };
+};
+
+export const fetchSearchFacets = async (query: string): Promise<SearchFacets> => {
+  const { data, error } = await supabase.rpc('search_product_facets', { _query: query });
+
+  if (error) {
+    throw error;
+  }
+
+  const facets = data as unknown as {
+    categories: SearchFacets['categories'];
+    colors: string[];
+    sizes: string[];
+    min_price: number | null;
+    max_price: number | null;
+  };
+
+  return {
+    categories: facets.categories,
+    colors: facets.colors,
+    sizes: facets.sizes,
+    minPrice: facets.min_price ?? 0,
+    maxPrice: facets.max_price ?? 0,
+  };
+};
+
+// Splits a headline into plain and highlighted parts
+export const splitHighlights = (headline: string): { text: string; highlighted: boolean }[] =>
+  headline
+    .split(HIGHLIGHT_START)
+    .flatMap((chunk, index) => {
+      if (index === 0) return [{ text: chunk, highlighted: false }];
+      const [match, rest = ''] = chunk.split(HIGHLIGHT_END);
+      return [
+        { text: match, highlighted: true },
+        { text: rest, highlighted: false },
+      ];
+    })
+    .filter(part => part.text !== '');
+
+export type SearchSuggestion = Omit<SearchResult, 'image_sources' | 'stock' | 'fulfilment_mode' | 'rating'>;
+
+export const fetchSearchSuggestions = async (query: string): Promise<SearchSuggestion[]> => {
+  const { data, error } = await supabase.rpc('search_suggestions', { _query: query });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
+
+export const fetchTrendingSearches = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('trending_searches');
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(row => row.query);
+};
+
+// Records a signed-in shopper's search for the trending list; the database
+// counts its results. Losing one doesn't matter to the shopper, so failures
+// are only logged.
+export const logSearch = async (query: string) => {
+  const { error } = await supabase.rpc('log_search', { _query: query });
+
+  if (error) {
+    console.error('Error logging search:', error);
+  }
+};
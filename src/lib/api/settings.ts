@@ -0,0 +1,62 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+
+export interface CodSettingsType {
+  enabled: boolean;
+  max_order_value: number | null;
+  blocked_pincodes: string[];
+  max_rto_count: number;
+  updated_at: string;
+}
+
+export const fetchCodSettings = async (): Promise<CodSettingsType | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('cod_settings')
+      .select('enabled, max_order_value, blocked_pincodes, max_rto_count, updated_at')
+      .eq('id', 1)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching COD settings:', error);
+    return null;
+  }
+};
+
+export const updateCodSettings = async (settings: Partial<CodSettingsType>): Promise<CodSettingsType | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('cod_settings')
+      .update({
+        ...settings,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', 1)
+      .select('enabled, max_order_value, blocked_pincodes, max_rto_count, updated_at')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    toast({
+      title: "Settings saved",
+      description: "Cash on delivery rules have been updated successfully.",
+    });
+
+    return data;
+  } catch (error) {
+    console.error('Error updating COD settings:', error);
+    toast({
+      title: "Error",
+      description: "Failed to save cash on delivery rules. Please try again.",
+      variant: "destructive"
+    });
+    return null;
+  }
+};
@@ -0,0 +1,116 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { ProductWithCategory } from '@/lib/api/products';
+
+// Products at or below their reorder threshold, and the daily digest the
+// low-stock-digest function sends about them.
+
+export interface StockAlertDigestType {
+  id: string;
+  sent_at: string;
+  channel: string;
+  low_stock_count: number;
+  out_of_stock_count: number;
+  new_count: number;
+}
+
+// Sold out products first, then the lowest stock
+export const fetchStockAlertProducts = async (): Promise<ProductWithCategory[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('*, categories(name)')
+      .in('stock_status', ['low_stock', 'out_of_stock'])
+      .order('stock', { ascending: true, nullsFirst: true })
+      .order('name');
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map(({ categories, ...product }) => ({ ...product, category_name: categories?.name }));
+  } catch (error) {
+    console.error('Error fetching low stock products:', error);
+    return [];
+  }
+};
+
+export const fetchLastStockAlertDigest = async (): Promise<StockAlertDigestType | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('stock_alert_digests')
+      .select('*')
+      .order('sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching last stock alert digest:', error);
+    return null;
+  }
+};
+
+export const updateReorderThreshold = async (productId: string, threshold: number): Promise<ProductWithCategory | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .update({ reorder_threshold: threshold, updated_at: new Date().toISOString() })
+      .eq('id', productId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    toast({
+      title: "Threshold Updated",
+      description: `${data.name} will be flagged at ${threshold} in stock.`,
+    });
+
+    return data;
+  } catch (error) {
+    console.error('Error updating reorder threshold:', error);
+    toast({
+      title: "Error",
+      description: "Failed to update the reorder threshold. Please try again.",
+      variant: "destructive"
+    });
+    return null;
+  }
+};
+
+// Sends the digest now rather than waiting for the daily run
+export const sendStockAlertDigest = async (): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('low-stock-digest', { body: {} });
+
+    if (error) {
+      throw error;
+    }
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+
+    toast({
+      title: data.sent ? "Digest Sent" : "Nothing to Send",
+      description: data.sent
+        ? `Stock alert sent by ${data.channel}.`
+        : "Every product is above its reorder threshold.",
+    });
+    return data.sent;
+  } catch (error) {
+    console.error('Error sending stock alert digest:', error);
+    toast({
+      title: "Error",
+      description: "Failed to send the stock alert. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
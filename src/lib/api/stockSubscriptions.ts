@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+
+// "Notify me" subscriptions for sold out products and variants. The
+// back-in-stock-notify function emails each one once the item has stock.
+
+export interface RestockDemandType {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_sku: string | null;
+  variant_name: string | null;
+  stock: number;
+  // Shoppers still waiting for an email
+  waiting: number;
+  oldest: string;
+}
+
+export const subscribeToRestock = async (
+  productId: string,
+  variantId: string | null,
+  email: string
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc('subscribe_to_restock', {
+      _product_id: productId,
+      _variant_id: variantId,
+      _email: email,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    toast({
+      title: "You're on the list",
+      description: `We'll email ${email.trim()} when this is back in stock.`,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error subscribing to restock:', error);
+    const message = (error as { message?: string })?.message;
+    toast({
+      title: "Error",
+      description: message === 'invalid_email'
+        ? "Please enter a valid email address."
+        : message === 'variant_required'
+          ? "Please select a variant first."
+          : "Failed to save your request. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
+
+export const fetchRestockDemand = async (): Promise<RestockDemandType[]> => {
+  try {
+    const { data, error } = await supabase.rpc('restock_demand');
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching restock demand:', error);
+    return [];
+  }
+};
+
+// Emails everyone whose item is back now rather than waiting for the next run
+export const sendRestockEmails = async (): Promise<number | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('back-in-stock-notify', { body: {} });
+
+    if (error) {
+      throw error;
+    }
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+
+    toast({
+      title: "Restock Emails Sent",
+      description: data.failed > 0
+        ? `${data.sent} sent, ${data.failed} will be retried.`
+        : `${data.sent} ${data.sent === 1 ? 'shopper was' : 'shoppers were'} emailed.`,
+    });
+    return data.sent;
+  } catch (error) {
+    console.error('Error sending restock emails:', error);
+    toast({
+      title: "Error",
+      description: "Failed to send restock emails. Please try again.",
+      variant: "destructive"
+    });
+    return null;
+  }
+};
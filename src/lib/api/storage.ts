@@ -0,0 +1,181 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+
+const BUCKET = 'product-images';
+const LIST_PAGE_SIZE = 1000;
+// PostgREST returns at most this many rows per request
+const MAX_ROWS = 1000;
+const REMOVE_BATCH_SIZE = 100;
+
+// Objects newer than this are left out of the audit, since a product being
+// saved right now uploads its images before the rows that reference them
+const ORPHAN_MIN_AGE_MS = 60 * 60 * 1000;
+
+export interface StorageObjectType {
+  path: string;
+  size: number | null;
+  created_at: string | null;
+  url: string;
+}
+
+// Lists every object under `prefix`, descending into folders
+const listObjects = async (prefix = ''): Promise<StorageObjectType[]> => {
+  const objects: StorageObjectType[] = [];
+
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+    if (error) {
+      throw error;
+    }
+
+    for (const entry of data) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      // Folders come back without an id
+      if (entry.id === null) {
+        objects.push(...await listObjects(path));
+      } else {
+        objects.push({
+          path,
+          size: entry.metadata?.size ?? null,
+          created_at: entry.created_at ?? null,
+          url: supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl,
+        });
+      }
+    }
+
+    if (data.length < LIST_PAGE_SIZE) {
+      return objects;
+    }
+  }
+};
+
+// Object key of a public URL in the bucket, null for images hosted elsewhere
+export const getPathFromUrl = (url: string): string | null => {
+  const match = url.match(/\/product-images\/([^?]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Removes images by their product_images.storage_path. Processed images store
+// the folder holding all their widths, older uploads a single object key.
+// Throws on failure.
+export const removeStoredImages = async (storagePaths: string[]): Promise<void> => {
+  const keys: string[] = [];
+
+  for (const storagePath of storagePaths) {
+    const folderObjects = await listObjects(storagePath);
+    keys.push(...(folderObjects.length > 0 ? folderObjects.map(object => object.path) : [storagePath]));
+  }
+
+  for (let i = 0; i < keys.length; i += REMOVE_BATCH_SIZE) {
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .remove(keys.slice(i, i + REMOVE_BATCH_SIZE));
+
+    if (error) {
+      throw error;
+    }
+  }
+};
+
+// Every row of a query, fetched MAX_ROWS at a time. `loadPage` must order
+// the rows so that pages don't overlap.
+const fetchAllRows = async <T>(
+  loadPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += MAX_ROWS) {
+    const { data, error } = await loadPage(from, from + MAX_ROWS - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...data);
+    if (data.length < MAX_ROWS) {
+      return rows;
+    }
+  }
+};
+
+// Bucket objects that no product image, product cover or category banner
+// points at. Anything missed here would be offered for deletion, so every
+// row of each table is read.
+export const fetchUnreferencedImages = async (): Promise<StorageObjectType[]> => {
+  try {
+    const [objects, images, products, categories] = await Promise.all([
+      listObjects(),
+      fetchAllRows((from, to) => supabase.from('product_images').select('url, storage_path').order('id').range(from, to)),
+      fetchAllRows((from, to) => supabase.from('products').select('image').order('id').range(from, to)),
+      fetchAllRows((from, to) => supabase.from('categories').select('banner_image').order('id').range(from, to)),
+    ]);
+
+    const referenced = new Set<string>();
+    images.forEach(row => {
+      const path = row.storage_path ?? getPathFromUrl(row.url);
+      if (path) referenced.add(path);
+    });
+    products.forEach(row => {
+      const path = row.image ? getPathFromUrl(row.image) : null;
+      if (path) referenced.add(path);
+    });
+    categories.forEach(row => {
+      const path = row.banner_image ? getPathFromUrl(row.banner_image) : null;
+      if (path) referenced.add(path);
+    });
+
+    const isReferenced = (path: string) => {
+      if (referenced.has(path)) return true;
+      // Widths of a processed image live in its storage_path folder
+      const folder = path.substring(0, path.lastIndexOf('/'));
+      return folder !== '' && referenced.has(folder);
+    };
+
+    const cutoff = Date.now() - ORPHAN_MIN_AGE_MS;
+
+    return objects.filter(object =>
+      !isReferenced(object.path) &&
+      (!object.created_at || new Date(object.created_at).getTime() < cutoff)
+    );
+  } catch (error) {
+    console.error('Error auditing product images:', error);
+    toast({
+      title: "Error",
+      description: "Failed to scan the image bucket. Please try again.",
+      variant: "destructive"
+    });
+    return [];
+  }
+};
+
+export const deleteStorageObjects = async (paths: string[]): Promise<boolean> => {
+  try {
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+      const { error } = await supabase.storage
+        .from(BUCKET)
+        .remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    toast({
+      title: "Images Deleted",
+      description: `${paths.length} unused ${paths.length === 1 ? 'image' : 'images'} removed from storage.`,
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting storage objects:', error);
+    toast({
+      title: "Error",
+      description: "Failed to delete images. Please try again.",
+      variant: "destructive"
+    });
+    return false;
+  }
+};
@@ -0,0 +1,61 @@
+import { CategoryType } from '@/lib/api/categories';
+
+// Helpers for the category tree. They work on the flat list from
+// fetchCategories (already sorted by display order), which is small enough
+// to keep in memory.
+
+export interface CategoryNode extends CategoryType {
+  children: CategoryNode[];
+}
+
+export const buildCategoryTree = (categories: CategoryType[]): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>(
+    categories.map(category => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+};
+
+// The category itself and everything below it
+export const getDescendantIds = (categories: CategoryType[], categoryId: string): string[] => {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    categories
+      .filter(category => category.parent_id === ids[i])
+      .forEach(category => {
+        if (!ids.includes(category.id)) ids.push(category.id);
+      });
+  }
+  return ids;
+};
+
+// Ancestors from the top level down to the category itself, for breadcrumbs
+export const getCategoryPath = (categories: CategoryType[], categoryId: string): CategoryType[] => {
+  const path: CategoryType[] = [];
+  let current = categories.find(category => category.id === categoryId);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId = current.parent_id;
+    current = categories.find(category => category.id === parentId);
+  }
+
+  return path;
+};
+
+// Tree order with each category's depth, for indented lists
+export const flattenCategoryTree = (
+  nodes: CategoryNode[],
+  depth = 0
+): { category: CategoryNode; depth: number }[] =>
+  nodes.flatMap(node => [{ category: node, depth }, ...flattenCategoryTree(node.children, depth + 1)]);
@@ -31,69 +31,28 @@ export const productCategories = [
   "Ready blouses"
 ];
 
-// Group categories for menu display
-export const groupedCategories = {
-  silk: [
-    "Pure Kanchi silk", 
-    "Pure Tusser silk", 
-    "Gicha silk", 
-    "Raw mango silk", 
-    "Pure pathani silk", 
-    "Benarasi silk",
-    "Uppada Silk Sarees",
-    "Silk & Semi-Silk Sarees"
-  ],
-  cotton: [
-    "Handloom Cotton Sarees", 
-    "Handloom cotton silk (Mangalagiri)"
-  ],
-  georgette: [
-    "Georgette Sarees", 
-    "Crispy Georgette Sarees", 
-    "Georgette with Banarasi Weave Sarees"
-  ],
-  designer: [
-    "Designer Kurtis nd 3Pc sets", 
-    "Hand embroidery sarees"
-  ],
-  ready: [
-    "Ready blouse sarees", 
-    "Ready blouses", 
-    "Dress materials"
-  ],
-  other: [
-    "Pure Linen Sarees",
-    "Chanderi Kotta Sarees",
-    "Crepe Silk Sarees",
-    "Bandhini Sarees",
-    "Organza Sarees",
-    "Jute Silk Sarees",
-    "Pure Chander Sarees"
-  ]
-};
-
-// Featured Categories for homepage
+// Featured Categories for homepage, linked by category slug
 export const featuredCategories = [
   {
-    id: "silk-sarees",
+    slug: "pure-silk",
     name: "Silk Sarees",
     description: "Luxurious silk sarees for special occasions",
     image: "https://images.unsplash.com/photo-1604502130252-20cdd1c80d13?q=80&w=500&auto=format&fit=crop"
   },
   {
-    id: "cotton-sarees",
+    slug: "cotton",
     name: "Cotton Sarees",
     description: "Comfortable handloom cotton for everyday elegance",
     image: "https://images.unsplash.com/photo-1581084324492-c5bd05cbd1a4?q=80&w=500&auto=format&fit=crop"
   },
   {
-    id: "designer-sets",
+    slug: "designer",
     name: "Designer Sets",
     description: "Complete designer outfits for the modern woman",
     image: "https://images.unsplash.com/photo-1597983073453-ef06cfc2240e?q=80&w=500&auto=format&fit=crop"
   },
   {
-    id: "ready-blouses",
+    slug: "ready-blouses",
     name: "Ready Blouses",
     description: "Perfect match for your favorite sarees",
     image: "https://images.unsplash.com/photo-1631233859262-0d7b12ea7d4c?q=80&w=500&auto=format&fit=crop"
@@ -216,7 +175,7 @@ export const carouselSlides = [
     subtitle: "Explore our exclusive Kanchipuram & Banarasi collection",
     image: "https://images.unsplash.com/photo-1610189356738-62e33e86eada?q=80&w=1200&auto=format&fit=crop",
     buttonText: "Shop Now",
-    buttonLink: "/category/silk"
+    buttonLink: "/category/pure-silk"
   },
   {
     id: 2,
@@ -224,7 +183,7 @@ export const carouselSlides = [
     subtitle: "Celebrate the season with our exquisite designer wear",
     image: "https://images.unsplash.com/photo-1603189817218-32a1ec250280?q=80&w=1200&auto=format&fit=crop",
     buttonText: "Discover",
-    buttonLink: "/category/festive"
+    buttonLink: "/category/designer"
   },
   {
     id: 3,
@@ -236,6 +195,48 @@ export const carouselSlides = [
   }
 ];
 
+// Shipping options offered at checkout
+export type ShippingMethod = 'standard' | 'express';
+
+export const FREE_SHIPPING_THRESHOLD = 1000;
+
+export const shippingMethods: { id: ShippingMethod; name: string; description: string; cost: number }[] = [
+  {
+    id: 'standard',
+    name: 'Standard Delivery',
+    description: 'Delivered in 5-7 business days. Free on orders above ₹1,000',
+    cost: 100
+  },
+  {
+    id: 'express',
+    name: 'Express Delivery',
+    description: 'Delivered in 2-3 business days',
+    cost: 250
+  }
+];
+
+// Payment modes offered at checkout. Pay-on-delivery modes are subject to
+// the COD eligibility rules configured in admin settings.
+export type PaymentMethod = 'online' | 'cod' | 'upi_on_delivery';
+
+export const paymentMethods: { id: PaymentMethod; name: string; description: string }[] = [
+  {
+    id: 'online',
+    name: 'Pay Online',
+    description: 'Cards, UPI, net banking and wallets'
+  },
+  {
+    id: 'cod',
+    name: 'Cash on Delivery',
+    description: 'Pay in cash when your order arrives'
+  },
+  {
+    id: 'upi_on_delivery',
+    name: 'UPI on Delivery',
+    description: 'Scan and pay with any UPI app when your order arrives'
+  }
+];
+
 // Admin default credentials
 export const adminCredentials = {
   email: "admin@admin.com",
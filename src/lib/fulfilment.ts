@@ -0,0 +1,44 @@
+import { addDays } from 'date-fns';
+
+// How products that run out are fulfilled. Pre-order and made-to-order
+// products can be bought beyond their stock: stock on hand is sold first and
+// the rest is dispatched after the product's lead time. place_order applies
+// the same rules.
+
+export type FulfilmentMode = 'in_stock' | 'pre_order' | 'made_to_order';
+
+export const fulfilmentModes: { id: FulfilmentMode; label: string; description: string }[] = [
+  { id: 'in_stock', label: 'In stock only', description: 'Can only be bought while in stock' },
+  { id: 'pre_order', label: 'Pre-order', description: 'Can be ordered ahead of the next delivery' },
+  { id: 'made_to_order', label: 'Made to order', description: 'Woven or tailored once ordered' },
+];
+
+// Most a shopper can order beyond stock in one cart line
+export const MAX_BACKORDER_QUANTITY = 10;
+
+export const getFulfilmentModeLabel = (mode: string | null | undefined): string =>
+  fulfilmentModes.find(item => item.id === mode)?.label ?? 'In stock only';
+
+export const canBackorder = (mode: string | null | undefined): boolean =>
+  mode === 'pre_order' || mode === 'made_to_order';
+
+// How many of an item can go in the cart
+export const getOrderableQuantity = (stock: number, mode: string | null | undefined): number =>
+  canBackorder(mode) ? Math.max(stock, 0) + MAX_BACKORDER_QUANTITY : stock;
+
+// When `quantity` of an item would be dispatched if ordered on `orderDate`,
+// or null when stock covers it and it ships as usual
+export const getDispatchDate = (
+  quantity: number,
+  stock: number,
+  mode: string | null | undefined,
+  leadTimeDays: number | null | undefined,
+  orderDate = new Date()
+): Date | null =>
+  canBackorder(mode) && leadTimeDays && quantity > stock ? addDays(orderDate, leadTimeDays) : null;
+
+// e.g. "4 weeks" or "10 days"
+export const formatLeadTime = (days: number): string =>
+  days % 7 === 0
+    ? `${days / 7} ${days === 7 ? 'week' : 'weeks'}`
+    : `${days} ${days === 1 ? 'day' : 'days'}`;
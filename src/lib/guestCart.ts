@@ -0,0 +1,71 @@
+// Cart for signed-out visitors, kept in localStorage. Lines have the same shape
+// as rows in `cart_items` so the cart page can render either source, and they
+// are merged into the user's cart when they sign in.
+
+const GUEST_CART_KEY = 'usha-guest-cart';
+
+// Fired on window once a guest cart has been merged into a signed-in cart
+export const GUEST_CART_MERGED_EVENT = 'usha:guest-cart-merged';
+
+export interface GuestCartItem {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export const getGuestCart = (): GuestCartItem[] => {
+  try {
+    const stored = localStorage.getItem(GUEST_CART_KEY);
+    const items = stored ? JSON.parse(stored) : [];
+    return Array.isArray(items) ? items : [];
+  } catch (error) {
+    console.error('Error reading guest cart:', error);
+    return [];
+  }
+};
+
+const saveGuestCart = (items: GuestCartItem[]) => {
+  if (items.length === 0) {
+    localStorage.removeItem(GUEST_CART_KEY);
+  } else {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(items));
+  }
+};
+
+export const addToGuestCart = (productId: string, quantity = 1, variantId: string | null = null): GuestCartItem[] => {
+  const items = getGuestCart();
+  const now = new Date().toISOString();
+  const existing = items.find(item => item.product_id === productId && (item.variant_id ?? null) === variantId);
+
+  const updated = existing
+    ? items.map(item => item === existing
+      ? { ...item, quantity: item.quantity + quantity, updated_at: now }
+      : item)
+    : [...items, { id: crypto.randomUUID(), product_id: productId, variant_id: variantId, quantity, created_at: now, updated_at: now }];
+
+  saveGuestCart(updated);
+  return updated;
+};
+
+export const updateGuestCartItem = (itemId: string, quantity: number): GuestCartItem[] => {
+  const updated = getGuestCart().map(item =>
+    item.id === itemId ? { ...item, quantity, updated_at: new Date().toISOString() } : item
+  );
+
+  saveGuestCart(updated);
+  return updated;
+};
+
+export const removeGuestCartItem = (itemId: string): GuestCartItem[] => {
+  const updated = getGuestCart().filter(item => item.id !== itemId);
+
+  saveGuestCart(updated);
+  return updated;
+};
+
+export const clearGuestCart = () => {
+  localStorage.removeItem(GUEST_CART_KEY);
+};
@@ -0,0 +1,85 @@
+// Prepares product photos in the browser before they are uploaded: each image
+// is resized to a set of widths and re-encoded as WebP plus a JPEG fallback.
+// Drawing through a canvas also drops EXIF data (camera, GPS), after applying
+// the EXIF orientation so portrait shots stay upright.
+
+export const IMAGE_WIDTHS = [320, 640, 1024, 1600];
+
+const WEBP_QUALITY = 0.82;
+const JPEG_QUALITY = 0.85;
+
+export interface ProcessedImageVariant {
+  width: number;
+  // Null where the browser can't encode WebP (older Safari returns PNG instead)
+  webp: Blob | null;
+  jpeg: Blob;
+}
+
+// Public URLs of one uploaded width, as stored in the image_sources/sources columns
+export interface ImageSource {
+  width: number;
+  webp: string | null;
+  jpeg: string;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error(`Could not encode image as ${type}`))),
+      type,
+      quality
+    );
+  });
+
+export const processImage = async (file: File): Promise<ProcessedImageVariant[]> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    // Never upscale: widths above the original collapse into the original width
+    const widths = Array.from(new Set(IMAGE_WIDTHS.map(width => Math.min(width, bitmap.width))));
+    const variants: ProcessedImageVariant[] = [];
+
+    for (const width of widths) {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = Math.round(bitmap.height * (width / bitmap.width));
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas is not supported in this browser');
+      }
+
+      // JPEG has no transparency, so flatten onto white rather than black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+      const [webp, jpeg] = await Promise.all([
+        canvasToBlob(canvas, 'image/webp', WEBP_QUALITY),
+        canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY),
+      ]);
+      variants.push({ width, webp: webp.type === 'image/webp' ? webp : null, jpeg });
+    }
+
+    return variants;
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const buildSrcSet = (sources: ImageSource[], format: 'webp' | 'jpeg') =>
+  sources
+    .filter(source => source[format])
+    .map(source => `${source[format]} ${source.width}w`)
+    .join(', ');
+
+// Reads a sources/image_sources column, ignoring anything that isn't a source
+// (rows uploaded before the pipeline existed have an empty array)
+export const toImageSources = (value: unknown): ImageSource[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (source): source is ImageSource =>
+          typeof source?.width === 'number' && typeof source?.jpeg === 'string'
+      )
+    : [];
@@ -0,0 +1,321 @@
+import readXlsxFile from 'read-excel-file';
+import { parseCsv, toCsv } from '@/lib/csv';
+import {
+  AttributeDefinitionType,
+  ProductAttributes,
+  getCategoryAttributes,
+  toProductAttributes,
+} from '@/lib/api/attributes';
+import { CategoryType } from '@/lib/api/categories';
+import { ProductType } from '@/lib/api/products';
+
+// Bulk product import: turns a CSV or XLSX sheet into a plan of products to
+// create or update, with the reasons any row can't be imported. Nothing here
+// writes to the database; see applyProductImport for that.
+
+// A product field a column can be mapped to. Attribute columns map to
+// `attribute:<key>`; `category` takes a category name or slug.
+export type ImportField =
+  | 'id'
+  | 'name'
+  | 'description'
+  | 'category'
+  | 'price'
+  | 'discount'
+  | 'stock'
+  | 'featured'
+  | 'bestseller'
+  | `attribute:${string}`;
+
+export interface ImportTarget {
+  field: ImportField;
+  label: string;
+}
+
+// The product fields an import can write
+export type ImportValues = Partial<Pick<
+  ProductType,
+  'name' | 'description' | 'category_id' | 'price' | 'discount' | 'stock' | 'featured' | 'bestseller' | 'attributes'
+>>;
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'reject';
+
+export interface ImportRow {
+  // Line in the sheet, counting the header as line 1
+  line: number;
+  action: ImportAction;
+  name: string;
+  // Set for updates
+  productId?: string;
+  // Fields to write
+  values: ImportValues;
+  // Labels of the fields an update changes
+  changes: string[];
+  errors: string[];
+}
+
+const baseTargets: (ImportTarget & { aliases: string[] })[] = [
+  { field: 'id', label: 'Product ID', aliases: ['id', 'productid'] },
+  { field: 'name', label: 'Name', aliases: ['name', 'productname', 'title'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'details'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'categoryname', 'categoryslug'] },
+  { field: 'price', label: 'Price', aliases: ['price', 'mrp'] },
+  { field: 'discount', label: 'Discount (%)', aliases: ['discount', 'discountpercent'] },
+  { field: 'stock', label: 'Stock', aliases: ['stock', 'quantity', 'qty', 'inventory'] },
+  { field: 'featured', label: 'Featured', aliases: ['featured'] },
+  { field: 'bestseller', label: 'Bestseller', aliases: ['bestseller'] },
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const getImportTargets = (definitions: AttributeDefinitionType[]): ImportTarget[] => [
+  ...baseTargets.map(({ field, label }) => ({ field, label })),
+  ...definitions.map(definition => ({ field: `attribute:${definition.key}` as ImportField, label: definition.label })),
+];
+
+// Picks a field for each header by name, e.g. "Qty" -> stock, "Saree Length" -> attribute:saree_length
+export const guessColumnMapping = (
+  headers: string[],
+  definitions: AttributeDefinitionType[]
+): (ImportField | null)[] => {
+  const used = new Set<ImportField>();
+
+  return headers.map(header => {
+    const normalized = normalize(header);
+    const base = baseTargets.find(target => target.aliases.includes(normalized));
+    const attribute = definitions.find(definition =>
+      normalize(definition.key) === normalized || normalize(definition.label) === normalized
+    );
+    const field = base?.field ?? (attribute ? `attribute:${attribute.key}` as ImportField : null);
+
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+};
+
+// Reads the first sheet of an .xlsx file or a .csv file into rows of text,
+// dropping empty lines
+export const readImportFile = async (file: File): Promise<string[][]> => {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  const rows = isExcel
+    ? (await readXlsxFile(file)).map(row => row.map(cell =>
+      cell === null || cell === undefined ? '' : cell instanceof Date ? cell.toISOString() : String(cell)
+    ))
+    : parseCsv(await file.text());
+
+  return rows
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''));
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = value.toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(normalized)) return true;
+  if (['no', 'n', 'false', '0'].includes(normalized)) return false;
+  return null;
+};
+
+const parseNumber = (value: string): number | null => {
+  const number = Number(value.replace(/[₹,\s]/g, ''));
+  return value !== '' && Number.isFinite(number) ? number : null;
+};
+
+interface ImportContext {
+  products: ProductType[];
+  categories: CategoryType[];
+  definitions: AttributeDefinitionType[];
+}
+
+const findCategory = (categories: CategoryType[], value: string) => {
+  const normalized = value.toLowerCase();
+  return categories.find(category => category.name.toLowerCase() === normalized || category.slug === normalized);
+};
+
+// Turns the cells of one row into product values, collecting what's wrong with them
+const readRow = (
+  cells: string[],
+  mapping: (ImportField | null)[],
+  { categories, definitions }: ImportContext
+): { values: ImportValues; attributes: ProductAttributes; id: string; errors: string[] } => {
+  const values: ImportValues = {};
+  const attributes: ProductAttributes = {};
+  const errors: string[] = [];
+  let id = '';
+
+  mapping.forEach((field, index) => {
+    const cell = cells[index] ?? '';
+    if (!field || cell === '') return;
+
+    if (field.startsWith('attribute:')) {
+      const definition = definitions.find(d => `attribute:${d.key}` === field);
+      if (!definition) return;
+
+      if (definition.type === 'select') {
+        const option = definition.options.find(o => o.toLowerCase() === cell.toLowerCase());
+        if (option) attributes[definition.key] = option;
+        else errors.push(`${definition.label} "${cell}" is not one of: ${definition.options.join(', ')}`);
+      } else if (definition.type === 'number') {
+        const number = parseNumber(cell);
+        if (number !== null && number >= 0) attributes[definition.key] = number;
+        else errors.push(`${definition.label} "${cell}" is not a number`);
+      } else if (definition.type === 'boolean') {
+        const flag = parseBoolean(cell);
+        if (flag !== null) attributes[definition.key] = flag;
+        else errors.push(`${definition.label} "${cell}" should be yes or no`);
+      } else {
+        attributes[definition.key] = cell;
+      }
+      return;
+    }
+
+    switch (field) {
+      case 'id':
+        id = cell;
+        break;
+      case 'name':
+        values.name = cell;
+        break;
+      case 'description':
+        values.description = cell;
+        break;
+      case 'category': {
+        const category = findCategory(categories, cell);
+        if (category) values.category_id = category.id;
+        else errors.push(`Unknown category "${cell}"`);
+        break;
+      }
+      case 'price': {
+        const price = parseNumber(cell);
+        if (price !== null && price >= 0) values.price = price;
+        else errors.push(`Price "${cell}" is not a valid amount`);
+        break;
+      }
+      case 'discount': {
+        const discount = parseNumber(cell.replace('%', ''));
+        if (discount !== null && discount >= 0 && discount <= 100) values.discount = discount;
+        else errors.push(`Discount "${cell}" should be between 0 and 100`);
+        break;
+      }
+      case 'stock': {
+        const stock = parseNumber(cell);
+        if (stock !== null && Number.isInteger(stock) && stock >= 0) values.stock = stock;
+        else errors.push(`Stock "${cell}" should be a whole number`);
+        break;
+      }
+      case 'featured':
+      case 'bestseller': {
+        const flag = parseBoolean(cell);
+        if (flag !== null) values[field] = flag;
+        else errors.push(`${field === 'featured' ? 'Featured' : 'Bestseller'} "${cell}" should be yes or no`);
+        break;
+      }
+    }
+  });
+
+  return { values, attributes, id, errors };
+};
+
+const fieldLabels: Partial<Record<keyof ImportValues, string>> = {
+  name: 'Name',
+  description: 'Description',
+  category_id: 'Category',
+  price: 'Price',
+  discount: 'Discount',
+  stock: 'Stock',
+  featured: 'Featured',
+  bestseller: 'Bestseller',
+};
+
+// Works out what importing `rows` (without the header) would do. Rows match
+// existing products by the Product ID column if mapped, otherwise by name.
+export const buildImportPlan = (
+  rows: string[][],
+  mapping: (ImportField | null)[],
+  context: ImportContext
+): ImportRow[] => {
+  const { products, categories, definitions } = context;
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const productsByName = new Map(products.map(product => [product.name.trim().toLowerCase(), product]));
+  const seen = new Set<string>();
+
+  return rows.map((cells, index) => {
+    const line = index + 2;
+    const { values, attributes, id, errors } = readRow(cells, mapping, context);
+    const existing = id ? productsById.get(id) : productsByName.get((values.name ?? '').toLowerCase());
+    const name = values.name ?? existing?.name ?? '';
+    const reject = (reasons: string[]): ImportRow => ({ line, action: 'reject', name, values: {}, changes: [], errors: reasons });
+
+    if (id && !existing) {
+      errors.push(`No product has ID ${id}`);
+    }
+    if (!existing && !values.name) {
+      errors.push('Name is required');
+    }
+    if (!existing && values.price === undefined) {
+      errors.push('Price is required for new products');
+    }
+
+    const key = existing?.id ?? name.toLowerCase();
+    if (key && seen.has(key)) {
+      errors.push('The same product appears on an earlier line');
+    }
+    seen.add(key);
+
+    // Imported attributes are merged into the ones the product already has
+    const categoryId = values.category_id ?? existing?.category_id ?? null;
+    const categoryAttributes = getCategoryAttributes(definitions, categories, categoryId);
+    const mergedAttributes = { ...toProductAttributes(existing?.attributes), ...attributes };
+
+    for (const attributeKey of Object.keys(attributes)) {
+      if (!categoryAttributes.some(definition => definition.key === attributeKey)) {
+        const label = definitions.find(definition => definition.key === attributeKey)?.label ?? attributeKey;
+        errors.push(`${label} does not apply to ${categoryId ? 'this category' : 'products without a category'}`);
+      }
+    }
+    const missing = categoryAttributes.filter(definition => definition.required && mergedAttributes[definition.key] === undefined);
+    if (missing.length > 0) {
+      errors.push(`Missing required ${missing.map(definition => definition.label).join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+      return reject(errors);
+    }
+
+    const rowValues: ImportValues = Object.keys(attributes).length > 0
+      ? { ...values, attributes: mergedAttributes }
+      : values;
+
+    if (!existing) {
+      return { line, action: 'create', name, values: { stock: 0, ...rowValues }, changes: [], errors: [] };
+    }
+
+    const changes = (Object.keys(fieldLabels) as (keyof ImportValues)[])
+      .filter(field => rowValues[field] !== undefined && rowValues[field] !== existing[field])
+      .map(field => fieldLabels[field] as string);
+    const existingAttributes = toProductAttributes(existing.attributes);
+    for (const [attributeKey, value] of Object.entries(attributes)) {
+      if (existingAttributes[attributeKey] !== value) {
+        changes.push(definitions.find(definition => definition.key === attributeKey)?.label ?? attributeKey);
+      }
+    }
+
+    return {
+      line,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      name,
+      productId: existing.id,
+      values: rowValues,
+      changes,
+      errors: [],
+    };
+  });
+};
+
+// A CSV with every importable column, to fill in
+export const getImportTemplate = (definitions: AttributeDefinitionType[]): string =>
+  toCsv([
+    getImportTargets(definitions)
+      .filter(target => target.field !== 'id')
+      .map(target => target.label),
+  ]);
@@ -0,0 +1,48 @@
+// The visitor's latest searches, newest first, kept in localStorage so the
+// search box can offer them again.
+
+const RECENT_SEARCHES_KEY = 'usha-recent-searches';
+const MAX_RECENT_SEARCHES = 5;
+
+export const getRecentSearches = (): string[] => {
+  try {
+    const stored = localStorage.getItem(RECENT_SEARCHES_KEY);
+    const searches = stored ? JSON.parse(stored) : [];
+    return Array.isArray(searches) ? searches.filter(search => typeof search === 'string') : [];
+  } catch (error) {
+    console.error('Error reading recent searches:', error);
+    return [];
+  }
+};
+
+const saveRecentSearches = (searches: string[]) => {
+  if (searches.length === 0) {
+    localStorage.removeItem(RECENT_SEARCHES_KEY);
+  } else {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+  }
+};
+
+export const addRecentSearch = (query: string): string[] => {
+  const search = query.trim();
+  if (!search) return getRecentSearches();
+
+  const updated = [
+    search,
+    ...getRecentSearches().filter(existing => existing.toLowerCase() !== search.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+
+  saveRecentSearches(updated);
+  return updated;
+};
+
+export const removeRecentSearch = (query: string): string[] => {
+  const updated = getRecentSearches().filter(existing => existing !== query);
+
+  saveRecentSearches(updated);
+  return updated;
+};
+
+export const clearRecentSearches = () => {
+  localStorage.removeItem(RECENT_SEARCHES_KEY);
+};
@@ -1,6 +1,7 @@
 
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { shippingMethods, FREE_SHIPPING_THRESHOLD, type ShippingMethod } from "@/lib/constants";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -18,6 +19,12 @@ export function calculateDiscountPrice(price: number, discount: number): number
   return price - (price * discount / 100);
 }
 
+export function calculateShippingCost(subtotal: number, method: ShippingMethod = 'standard'): number {
+  const option = shippingMethods.find(m => m.id === method) || shippingMethods[0];
+  if (option.id === 'standard' && subtotal > FREE_SHIPPING_THRESHOLD) return 0;
+  return option.cost;
+}
+
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength) + '...';
@@ -48,10 +55,25 @@ export function getStarRating(rating: number): { type: string; key: string }[] {
 export function generateSlug(text: string): string {
   return text
     .toLowerCase()
-    .replace(/[^\w ]+/g, '')
-    .replace(/ +/g, '-');
+    .replace(/[^a-z0-9_\s-]+/g, '')
+    .replace(/[\s-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function getCategoryUrl(slug: string): string {
+  return `/category/${slug}`;
+}
+
+export function getSearchUrl(query: string): string {
+  return `/search?q=${encodeURIComponent(query.trim())}`;
 }
 
-export function getCategoryUrl(category: string): string {
-  return `/category/${generateSlug(category)}`;
+// Saves generated content (an export, a template) as a file in the browser
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 }
@@ -27,6 +27,7 @@ export default function AdminDashboard() {
     totalProducts: 0,
     pendingOrders: 0,
     lowStockProducts: 0,
+    outOfStockProducts: 0,
     recentReviews: 0,
   });
   const [recentOrders, setRecentOrders] = useState<any[]>([]);
@@ -1,168 +1,59 @@
-
-import React, { useState, useEffect } from 'react';
-import { Navigate, Link } from 'react-router-dom';
+import React from 'react';
+import { format } from 'date-fns';
+import { Link, useNavigate } from 'react-router-dom';
 import MainLayout from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { formatCurrency, calculateDiscountPrice } from '@/lib/utils';
-import { supabase } from '@/integrations/supabase/client';
+import { formatCurrency, calculateShippingCost } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Trash2, ShoppingBag, ArrowRight, AlertCircle } from 'lucide-react';
-
-type CartItem = {
-  id: string;
-  quantity: number;
-  product: {
-    id: string;
-    name: string;
-    image: string | null;
-    price: number;
-    discount: number;
-    stock: number;
-  };
-};
+import { useCart } from '@/hooks/use-cart';
+import { getLineLimit, getLineStock, getLineUnitPrice } from '@/lib/api/cart';
+import { getDispatchDate, getFulfilmentModeLabel } from '@/lib/fulfilment';
+import { getVariantLabel } from '@/lib/api/products';
+import { Loader2, Trash2, ShoppingBag, ArrowRight, AlertCircle, Clock } from 'lucide-react';
 
 export default function Cart() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [updating, setUpdating] = useState(false);
-  
-  useEffect(() => {
-    if (user) {
-      fetchCart();
-    } else {
-      setLoading(false);
-    }
-  }, [user]);
-  
-  const fetchCart = async () => {
-    setLoading(true);
-    
-    try {
-      // First get the user's cart
-      const { data: cartData, error: cartError } = await supabase
-        .from('carts')
-        .select('id')
-        .eq('user_id', user?.id)
-        .single();
-      
-      if (cartError) {
-        if (cartError.code !== 'PGRST116') { // No rows found
-          console.error('Error fetching cart:', cartError);
-        }
-        setCartItems([]);
-        setLoading(false);
-        return;
-      }
-      
-      // Then get the cart items with product details
-      const { data: itemsData, error: itemsError } = await supabase
-        .from('cart_items')
-        .select(`
-          id, 
-          quantity,
-          product:product_id (
-            id,
-            name,
-            image,
-            price,
-            discount,
-            stock
-          )
-        `)
-        .eq('cart_id', cartData.id);
-      
-      if (itemsError) {
-        console.error('Error fetching cart items:', itemsError);
-        setCartItems([]);
-      } else {
-        setCartItems(itemsData || []);
-      }
-    } catch (error) {
-      console.error('Error:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const navigate = useNavigate();
+  const { items: cartItems, isLoading: loading, isUpdating: updating, updateQuantity, removeItem: removeCartLine } = useCart();
 
-  const updateItemQuantity = async (itemId: string, newQuantity: number) => {
+  const updateItemQuantity = (itemId: string, newQuantity: number) => {
     if (newQuantity < 1) return;
-    
-    setUpdating(true);
-    
-    try {
-      const { error } = await supabase
-        .from('cart_items')
-        .update({ quantity: newQuantity })
-        .eq('id', itemId);
-      
-      if (error) {
-        console.error('Error updating cart item:', error);
-        toast({
-          title: "Update failed",
-          description: "There was a problem updating your cart",
-          variant: "destructive"
-        });
-      } else {
-        // Update local state
-        setCartItems(cartItems.map(item => 
-          item.id === itemId ? { ...item, quantity: newQuantity } : item
-        ));
-      }
-    } catch (error) {
-      console.error('Error:', error);
-    } finally {
-      setUpdating(false);
-    }
+    updateQuantity(itemId, newQuantity);
   };
 
   const removeItem = async (itemId: string) => {
-    setUpdating(true);
-    
-    try {
-      const { error } = await supabase
-        .from('cart_items')
-        .delete()
-        .eq('id', itemId);
-      
-      if (error) {
-        console.error('Error removing cart item:', error);
-        toast({
-          title: "Removal failed",
-          description: "There was a problem removing the item from your cart",
-          variant: "destructive"
-        });
-      } else {
-        // Update local state
-        setCartItems(cartItems.filter(item => item.id !== itemId));
-        toast({
-          title: "Item removed",
-          description: "Item has been removed from your cart"
-        });
-      }
-    } catch (error) {
-      console.error('Error:', error);
-    } finally {
-      setUpdating(false);
+    if (await removeCartLine(itemId)) {
+      toast({
+        title: "Item removed",
+        description: "Item has been removed from your cart"
+      });
     }
   };
 
   // Calculate totals
   const subtotal = cartItems.reduce((sum, item) => {
-    const itemPrice = calculateDiscountPrice(item.product.price, item.product.discount);
+    const itemPrice = getLineUnitPrice(item);
     return sum + (itemPrice * item.quantity);
   }, 0);
   
-  const shippingCost = subtotal > 1000 ? 0 : 100;
+  const shippingCost = calculateShippingCost(subtotal);
   const total = subtotal + shippingCost;
 
-  // Redirect if not logged in
-  if (!user && !loading) {
-    return <Navigate to="/auth" />;
-  }
+  const proceedToCheckout = () => {
+    if (!user) {
+      toast({
+        title: "Sign in to checkout",
+        description: "Your cart will be saved to your account when you sign in",
+      });
+      navigate('/auth');
+      return;
+    }
+    
+    navigate('/checkout');
+  };
 
   return (
     <MainLayout>
@@ -187,8 +78,15 @@ export default function Cart() {
                 </div>
                 <div className="divide-y">
                   {cartItems.map((item) => {
-                    const itemPrice = calculateDiscountPrice(item.product.price, item.product.discount);
-                    const isOutOfStock = item.product.stock < item.quantity;
+                    const itemPrice = getLineUnitPrice(item);
+                    const limit = getLineLimit(item);
+                    const isOutOfStock = limit < item.quantity;
+                    const dispatchDate = getDispatchDate(
+                      item.quantity,
+                      getLineStock(item),
+                      item.product.fulfilment_mode,
+                      item.product.lead_time_days
+                    );
                     
                     return (
                       <div key={item.id} className="p-4 sm:p-6">
@@ -214,13 +112,18 @@ export default function Cart() {
                                     {item.product.name}
                                   </Link>
                                 </h3>
+                                {item.variant && (
+                                  <p className="text-sm text-muted-foreground">
+                                    {getVariantLabel(item.variant)}
+                                  </p>
+                                )}
                                 <div className="flex items-center mt-1">
                                   <span className="font-medium text-usha-burgundy">
                                     {formatCurrency(itemPrice)}
                                   </span>
                                   {item.product.discount > 0 && (
                                     <span className="ml-2 text-sm text-muted-foreground line-through">
-                                      {formatCurrency(item.product.price)}
+                                      {formatCurrency(item.variant?.price ?? item.product.price)}
                                     </span>
                                   )}
                                 </div>
@@ -248,7 +151,7 @@ export default function Cart() {
                                   className="w-12 h-8 mx-2 text-center"
                                   type="number"
                                   min="1"
-                                  max={item.product.stock}
+                                  max={limit}
                                   value={item.quantity}
                                   onChange={(e) => {
                                     const val = parseInt(e.target.value);
@@ -263,7 +166,7 @@ export default function Cart() {
                                   size="icon"
                                   className="h-8 w-8"
                                   onClick={() => updateItemQuantity(item.id, item.quantity + 1)}
-                                  disabled={updating || item.quantity >= item.product.stock}
+                                  disabled={updating || item.quantity >= limit}
                                 >
                                   +
                                 </Button>
@@ -284,7 +187,13 @@ export default function Cart() {
                             {isOutOfStock && (
                               <div className="mt-2 flex items-center text-sm text-red-600">
                                 <AlertCircle className="h-4 w-4 mr-1" />
-                                Only {item.product.stock} items available
+                                Only {limit} items available
+                              </div>
+                            )}
+                            {!isOutOfStock && dispatchDate && (
+                              <div className="mt-2 flex items-center text-sm text-muted-foreground">
+                                <Clock className="h-4 w-4 mr-1" />
+                                {getFulfilmentModeLabel(item.product.fulfilment_mode)}, dispatched by {format(dispatchDate, 'MMM dd, yyyy')}
                               </div>
                             )}
                           </div>
@@ -324,6 +233,8 @@ export default function Cart() {
                   </div>
                   <Button 
                     className="w-full bg-usha-burgundy hover:bg-usha-burgundy/90 mt-4"
+                    onClick={proceedToCheckout}
+                    disabled={updating || cartItems.some(item => getLineLimit(item) < item.quantity)}
                   >
                     Proceed to Checkout
                     <ArrowRight className="ml-2 h-4 w-4" />
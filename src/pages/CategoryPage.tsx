@@ -1,13 +1,11 @@
-
-import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { useParams, Link, Navigate } from 'react-router-dom';
 import { Slider } from "@/components/ui/slider"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Checkbox } from "@/components/ui/checkbox"
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { AspectRatio } from "@/components/ui/aspect-ratio"
 import { Badge } from "@/components/ui/badge"
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination"
@@ -17,70 +15,93 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { ChevronDown, ChevronsUpDown } from "lucide-react"
+import { ChevronDown, Loader2 } from "lucide-react"
 import MainLayout from '@/components/layout/MainLayout';
-import { mockProducts } from '@/lib/constants';
+import ResponsiveImage from '@/components/products/ResponsiveImage';
+import { useAttributeDefinitions, useCategories, useCategory, useCatalogFacets, useCategoryProducts } from '@/hooks/use-catalog';
+import { useDocumentMeta } from '@/hooks/use-document-meta';
+import { AttributeDefinitionType } from '@/lib/api/attributes';
+import { CATALOG_PAGE_SIZE, CatalogSort, catalogSorts } from '@/lib/api/catalog';
+import { canBackorder, getFulfilmentModeLabel } from '@/lib/fulfilment';
+import { toImageSources } from '@/lib/imagePipeline';
+import { getCategoryPath, getDescendantIds } from '@/lib/categoryTree';
+import { formatCurrency, calculateDiscountPrice, getCategoryUrl } from '@/lib/utils';
+
+// Select values in the order the attribute lists its options, "Yes" before "No"
+const sortAttributeValues = (definition: AttributeDefinitionType, values: string[]) => {
+  const order = definition.type === 'boolean' ? ['true', 'false'] : definition.options;
+  const position = (value: string) => (order.includes(value) ? order.indexOf(value) : order.length);
+  return [...values].sort((a, b) => position(a) - position(b) || a.localeCompare(b));
+};
 
 const CategoryPage = () => {
   const { category } = useParams<{ category: string }>();
-  const [products, setProducts] = useState(mockProducts);
-  const [filteredProducts, setFilteredProducts] = useState(mockProducts);
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc' | 'default'>('default');
-  
-  // Define available sizes manually since the mock data doesn't have sizes
-  const [availableSizes] = useState(['S', 'M', 'L', 'XL', 'XXL']);
+  const [sortOrder, setSortOrder] = useState<CatalogSort>('newest');
   const [selectedSizes, setSelectedSizes] = useState<string[]>([]);
-  const [priceRange, setPriceRange] = useState<number>(0);
+  const [selectedColors, setSelectedColors] = useState<string[]>([]);
+  const [selectedAttributes, setSelectedAttributes] = useState<Record<string, string[]>>({});
+  const [inStockOnly, setInStockOnly] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
-  const productsPerPage = 12;
 
-  // Define colors from the products' colors arrays
-  const [availableColors] = useState(Array.from(new Set(mockProducts.flatMap(product => product.colors))));
-  const [selectedColors, setSelectedColors] = useState<string[]>([]);
+  // The slider and inputs edit `priceDraft`; the query only follows `priceFilterRange`,
+  // which is committed when the slider is released or an input loses focus
+  const [priceDraft, setPriceDraft] = useState<number[] | null>(null);
+  const [priceFilterRange, setPriceFilterRange] = useState<number[] | null>(null);
+
+  const categoryQuery = useCategory(category);
+  const categoriesQuery = useCategories();
+  const categoryId = categoryQuery.data?.id;
+  const allCategories = categoriesQuery.data;
+
+  // A parent category lists the products of all its subcategories too
+  const categoryIds = categoryId && allCategories ? getDescendantIds(allCategories, categoryId) : undefined;
+  const subcategories = allCategories?.filter(c => categoryId && c.parent_id === categoryId) ?? [];
+  const breadcrumbs = categoryId && allCategories ? getCategoryPath(allCategories, categoryId).slice(0, -1) : [];
+
+  useDocumentMeta(
+    categoryQuery.data && (categoryQuery.data.meta_title || `${categoryQuery.data.name} | Usha Designs`),
+    categoryQuery.data && (categoryQuery.data.meta_description || categoryQuery.data.description)
+  );
+  const facetsQuery = useCatalogFacets(categoryIds);
+  const facets = facetsQuery.data;
+  const { data: attributeDefinitions = [] } = useAttributeDefinitions();
+
+  // Filterable attributes some product here has a value for, with those values
+  // in the attribute's own order
+  const attributeFacets = attributeDefinitions
+    .filter(definition => definition.filterable && facets?.attributes[definition.key]?.length)
+    .map(definition => ({ definition, values: sortAttributeValues(definition, facets!.attributes[definition.key]) }));
+
+  const filters = {
+    minPrice: priceFilterRange?.[0],
+    maxPrice: priceFilterRange?.[1],
+    colors: selectedColors,
+    sizes: selectedSizes,
+    attributes: selectedAttributes,
+    inStock: inStockOnly,
+    sort: sortOrder,
+  };
+  const productsQuery = useCategoryProducts(categoryIds, filters, currentPage);
 
-  const [minPrice, setMinPrice] = useState(Math.min(...mockProducts.map(product => product.price)));
-  const [maxPrice, setMaxPrice] = useState(Math.max(...mockProducts.map(product => product.price)));
-  const [priceFilterRange, setPriceFilterRange] = useState([minPrice, maxPrice]);
+  const products = productsQuery.data?.products ?? [];
+  const total = productsQuery.data?.total ?? 0;
+  const pageCount = Math.ceil(total / CATALOG_PAGE_SIZE);
 
+  // Start over when moving to another category
   useEffect(() => {
-    if (category) {
-      const categoryProducts = mockProducts.filter(product =>
-        product.category.toLowerCase() === category.toLowerCase()
-      );
-      setProducts(categoryProducts);
-      setFilteredProducts(categoryProducts);
-      setMinPrice(Math.min(...categoryProducts.map(product => product.price)));
-      setMaxPrice(Math.max(...categoryProducts.map(product => product.price)));
-      setPriceFilterRange([Math.min(...categoryProducts.map(product => product.price)), Math.max(...categoryProducts.map(product => product.price))]);
-    } else {
-      setProducts(mockProducts);
-      setFilteredProducts(mockProducts);
-      setMinPrice(Math.min(...mockProducts.map(product => product.price)));
-      setMaxPrice(Math.max(...mockProducts.map(product => product.price)));
-      setPriceFilterRange([Math.min(...mockProducts.map(product => product.price)), Math.max(...mockProducts.map(product => product.price))]);
-    }
-    setCurrentPage(1); // Reset to first page when category changes
+    setSelectedSizes([]);
+    setSelectedColors([]);
+    setSelectedAttributes({});
+    setInStockOnly(false);
+    setPriceDraft(null);
+    setPriceFilterRange(null);
+    setCurrentPage(1);
   }, [category]);
 
-  // Sorting function
-  const sortProducts = useCallback((productsToSort: any[]) => {
-    let sortedProducts = [...productsToSort];
-    switch (sortOrder) {
-      case 'asc':
-        sortedProducts.sort((a, b) => a.price - b.price);
-        break;
-      case 'desc':
-        sortedProducts.sort((a, b) => b.price - a.price);
-        break;
-      default:
-        // Default sorting: reset to original order
-        sortedProducts = category ? mockProducts.filter(product =>
-          product.category.toLowerCase() === category.toLowerCase()
-        ) : mockProducts;
-        break;
-    }
-    return sortedProducts;
-  }, [sortOrder, category]);
+  // Reset to first page when filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [selectedSizes, selectedColors, selectedAttributes, inStockOnly, priceFilterRange, sortOrder]);
 
   // Size filtering
   const handleSizeChange = (size: string) => {
@@ -96,48 +117,66 @@ const CategoryPage = () => {
     );
   };
 
+  // Attribute filtering
+  const handleAttributeChange = (key: string, value: string) => {
+    setSelectedAttributes(prevAttributes => {
+      const selected = prevAttributes[key] ?? [];
+      return {
+        ...prevAttributes,
+        [key]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value],
+      };
+    });
+  };
+
   // Price filtering
+  const minPrice = facets?.minPrice ?? 0;
+  const maxPrice = facets?.maxPrice ?? 0;
+  const priceRange = priceDraft ?? priceFilterRange ?? [minPrice, maxPrice];
+
   const handlePriceChange = (value: number[]) => {
-    setPriceFilterRange(value);
+    setPriceDraft(value);
   };
 
-  useEffect(() => {
-    // Apply filters
-    let newFilteredProducts = [...products];
-
-    // Filter by size (if we had size data in the products)
-    if (selectedSizes.length > 0) {
-      // Since our mock data doesn't have size information, this is a placeholder
-      // In a real app, you would filter based on actual product sizes
-      // newFilteredProducts = newFilteredProducts.filter(product =>
-      //   product.sizes.some(size => selectedSizes.includes(size))
-      // );
-    }
-
-    // Filter by color
-    if (selectedColors.length > 0) {
-      newFilteredProducts = newFilteredProducts.filter(product =>
-        product.colors.some(color => selectedColors.includes(color))
-      );
-    }
-
-    // Filter by price
-    newFilteredProducts = newFilteredProducts.filter(product =>
-      product.price >= priceFilterRange[0] && product.price <= priceFilterRange[1]
-    );
+  const commitPriceRange = () => {
+    if (!priceDraft) return;
+    const [low, high] = priceDraft;
+    // A range covering everything is no filter at all
+    setPriceFilterRange(low <= minPrice && high >= maxPrice ? null : [Math.min(low, high), Math.max(low, high)]);
+    setPriceDraft(null);
+  };
+
+  const sortLabel = catalogSorts.find(sort => sort.id === sortOrder)?.label;
 
-    // Sort products
-    newFilteredProducts = sortProducts(newFilteredProducts);
+  if (categoryQuery.isLoading) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto py-16 flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-usha-burgundy" />
+        </div>
+      </MainLayout>
+    );
+  }
 
-    setFilteredProducts(newFilteredProducts);
-    setCurrentPage(1); // Reset to first page when filters change
-  }, [selectedSizes, selectedColors, priceFilterRange, products, sortProducts]);
+  // Old slugs of a renamed category point at its current URL
+  if (categoryQuery.data && categoryQuery.data.slug !== category) {
+    return <Navigate to={getCategoryUrl(categoryQuery.data.slug)} replace />;
+  }
 
-  const pageCount = Math.ceil(filteredProducts.length / productsPerPage);
-  const paginatedProducts = filteredProducts.slice(
-    (currentPage - 1) * productsPerPage,
-    currentPage * productsPerPage
-  );
+  if (!categoryQuery.data) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto py-16 text-center">
+          <h1 className="text-2xl font-bold mb-2">Category not found</h1>
+          <p className="text-muted-foreground mb-6">
+            {categoryQuery.isError ? 'We could not load this category. Please try again.' : 'This category does not exist.'}
+          </p>
+          <Button asChild>
+            <Link to="/">Continue Shopping</Link>
+          </Button>
+        </div>
+      </MainLayout>
+    );
+  }
 
   return (
     <MainLayout>
@@ -154,28 +193,49 @@ const CategoryPage = () => {
                 <div className="flex items-center space-x-2">
                   <Input
                     type="number"
-                    value={priceFilterRange[0]}
-                    onChange={(e) => handlePriceChange([Number(e.target.value), priceFilterRange[1]])}
+                    value={priceRange[0]}
+                    onChange={(e) => handlePriceChange([Number(e.target.value), priceRange[1]])}
+                    onBlur={commitPriceRange}
                     className="w-24"
                   />
                   <span>-</span>
                   <Input
                     type="number"
-                    value={priceFilterRange[1]}
-                    onChange={(e) => handlePriceChange([priceFilterRange[0], Number(e.target.value)])}
+                    value={priceRange[1]}
+                    onChange={(e) => handlePriceChange([priceRange[0], Number(e.target.value)])}
+                    onBlur={commitPriceRange}
                     className="w-24"
                   />
                 </div>
                 <Slider
-                  value={priceFilterRange}
+                  value={priceRange}
                   min={minPrice}
                   max={maxPrice}
                   step={100}
                   onValueChange={handlePriceChange}
+                  onValueCommit={commitPriceRange}
+                  disabled={minPrice === maxPrice}
+                  className="mt-4"
                 />
               </CardContent>
             </Card>
 
+            <Card className="mt-4">
+              <CardContent className="pt-6">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="in-stock"
+                    checked={inStockOnly}
+                    onCheckedChange={(checked) => setInStockOnly(checked === true)}
+                  />
+                  <label htmlFor="in-stock" className="text-sm font-medium leading-none">
+                    In stock only
+                  </label>
+                </div>
+              </CardContent>
+            </Card>
+
+            {facets && facets.sizes.length > 0 && (
             <Card className="mt-4">
               <CardHeader>
                 <CardTitle>Filter by Size</CardTitle>
@@ -183,7 +243,7 @@ const CategoryPage = () => {
               </CardHeader>
               <CardContent>
                 <div className="flex flex-col space-y-1">
-                  {availableSizes.map(size => (
+                  {facets.sizes.map(size => (
                     <div key={size} className="flex items-center space-x-2">
                       <Checkbox
                         id={`size-${size}`}
@@ -201,7 +261,36 @@ const CategoryPage = () => {
                 </div>
               </CardContent>
             </Card>
+            )}
+
+            {attributeFacets.map(({ definition, values }) => (
+            <Card key={definition.key} className="mt-4">
+              <CardHeader>
+                <CardTitle>{definition.label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col space-y-1">
+                  {values.map(value => (
+                    <div key={value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${definition.key}-${value}`}
+                        checked={selectedAttributes[definition.key]?.includes(value) ?? false}
+                        onCheckedChange={() => handleAttributeChange(definition.key, value)}
+                      />
+                      <label
+                        htmlFor={`${definition.key}-${value}`}
+                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                      >
+                        {definition.type === 'boolean' ? (value === 'true' ? 'Yes' : 'No') : value}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+            ))}
 
+            {facets && facets.colors.length > 0 && (
             <Card className="mt-4">
               <CardHeader>
                 <CardTitle>Filter by Color</CardTitle>
@@ -209,7 +298,7 @@ const CategoryPage = () => {
               </CardHeader>
               <CardContent>
                 <div className="flex flex-col space-y-1">
-                  {availableColors.map(color => (
+                  {facets.colors.map(color => (
                     <div key={color} className="flex items-center space-x-2">
                       <Checkbox
                         id={`color-${color}`}
@@ -227,48 +316,96 @@ const CategoryPage = () => {
                 </div>
               </CardContent>
             </Card>
+            )}
           </ScrollArea>
         </aside>
 
         {/* Product Listing Section */}
         <section className="flex-1">
+          {categoryQuery.data.banner_image && (
+            <img
+              src={categoryQuery.data.banner_image}
+              alt={categoryQuery.data.name}
+              className="w-full h-48 md:h-64 object-cover rounded-md mb-6"
+            />
+          )}
+          {breadcrumbs.length > 0 && (
+            <nav className="text-sm text-muted-foreground mb-2">
+              {breadcrumbs.map(ancestor => (
+                <span key={ancestor.id}>
+                  <Link to={getCategoryUrl(ancestor.slug)} className="hover:text-usha-burgundy">
+                    {ancestor.name}
+                  </Link>
+                  <span className="mx-2">/</span>
+                </span>
+              ))}
+            </nav>
+          )}
+          {categoryQuery.data.description && (
+            <p className="text-muted-foreground mb-6">{categoryQuery.data.description}</p>
+          )}
+          {subcategories.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {subcategories.map(subcategory => (
+                <Button key={subcategory.id} asChild variant="outline" size="sm">
+                  <Link to={getCategoryUrl(subcategory.slug)}>{subcategory.name}</Link>
+                </Button>
+              ))}
+            </div>
+          )}
+
           <div className="flex justify-between items-center mb-4">
-            <h1 className="text-2xl font-bold">{category ? category : 'All Products'}</h1>
+            <div>
+              <h1 className="text-2xl font-bold">{categoryQuery.data.name}</h1>
+              <p className="text-sm text-muted-foreground">
+                {total} {total === 1 ? 'product' : 'products'}
+              </p>
+            </div>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" className="ml-auto">
-                  Sort by Price
+                  Sort: {sortLabel}
                   <ChevronDown className="ml-2 h-4 w-4" />
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => setSortOrder('default')}>
-                  <ChevronsUpDown className="mr-2 h-4 w-4" />
-                  Default
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setSortOrder('asc')}>
-                  <ChevronDown className="mr-2 h-4 w-4" />
-                  Price: Low to High
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setSortOrder('desc')}>
-                  <ChevronDown className="mr-2 h-4 w-4 rotate-180" />
-                  Price: High to Low
-                </DropdownMenuItem>
+                {catalogSorts.map(sort => (
+                  <DropdownMenuItem key={sort.id} onClick={() => setSortOrder(sort.id)}>
+                    {sort.label}
+                  </DropdownMenuItem>
+                ))}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
 
+          {productsQuery.isError && (
+            <p className="text-center text-red-500 py-8">Failed to load products. Please try again.</p>
+          )}
+
+          {!productsQuery.isPending && !productsQuery.isError && products.length === 0 && (
+            <p className="text-center text-muted-foreground py-16">No products match these filters.</p>
+          )}
+
+          {productsQuery.isPending && (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-usha-burgundy" />
+            </div>
+          )}
+
           {/* Product Grid */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-            {paginatedProducts.map(product => (
+          <div className={`grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 ${productsQuery.isPlaceholderData ? 'opacity-60' : ''}`}>
+            {products.map(product => (
               <Link to={`/product/${product.id}`} key={product.id} className="group">
                 <Card className="h-full flex flex-col">
                   <CardHeader className="p-0">
                     <AspectRatio ratio={4 / 3}>
-                      <img
-                        src={product.image}
+                      <ResponsiveImage
+                        src={product.image || "/placeholder.svg"}
+                        sources={toImageSources(product.image_sources)}
+                        sizes="(min-width: 1024px) 20vw, (min-width: 640px) 50vw, 100vw"
                         alt={product.name}
                         className="object-cover rounded-md aspect-video"
+                        loading="lazy"
                       />
                     </AspectRatio>
                   </CardHeader>
@@ -277,9 +414,17 @@ const CategoryPage = () => {
                       {product.name}
                     </CardTitle>
                     <CardDescription>
-                      ₹{product.price.toLocaleString('en-IN')}
+                      {formatCurrency(product.discount ? calculateDiscountPrice(product.price, product.discount) : product.price)}
+                      {!!product.discount && (
+                        <span className="ml-2 line-through">{formatCurrency(product.price)}</span>
+                      )}
                     </CardDescription>
-                    {product.discount && (
+                    {product.stock === 0 && (
+                      <Badge variant="outline">
+                        {canBackorder(product.fulfilment_mode) ? getFulfilmentModeLabel(product.fulfilment_mode) : 'Out of stock'}
+                      </Badge>
+                    )}
+                    {!!product.discount && (
                       <Badge variant="secondary">
                         {product.discount}% off
                       </Badge>
@@ -291,7 +436,7 @@ const CategoryPage = () => {
           </div>
 
           {/* Pagination */}
-          {filteredProducts.length > 0 && (
+          {pageCount > 1 && (
             <div className="flex justify-center mt-8">
               <Pagination>
                 <PaginationContent>
@@ -306,9 +451,10 @@ const CategoryPage = () => {
                   </PaginationItem>
                   {/* Display up to 5 page numbers */}
                   {Array.from({ length: Math.min(5, pageCount) }, (_, i) => {
-                    const pageNumber = Math.max(1, Math.min(currentPage - 2 + i, pageCount));
+                    const firstPage = Math.max(1, Math.min(currentPage - 2, pageCount - 4));
+                    const pageNumber = firstPage + i;
                     return (
-                      <PaginationItem key={pageNumber} hidden={pageNumber > pageCount}>
+                      <PaginationItem key={pageNumber}>
                         <PaginationLink
                           onClick={(e) => {
                             e.preventDefault();
@@ -0,0 +1,468 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Link, useNavigate } from 'react-router-dom';
+import MainLayout from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { formatCurrency, calculateShippingCost } from '@/lib/utils';
+import { shippingMethods, ShippingMethod, paymentMethods, PaymentMethod } from '@/lib/constants';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCart } from '@/hooks/use-cart';
+import { payForOrder } from '@/lib/api/payments';
+import { CheckoutItem, OutOfStockLine, ShippingAddress, checkCodEligibility, fetchCheckoutItems, getCheckoutItemDispatchDate, getCheckoutItemPrice, getCheckoutTotals, getExpectedDispatchDate, placeOrder } from '@/lib/api/orders';
+import { getFulfilmentModeLabel } from '@/lib/fulfilment';
+import { getVariantLabel } from '@/lib/api/products';
+import { Loader2, AlertCircle, MapPin, Truck, Wallet, ClipboardCheck, ArrowLeft, ArrowRight, ShoppingBag, Clock } from 'lucide-react';
+
+type CheckoutStep = 'address' | 'shipping' | 'payment' | 'review';
+
+const steps: { id: CheckoutStep; label: string; icon: React.ElementType }[] = [
+  { id: 'address', label: 'Address', icon: MapPin },
+  { id: 'shipping', label: 'Shipping', icon: Truck },
+  { id: 'payment', label: 'Payment', icon: Wallet },
+  { id: 'review', label: 'Review', icon: ClipboardCheck },
+];
+
+const emptyAddress: ShippingAddress = {
+  full_name: '',
+  phone: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  postal_code: '',
+};
+
+export default function Checkout() {
+  const { user } = useAuth();
+  const { refresh: refreshCart } = useCart();
+  const navigate = useNavigate();
+  const [step, setStep] = useState<CheckoutStep>('address');
+  const [items, setItems] = useState<CheckoutItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [placing, setPlacing] = useState(false);
+  const [address, setAddress] = useState<ShippingAddress>(emptyAddress);
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>('standard');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('online');
+  const [codEligibility, setCodEligibility] = useState<{ eligible: boolean; reason: string | null } | null>(null);
+  const [outOfStock, setOutOfStock] = useState<OutOfStockLine[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadCart = async () => {
+      setLoading(true);
+      const { items } = await fetchCheckoutItems(user.id);
+      setItems(items);
+      setLoading(false);
+    };
+
+    setAddress(prev => ({
+      ...prev,
+      full_name: prev.full_name || [user.user_metadata?.first_name, user.user_metadata?.last_name].filter(Boolean).join(' '),
+    }));
+    loadCart();
+  }, [user]);
+
+  const { subtotal, shippingCost, total } = getCheckoutTotals(items, shippingMethod);
+  const expectedDispatchDate = getExpectedDispatchDate(items);
+
+  const handleAddressChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setAddress(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddressSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setStep('shipping');
+  };
+
+  const goToPaymentStep = async () => {
+    setStep('payment');
+    setCodEligibility(null);
+
+    const eligibility = await checkCodEligibility(address.postal_code);
+    setCodEligibility(eligibility);
+    if (!eligibility.eligible) {
+      setPaymentMethod('online');
+    }
+  };
+
+  const handlePlaceOrder = async () => {
+    if (!user) return;
+
+    setPlacing(true);
+    const { orderId, outOfStock } = await placeOrder(address, shippingMethod, paymentMethod);
+    setOutOfStock(outOfStock);
+
+    if (orderId) {
+      // place_order empties the cart on the server
+      refreshCart();
+      if (paymentMethod === 'online') {
+        await payForOrder(orderId, { name: address.full_name, contact: address.phone, email: user.email });
+      }
+      navigate(`/order-confirmation/${orderId}`);
+    }
+    setPlacing(false);
+  };
+
+  const currentStepIndex = steps.findIndex(s => s.id === step);
+
+  return (
+    <MainLayout requireAuth>
+      <div className="container py-8 md:py-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-serif font-medium text-gray-800">Checkout</h1>
+          <p className="text-muted-foreground mt-2">Complete your order in a few simple steps</p>
+        </div>
+
+        {/* Step indicator */}
+        <div className="flex items-center mb-8">
+          {steps.map((s, index) => {
+            const Icon = s.icon;
+            const isActive = index === currentStepIndex;
+            const isDone = index < currentStepIndex;
+
+            return (
+              <React.Fragment key={s.id}>
+                <div className={`flex items-center ${isActive || isDone ? 'text-usha-burgundy' : 'text-muted-foreground'}`}>
+                  <div className={`h-8 w-8 rounded-full border-2 flex items-center justify-center ${
+                    isActive || isDone ? 'border-usha-burgundy' : 'border-muted'
+                  } ${isDone ? 'bg-usha-burgundy text-white' : ''}`}>
+                    <Icon className="h-4 w-4" />
+                  </div>
+                  <span className="ml-2 text-sm font-medium hidden sm:inline">{s.label}</span>
+                </div>
+                {index < steps.length - 1 && (
+                  <div className={`flex-1 h-px mx-4 ${isDone ? 'bg-usha-burgundy' : 'bg-muted'}`} />
+                )}
+              </React.Fragment>
+            );
+          })}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-usha-burgundy" />
+            <span className="ml-2">Loading your cart...</span>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="bg-white rounded-lg border p-6 flex flex-col items-center justify-center py-16">
+            <div className="h-24 w-24 rounded-full bg-muted flex items-center justify-center mb-6">
+              <ShoppingBag className="h-12 w-12 text-muted-foreground" />
+            </div>
+            <h2 className="text-2xl font-medium mb-2">Your cart is empty</h2>
+            <p className="text-muted-foreground mb-8 text-center max-w-md">
+              Add some items to your cart before checking out.
+            </p>
+            <Button asChild className="bg-usha-burgundy hover:bg-usha-burgundy/90">
+              <Link to="/">Continue Shopping</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2">
+              {step === 'address' && (
+                <form onSubmit={handleAddressSubmit} className="bg-white rounded-lg border">
+                  <div className="p-6 border-b">
+                    <h2 className="text-xl font-medium">Shipping Address</h2>
+                  </div>
+                  <div className="p-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="full_name">Full Name</Label>
+                        <Input id="full_name" name="full_name" value={address.full_name} onChange={handleAddressChange} required />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="phone">Phone</Label>
+                        <Input id="phone" name="phone" type="tel" value={address.phone} onChange={handleAddressChange} required />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="line1">Address Line 1</Label>
+                      <Input id="line1" name="line1" value={address.line1} onChange={handleAddressChange} required />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="line2">Address Line 2 (optional)</Label>
+                      <Input id="line2" name="line2" value={address.line2} onChange={handleAddressChange} />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="city">City</Label>
+                        <Input id="city" name="city" value={address.city} onChange={handleAddressChange} required />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="state">State</Label>
+                        <Input id="state" name="state" value={address.state} onChange={handleAddressChange} required />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="postal_code">PIN Code</Label>
+                        <Input
+                          id="postal_code"
+                          name="postal_code"
+                          inputMode="numeric"
+                          pattern="[0-9]{6}"
+                          title="Enter a 6 digit PIN code"
+                          value={address.postal_code}
+                          onChange={handleAddressChange}
+                          required
+                        />
+                      </div>
+                    </div>
+                  </div>
+                  <div className="p-6 border-t flex justify-between">
+                    <Button type="button" variant="outline" onClick={() => navigate('/cart')}>
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      Back to Cart
+                    </Button>
+                    <Button type="submit" className="bg-usha-burgundy hover:bg-usha-burgundy/90">
+                      Continue
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {step === 'shipping' && (
+                <div className="bg-white rounded-lg border">
+                  <div className="p-6 border-b">
+                    <h2 className="text-xl font-medium">Shipping Method</h2>
+                  </div>
+                  <div className="p-6">
+                    <RadioGroup
+                      value={shippingMethod}
+                      onValueChange={(value) => setShippingMethod(value as ShippingMethod)}
+                      className="space-y-3"
+                    >
+                      {shippingMethods.map(method => (
+                        <Label
+                          key={method.id}
+                          htmlFor={`shipping-${method.id}`}
+                          className="flex items-center justify-between border rounded-md p-4 cursor-pointer"
+                        >
+                          <div className="flex items-center space-x-3">
+                            <RadioGroupItem value={method.id} id={`shipping-${method.id}`} />
+                            <div>
+                              <p className="font-medium">{method.name}</p>
+                              <p className="text-sm text-muted-foreground font-normal">{method.description}</p>
+                            </div>
+                          </div>
+                          <span className="font-medium">
+                            {calculateShippingCost(subtotal, method.id) === 0
+                              ? 'Free'
+                              : formatCurrency(calculateShippingCost(subtotal, method.id))}
+                          </span>
+                        </Label>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                  <div className="p-6 border-t flex justify-between">
+                    <Button variant="outline" onClick={() => setStep('address')}>
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      Back
+                    </Button>
+                    <Button className="bg-usha-burgundy hover:bg-usha-burgundy/90" onClick={goToPaymentStep}>
+                      Continue
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {step === 'payment' && (
+                <div className="bg-white rounded-lg border">
+                  <div className="p-6 border-b">
+                    <h2 className="text-xl font-medium">Payment Method</h2>
+                  </div>
+                  <div className="p-6">
+                    <RadioGroup
+                      value={paymentMethod}
+                      onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                      className="space-y-3"
+                    >
+                      {paymentMethods.map(method => {
+                        const onDelivery = method.id !== 'online';
+                        const disabled = onDelivery && !codEligibility?.eligible;
+
+                        return (
+                          <Label
+                            key={method.id}
+                            htmlFor={`payment-${method.id}`}
+                            className={`flex items-center border rounded-md p-4 ${disabled ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}
+                          >
+                            <RadioGroupItem value={method.id} id={`payment-${method.id}`} disabled={disabled} />
+                            <div className="ml-3">
+                              <p className="font-medium">{method.name}</p>
+                              <p className="text-sm text-muted-foreground font-normal">{method.description}</p>
+                              {onDelivery && codEligibility && !codEligibility.eligible && (
+                                <p className="text-sm text-red-600 font-normal mt-1">{codEligibility.reason}</p>
+                              )}
+                            </div>
+                            {onDelivery && !codEligibility && (
+                              <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />
+                            )}
+                          </Label>
+                        );
+                      })}
+                    </RadioGroup>
+                  </div>
+                  <div className="p-6 border-t flex justify-between">
+                    <Button variant="outline" onClick={() => setStep('shipping')}>
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      Back
+                    </Button>
+                    <Button className="bg-usha-burgundy hover:bg-usha-burgundy/90" onClick={() => setStep('review')}>
+                      Continue
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {step === 'review' && (
+                <div className="bg-white rounded-lg border">
+                  <div className="p-6 border-b">
+                    <h2 className="text-xl font-medium">Review Your Order</h2>
+                  </div>
+                  <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6 border-b">
+                    <div>
+                      <div className="flex justify-between items-center mb-2">
+                        <h3 className="font-medium">Shipping To</h3>
+                        <Button variant="link" className="h-auto p-0 text-usha-burgundy" onClick={() => setStep('address')}>
+                          Edit
+                        </Button>
+                      </div>
+                      <p>{address.full_name}</p>
+                      <p className="text-sm">{address.line1}</p>
+                      {address.line2 && <p className="text-sm">{address.line2}</p>}
+                      <p className="text-sm">{address.city}, {address.state} {address.postal_code}</p>
+                      <p className="text-sm text-muted-foreground">{address.phone}</p>
+                    </div>
+                    <div>
+                      <div className="flex justify-between items-center mb-2">
+                        <h3 className="font-medium">Delivery</h3>
+                        <Button variant="link" className="h-auto p-0 text-usha-burgundy" onClick={() => setStep('shipping')}>
+                          Edit
+                        </Button>
+                      </div>
+                      <p>{shippingMethods.find(m => m.id === shippingMethod)?.name}</p>
+                      <div className="flex justify-between items-center mt-4 mb-2">
+                        <h3 className="font-medium">Payment</h3>
+                        <Button variant="link" className="h-auto p-0 text-usha-burgundy" onClick={() => setStep('payment')}>
+                          Edit
+                        </Button>
+                      </div>
+                      <p>{paymentMethods.find(m => m.id === paymentMethod)?.name}</p>
+                    </div>
+                  </div>
+                  <div className="divide-y">
+                    {items.map(item => {
+                      const itemPrice = getCheckoutItemPrice(item);
+                      const shortLine = outOfStock.find(line =>
+                        line.product_id === item.product.id && line.variant_id === (item.variant?.id ?? null)
+                      );
+                      const dispatchDate = getCheckoutItemDispatchDate(item);
+
+                      return (
+                        <div key={item.id} className="p-4 sm:px-6 flex items-center">
+                          <div className="h-16 w-16 flex-shrink-0 bg-white border rounded flex items-center justify-center">
+                            <img
+                              src={item.product.image || "/placeholder.svg"}
+                              alt={item.product.name}
+                              className="max-h-14 max-w-14 object-contain"
+                            />
+                          </div>
+                          <div className="ml-4 flex-1">
+                            <p className="font-medium">{item.product.name}</p>
+                            {item.variant && (
+                              <p className="text-sm text-muted-foreground">{getVariantLabel(item.variant)}</p>
+                            )}
+                            <p className="text-sm text-muted-foreground">
+                              {formatCurrency(itemPrice)} × {item.quantity}
+                            </p>
+                            {shortLine && (
+                              <p className="mt-1 flex items-center text-sm text-red-600">
+                                <AlertCircle className="h-4 w-4 mr-1" />
+                                {shortLine.available > 0
+                                  ? `Only ${shortLine.available} left in stock`
+                                  : 'Out of stock'}
+                              </p>
+                            )}
+                            {!shortLine && dispatchDate && (
+                              <p className="mt-1 flex items-center text-sm text-muted-foreground">
+                                <Clock className="h-4 w-4 mr-1" />
+                                {getFulfilmentModeLabel(item.product.fulfilment_mode)}, dispatched by {format(dispatchDate, 'MMM dd, yyyy')}
+                              </p>
+                            )}
+                          </div>
+                          <span className="font-medium">{formatCurrency(itemPrice * item.quantity)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="p-6 border-t flex justify-between">
+                    <Button
+                      variant="outline"
+                      onClick={() => outOfStock.length > 0 ? navigate('/cart') : setStep('payment')}
+                      disabled={placing}
+                    >
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      {outOfStock.length > 0 ? 'Update Cart' : 'Back'}
+                    </Button>
+                    <Button
+                      className="bg-usha-burgundy hover:bg-usha-burgundy/90"
+                      onClick={handlePlaceOrder}
+                      disabled={placing || outOfStock.length > 0}
+                    >
+                      {placing ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Placing Order...
+                        </>
+                      ) : (
+                        paymentMethod === 'online' ? `Place Order & Pay ${formatCurrency(total)}` : 'Place Order'
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Order summary */}
+            <div>
+              <div className="bg-white rounded-lg border sticky top-8">
+                <div className="p-6 border-b">
+                  <h2 className="text-xl font-medium">Order Summary</h2>
+                </div>
+                <div className="p-6 space-y-4">
+                  <div className="flex justify-between">
+                    <span>Items ({items.reduce((sum, item) => sum + item.quantity, 0)})</span>
+                    <span className="font-medium">{formatCurrency(subtotal)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Shipping</span>
+                    <span className="font-medium">
+                      {shippingCost === 0 ? 'Free' : formatCurrency(shippingCost)}
+                    </span>
+                  </div>
+                  <div className="border-t pt-4 flex justify-between font-medium text-lg">
+                    <span>Total</span>
+                    <span className="text-usha-burgundy">{formatCurrency(total)}</span>
+                  </div>
+                  {expectedDispatchDate && (
+                    <p className="flex items-start text-sm text-muted-foreground">
+                      <Clock className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                      Some items are made to order or on pre-order. Your order is expected to be dispatched by {format(expectedDispatchDate, 'MMM dd, yyyy')}.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
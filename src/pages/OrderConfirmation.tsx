@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import MainLayout from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { formatCurrency } from '@/lib/utils';
+import { shippingMethods, paymentMethods } from '@/lib/constants';
+import { OrderWithItems, fetchOrder } from '@/lib/api/orders';
+import { payForOrder } from '@/lib/api/payments';
+import { getVariantLabel } from '@/lib/api/products';
+import { useAuth } from '@/contexts/AuthContext';
+import { CheckCircle2, Clock, CreditCard, Loader2 } from 'lucide-react';
+
+export default function OrderConfirmation() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [order, setOrder] = useState<OrderWithItems | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadOrder = async () => {
+      setLoading(true);
+      setOrder(await fetchOrder(id));
+      setLoading(false);
+    };
+
+    loadOrder();
+  }, [id]);
+
+  const handlePayNow = async () => {
+    if (!order) return;
+
+    setPaying(true);
+    const paid = await payForOrder(order.id, {
+      name: order.shipping_address?.full_name,
+      contact: order.shipping_address?.phone,
+      email: user?.email,
+    });
+    if (paid) {
+      setOrder(await fetchOrder(order.id));
+    }
+    setPaying(false);
+  };
+
+  if (loading) {
+    return (
+      <MainLayout requireAuth>
+        <div className="container py-12 flex items-center justify-center min-h-[60vh]">
+          <Loader2 className="h-12 w-12 animate-spin text-usha-burgundy" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!order) {
+    return (
+      <MainLayout requireAuth>
+        <div className="container py-12 flex flex-col items-center justify-center min-h-[60vh]">
+          <h1 className="text-2xl font-medium mb-4">Order not found</h1>
+          <Button asChild className="bg-usha-burgundy hover:bg-usha-burgundy/90">
+            <Link to="/account">View My Orders</Link>
+          </Button>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const address = order.shipping_address;
+  const itemsTotal = order.order_items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const shippingMethod = shippingMethods.find(m => m.id === address?.shipping_method);
+  const paymentMethod = paymentMethods.find(m => m.id === order.payment_method);
+  const awaitingPayment = order.status === 'pending' && order.payment_method === 'online';
+
+  return (
+    <MainLayout requireAuth>
+      <div className="container py-8 md:py-12 max-w-3xl">
+        <div className="text-center mb-8">
+          {awaitingPayment ? (
+            <Clock className="h-16 w-16 text-yellow-600 mx-auto mb-4" />
+          ) : (
+            <CheckCircle2 className="h-16 w-16 text-green-600 mx-auto mb-4" />
+          )}
+          <h1 className="text-3xl md:text-4xl font-serif font-medium text-gray-800">
+            {awaitingPayment ? 'Your order is awaiting payment' : 'Thank you for your order!'}
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Order <span className="font-medium text-foreground">#{order.id.slice(0, 8).toUpperCase()}</span> was placed on {format(new Date(order.created_at), 'PPP')}
+          </p>
+          {order.dispatch_by && (
+            <p className="text-muted-foreground mt-1">
+              Some items are being made for you. Expected dispatch by {format(new Date(order.dispatch_by), 'PPP')}.
+            </p>
+          )}
+          {awaitingPayment && (
+            <Button
+              className="mt-6 bg-usha-burgundy hover:bg-usha-burgundy/90"
+              onClick={handlePayNow}
+              disabled={paying}
+            >
+              {paying ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CreditCard className="mr-2 h-4 w-4" />
+              )}
+              Pay {formatCurrency(order.total)} Now
+            </Button>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg border">
+          {address && (
+            <div className="p-6 border-b grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <div>
+                <h2 className="font-medium mb-2">Shipping To</h2>
+                <p>{address.full_name}</p>
+                <p className="text-sm">{address.line1}</p>
+                {address.line2 && <p className="text-sm">{address.line2}</p>}
+                <p className="text-sm">{address.city}, {address.state} {address.postal_code}</p>
+                <p className="text-sm text-muted-foreground">{address.phone}</p>
+              </div>
+              {shippingMethod && (
+                <div>
+                  <h2 className="font-medium mb-2">Delivery</h2>
+                  <p>{shippingMethod.name}</p>
+                  <p className="text-sm text-muted-foreground">{shippingMethod.description}</p>
+                </div>
+              )}
+              {paymentMethod && paymentMethod.id !== 'online' && (
+                <div>
+                  <h2 className="font-medium mb-2">Payment</h2>
+                  <p>{paymentMethod.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Please keep {formatCurrency(order.total)} ready at delivery
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="divide-y">
+            {order.order_items.map(item => (
+              <div key={item.id} className="p-4 sm:px-6 flex items-center">
+                <div className="h-16 w-16 flex-shrink-0 bg-white border rounded flex items-center justify-center">
+                  <img
+                    src={item.product?.image || "/placeholder.svg"}
+                    alt={item.product?.name}
+                    className="max-h-14 max-w-14 object-contain"
+                  />
+                </div>
+                <div className="ml-4 flex-1">
+                  <Link to={`/product/${item.product_id}`} className="font-medium hover:text-usha-burgundy">
+                    {item.product?.name}
+                  </Link>
+                  {item.variant && (
+                    <p className="text-sm text-muted-foreground">{getVariantLabel(item.variant)}</p>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    {formatCurrency(item.price)} × {item.quantity}
+                  </p>
+                  {item.dispatch_by && (
+                    <p className="text-sm text-muted-foreground">
+                      {item.backordered < item.quantity
+                        ? `${item.backordered} of ${item.quantity} dispatched by`
+                        : 'Dispatched by'} {format(new Date(item.dispatch_by), 'PPP')}
+                    </p>
+                  )}
+                </div>
+                <span className="font-medium">{formatCurrency(item.price * item.quantity)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-6 border-t space-y-2">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>{formatCurrency(itemsTotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Shipping</span>
+              <span>{order.total - itemsTotal === 0 ? 'Free' : formatCurrency(order.total - itemsTotal)}</span>
+            </div>
+            <div className="border-t pt-2 flex justify-between font-medium text-lg">
+              <span>Total</span>
+              <span className="text-usha-burgundy">{formatCurrency(order.total)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 justify-center mt-8">
+          <Button asChild className="bg-usha-burgundy hover:bg-usha-burgundy/90">
+            <Link to="/">Continue Shopping</Link>
+          </Button>
+          <Button asChild variant="outline">
+            <Link to="/account">View My Orders</Link>
+          </Button>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
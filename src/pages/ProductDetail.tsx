@@ -1,17 +1,26 @@
 import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCart } from '@/hooks/use-cart';
+import { useAttributeDefinitions } from '@/hooks/use-catalog';
+import { formatAttributeValue, toProductAttributes } from '@/lib/api/attributes';
+import { canBackorder, formatLeadTime, getDispatchDate, getFulfilmentModeLabel, getOrderableQuantity } from '@/lib/fulfilment';
+import { ProductImageType, ProductVariantType, fetchProductImages, fetchProductVariants } from '@/lib/api/products';
+import ProductGallery from '@/components/products/ProductGallery';
+import RestockNotifyForm from '@/components/products/RestockNotifyForm';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import MainLayout from '@/components/layout/MainLayout';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { formatCurrency, getStarRating, calculateDiscountPrice } from '@/lib/utils';
+import { formatCurrency, getStarRating, calculateDiscountPrice, getCategoryUrl } from '@/lib/utils';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { Heart, ShoppingCart, Truck, Package, RotateCcw, Star, Share2, Loader2, ArrowLeft } from 'lucide-react';
+import { Heart, ShoppingCart, Truck, Package, RotateCcw, Star, Share2, Loader2, ArrowLeft, Clock } from 'lucide-react';
 
 type Product = {
   id: string;
@@ -22,7 +31,11 @@ type Product = {
   category?: string; // Make this optional
   category_id?: string; // Add category_id as an optional field
   image: string | null;
+  image_sources?: Json;
+  attributes?: Json;
   stock: number;
+  fulfilment_mode?: string;
+  lead_time_days?: number | null;
   rating: number;
   bestseller: boolean;
   featured: boolean;
@@ -31,6 +44,14 @@ type Product = {
   sales_count?: number; // Add this as optional
 };
 
+type VariantOption = 'color' | 'size' | 'blouse_option';
+
+const variantOptions: { key: VariantOption; label: string }[] = [
+  { key: 'color', label: 'Colour' },
+  { key: 'size', label: 'Size' },
+  { key: 'blouse_option', label: 'Blouse' },
+];
+
 type ReviewProfile = {
   first_name: string | null;
   last_name: string | null;
@@ -51,6 +72,7 @@ export default function ProductDetail() {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { addItem } = useCart();
   
   const [product, setProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
@@ -65,6 +87,33 @@ export default function ProductDetail() {
   const [addingToCart, setAddingToCart] = useState(false);
   const [addingToWishlist, setAddingToWishlist] = useState(false);
   const [categoryName, setCategoryName] = useState<string>('');
+  const [categorySlug, setCategorySlug] = useState<string>('');
+  const [variants, setVariants] = useState<ProductVariantType[]>([]);
+  const [images, setImages] = useState<ProductImageType[]>([]);
+  const [selectedOptions, setSelectedOptions] = useState<Partial<Record<VariantOption, string>>>({});
+  const { data: attributeDefinitions = [] } = useAttributeDefinitions();
+
+  // Specifications the product has a value for, in the order they are defined
+  const productAttributes = toProductAttributes(product?.attributes);
+  const specifications = attributeDefinitions
+    .filter(definition => productAttributes[definition.key] !== undefined)
+    .map(definition => ({
+      key: definition.key,
+      label: definition.label,
+      value: formatAttributeValue(definition, productAttributes[definition.key]),
+    }));
+
+  // Only offer the options that at least one variant actually sets
+  const activeOptions = variantOptions.filter(option => variants.some(variant => variant[option.key]));
+  const matchesOptions = (variant: ProductVariantType, options: Partial<Record<VariantOption, string>>) =>
+    activeOptions.every(option => (variant[option.key] ?? undefined) === options[option.key]);
+  const selectedVariant = variants.find(variant => matchesOptions(variant, selectedOptions)) ?? null;
+  const availableStock = variants.length > 0 ? (selectedVariant?.stock ?? 0) : (product?.stock ?? 0);
+  // Pre-order and made-to-order products can be ordered beyond stock
+  const orderableQuantity = variants.length > 0 && !selectedVariant
+    ? 0
+    : getOrderableQuantity(availableStock, product?.fulfilment_mode);
+  const dispatchDate = getDispatchDate(quantity, availableStock, product?.fulfilment_mode, product?.lead_time_days);
 
   const fetchProduct = async () => {
     if (!id) return;
@@ -93,12 +142,13 @@ export default function ProductDetail() {
       if (productData && productData.category_id) {
         const { data: categoryData, error: categoryError } = await supabase
           .from('categories')
-          .select('name')
+          .select('name, slug')
           .eq('id', productData.category_id)
           .single();
           
         if (!categoryError && categoryData) {
           setCategoryName(categoryData.name);
+          setCategorySlug(categoryData.slug);
           
           // Create a complete product object with both database fields and derived fields
           const completeProduct: Product = {
@@ -169,20 +219,59 @@ export default function ProductDetail() {
     }
   };
 
+  const fetchVariants = async () => {
+    if (!id) return;
+
+    const data = await fetchProductVariants(id);
+    setVariants(data);
+
+    // Start on the first variant that can be bought
+    const initial = data.find(variant => variant.stock > 0) ?? data[0];
+    setSelectedOptions(initial ? getVariantOptions(initial) : {});
+  };
+
+  const getVariantOptions = (variant: ProductVariantType) => ({
+    color: variant.color ?? undefined,
+    size: variant.size ?? undefined,
+    blouse_option: variant.blouse_option ?? undefined,
+  });
+
+  const selectOption = (key: VariantOption, value: string) => {
+    const next = { ...selectedOptions, [key]: value };
+
+    // If the combination doesn't exist, jump to the closest variant with this value
+    if (!variants.some(variant => matchesOptions(variant, next))) {
+      const fallback = variants.find(variant => variant[key] === value && variant.stock > 0)
+        ?? variants.find(variant => variant[key] === value);
+      if (fallback) {
+        setSelectedOptions(getVariantOptions(fallback));
+        setQuantity(1);
+        return;
+      }
+    }
+
+    setSelectedOptions(next);
+    setQuantity(1);
+  };
+
   useEffect(() => {
     fetchProduct();
     fetchReviews();
+    fetchVariants();
+    if (id) {
+      fetchProductImages(id).then(setImages);
+    }
   }, [id]);
 
   const handleQuantityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value);
-    if (!isNaN(value) && value > 0 && value <= (product?.stock || 100)) {
+    if (!isNaN(value) && value > 0 && value <= orderableQuantity) {
       setQuantity(value);
     }
   };
 
   const increaseQuantity = () => {
-    if (quantity < (product?.stock || 100)) {
+    if (quantity < orderableQuantity) {
       setQuantity(quantity + 1);
     }
   };
@@ -241,102 +330,41 @@ export default function ProductDetail() {
   };
 
   const addToCart = async () => {
-    if (!user) {
+    if (!product) return;
+
+    if (variants.length > 0 && !selectedVariant) {
       toast({
-        title: "Authentication required",
-        description: "Please sign in to add items to your cart",
+        title: "Choose an option",
+        description: "Please select a variant before adding to cart",
         variant: "destructive"
       });
-      navigate('/auth');
       return;
     }
-
-    if (!product) return;
     
     setAddingToCart(true);
-
-    try {
-      // First, get or create a cart for the user
-      let cartId;
-      
-      // Check if the user already has a cart
-      const { data: existingCarts, error: cartError } = await supabase
-        .from('carts')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
-      
-      if (cartError && cartError.code !== 'PGRST116') {
-        throw new Error('Error fetching cart');
-      }
-      
-      if (existingCarts) {
-        cartId = existingCarts.id;
-      } else {
-        // Create a new cart
-        const { data: newCart, error: createCartError } = await supabase
-          .from('carts')
-          .insert({ user_id: user.id })
-          .select('id')
-          .single();
-        
-        if (createCartError) {
-          throw new Error('Error creating cart');
-        }
-        
-        cartId = newCart.id;
-      }
-      
-      // Now check if the product is already in the cart
-      const { data: existingItems, error: itemError } = await supabase
-        .from('cart_items')
-        .select('id, quantity')
-        .eq('cart_id', cartId)
-        .eq('product_id', product.id)
-        .single();
-      
-      if (itemError && itemError.code !== 'PGRST116') {
-        throw new Error('Error checking cart items');
-      }
-      
-      if (existingItems) {
-        // Update existing cart item quantity
-        const { error: updateError } = await supabase
-          .from('cart_items')
-          .update({ quantity: existingItems.quantity + quantity })
-          .eq('id', existingItems.id);
-        
-        if (updateError) {
-          throw new Error('Error updating cart item');
-        }
-      } else {
-        // Add new item to cart
-        const { error: insertError } = await supabase
-          .from('cart_items')
-          .insert({
-            cart_id: cartId,
-            product_id: product.id,
-            quantity: quantity
-          });
-        
-        if (insertError) {
-          throw new Error('Error adding item to cart');
-        }
-      }
-      
+    const added = await addItem({
+      productId: product.id,
+      variantId: selectedVariant?.id ?? null,
+      quantity,
+      product: {
+        id: product.id,
+        name: product.name,
+        image: product.image,
+        price: product.price,
+        discount: product.discount,
+        stock: product.stock,
+        fulfilment_mode: product.fulfilment_mode ?? 'in_stock',
+        lead_time_days: product.lead_time_days ?? null,
+      },
+      variant: selectedVariant,
+    });
+    setAddingToCart(false);
+
+    if (added) {
       toast({
         title: "Added to cart",
         description: `${product.name} (${quantity}) added to your cart`
       });
-    } catch (error) {
-      console.error('Error adding to cart:', error);
-      toast({
-        title: "Error",
-        description: "Failed to add item to cart",
-        variant: "destructive"
-      });
-    } finally {
-      setAddingToCart(false);
     }
   };
 
@@ -441,7 +469,8 @@ export default function ProductDetail() {
     );
   }
 
-  const discountedPrice = calculateDiscountPrice(product.price, product.discount);
+  const basePrice = selectedVariant?.price ?? product.price;
+  const discountedPrice = calculateDiscountPrice(basePrice, product.discount);
   const stars = getStarRating(product.rating);
   
   return (
@@ -451,7 +480,7 @@ export default function ProductDetail() {
         <div className="flex items-center text-sm text-muted-foreground mb-8">
           <a href="/" className="hover:text-usha-burgundy">Home</a>
           <span className="mx-2">/</span>
-          <a href={`/category/${categoryName.toLowerCase().replace(/ /g, '-')}`} className="hover:text-usha-burgundy">
+          <a href={getCategoryUrl(categorySlug)} className="hover:text-usha-burgundy">
             {categoryName || 'Category'}
           </a>
           <span className="mx-2">/</span>
@@ -459,14 +488,11 @@ export default function ProductDetail() {
         </div>
 
         <div className="grid md:grid-cols-2 gap-8 md:gap-12">
-          {/* Product image */}
-          <div className="bg-white p-4 rounded-lg border flex items-center justify-center">
-            <img 
-              src={product.image || "/placeholder.svg"} 
-              alt={product.name}
-              className="max-h-[500px] object-contain"
-            />
-          </div>
+          {/* Product images */}
+          <ProductGallery
+            images={images.length > 0 ? images : [{ url: product.image || "/placeholder.svg", alt_text: product.name, sources: product.image_sources }]}
+            productName={product.name}
+          />
 
           {/* Product details */}
           <div>
@@ -498,7 +524,7 @@ export default function ProductDetail() {
                     {formatCurrency(discountedPrice)}
                   </span>
                   <span className="text-lg text-muted-foreground line-through">
-                    {formatCurrency(product.price)}
+                    {formatCurrency(basePrice)}
                   </span>
                   <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-800 text-sm rounded">
                     {product.discount}% Off
@@ -506,7 +532,7 @@ export default function ProductDetail() {
                 </div>
               ) : (
                 <span className="text-2xl font-medium text-usha-burgundy">
-                  {formatCurrency(product.price)}
+                  {formatCurrency(basePrice)}
                 </span>
               )}
               <p className="text-sm text-muted-foreground mt-1">Inclusive of all taxes</p>
@@ -515,6 +541,43 @@ export default function ProductDetail() {
             {/* Description */}
             <p className="text-gray-700 mb-6">{product.description}</p>
             
+            {/* Variant picker */}
+            {activeOptions.map(option => {
+              const values = Array.from(new Set(variants.map(variant => variant[option.key]).filter(Boolean)));
+
+              return (
+                <div key={option.key} className="mb-4">
+                  <p className="font-medium mb-2">
+                    {option.label}
+                    {selectedOptions[option.key] && (
+                      <span className="ml-2 font-normal text-muted-foreground">{selectedOptions[option.key]}</span>
+                    )}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {values.map(value => {
+                      const inStock = variants.some(variant => variant[option.key] === value && variant.stock > 0);
+
+                      return (
+                        <Button
+                          key={value}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => selectOption(option.key, value)}
+                          className={`${selectedOptions[option.key] === value ? 'border-usha-burgundy text-usha-burgundy' : ''} ${inStock ? '' : 'line-through opacity-60'}`}
+                        >
+                          {value}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+            {selectedVariant && (
+              <p className="text-sm text-muted-foreground mb-6">SKU: {selectedVariant.sku}</p>
+            )}
+            
             {/* Quantity selector */}
             <div className="mb-6">
               <p className="font-medium mb-2">Quantity</p>
@@ -531,7 +594,7 @@ export default function ProductDetail() {
                 <Input
                   type="number"
                   min="1"
-                  max={product.stock}
+                  max={orderableQuantity}
                   value={quantity}
                   onChange={handleQuantityChange}
                   className="w-16 mx-2 text-center"
@@ -541,22 +604,42 @@ export default function ProductDetail() {
                   variant="outline"
                   size="icon"
                   onClick={increaseQuantity}
-                  disabled={quantity >= product.stock}
+                  disabled={quantity >= orderableQuantity}
                 >
                   +
                 </Button>
                 <span className="ml-3 text-sm text-muted-foreground">
-                  {product.stock} available
+                  {availableStock > 0
+                    ? `${availableStock} available`
+                    : canBackorder(product.fulfilment_mode) ? getFulfilmentModeLabel(product.fulfilment_mode) : 'Out of stock'}
                 </span>
               </div>
+              {dispatchDate && (
+                <p className="flex items-center mt-2 text-sm text-muted-foreground">
+                  <Clock className="h-4 w-4 mr-1" />
+                  {availableStock > 0
+                    ? `Only ${availableStock} ready to ship; the rest takes ${formatLeadTime(product.lead_time_days)}.`
+                    : `${getFulfilmentModeLabel(product.fulfilment_mode)}, takes ${formatLeadTime(product.lead_time_days)}.`}
+                  {` Dispatched by ${format(dispatchDate, 'MMM dd, yyyy')}.`}
+                </p>
+              )}
             </div>
 
+            {orderableQuantity === 0 && (variants.length === 0 || selectedVariant) && (
+              <RestockNotifyForm
+                key={selectedVariant?.id ?? product.id}
+                productId={product.id}
+                variantId={selectedVariant?.id ?? null}
+                defaultEmail={user?.email}
+              />
+            )}
+
             {/* Action buttons */}
             <div className="flex flex-col sm:flex-row gap-4 mb-8">
               <Button 
                 className="flex-1 bg-usha-burgundy hover:bg-usha-burgundy/90"
                 onClick={addToCart}
-                disabled={addingToCart}
+                disabled={addingToCart || orderableQuantity === 0}
               >
                 {addingToCart ? (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -628,6 +711,23 @@ export default function ProductDetail() {
                 <h2 className="text-2xl font-serif mb-4">Product Description</h2>
                 <div className="prose max-w-none">
                   <p>{product.description}</p>
+                  {specifications.length > 0 && (
+                    <div className="mt-6">
+                      <h3 className="text-lg font-medium mb-2">Specifications:</h3>
+                      <table className="w-full max-w-xl text-sm border rounded-md not-prose">
+                        <tbody>
+                          {specifications.map(specification => (
+                            <tr key={specification.key} className="border-b last:border-0">
+                              <th scope="row" className="text-left font-medium bg-muted/50 px-4 py-2 w-1/3">
+                                {specification.label}
+                              </th>
+                              <td className="px-4 py-2">{specification.value}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
                   <div className="mt-6">
                     <h3 className="text-lg font-medium mb-2">Product Features:</h3>
                     <ul className="list-disc pl-5 space-y-1">
@@ -638,6 +738,8 @@ export default function ProductDetail() {
                       <li>Perfect for any special occasions</li>
                     </ul>
                   </div>
+                  {/* The wash care specification replaces the generic advice */}
+                  {productAttributes.wash_care === undefined && (
                   <div className="mt-6">
                     <h3 className="text-lg font-medium mb-2">Care Instructions:</h3>
                     <ul className="list-disc pl-5 space-y-1">
@@ -646,6 +748,7 @@ export default function ProductDetail() {
                       <li>Handle with care to maintain its quality and appearance</li>
                     </ul>
                   </div>
+                  )}
                 </div>
               </div>
             </TabsContent>
@@ -0,0 +1,427 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Slider } from "@/components/ui/slider"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Checkbox } from "@/components/ui/checkbox"
+import { AspectRatio } from "@/components/ui/aspect-ratio"
+import { Badge } from "@/components/ui/badge"
+import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronDown, Loader2 } from "lucide-react"
+import MainLayout from '@/components/layout/MainLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import ResponsiveImage from '@/components/products/ResponsiveImage';
+import { useProductSearch, useSearchFacets } from '@/hooks/use-search';
+import { useDocumentMeta } from '@/hooks/use-document-meta';
+import { SEARCH_PAGE_SIZE, SearchSort, logSearch, searchSorts, splitHighlights } from '@/lib/api/search';
+import { addRecentSearch } from '@/lib/recentSearches';
+import { canBackorder, getFulfilmentModeLabel } from '@/lib/fulfilment';
+import { toImageSources } from '@/lib/imagePipeline';
+import { formatCurrency, calculateDiscountPrice } from '@/lib/utils';
+
+// Product name with the parts matching the query marked
+const Highlighted = ({ headline }: { headline: string }) => (
+  <>
+    {splitHighlights(headline).map((part, index) =>
+      part.highlighted ? (
+        <mark key={index} className="bg-usha-gold/30 text-inherit rounded-sm">{part.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const SearchPage = () => {
+  const [searchParams] = useSearchParams();
+  const query = (searchParams.get('q') ?? '').trim();
+  const { user } = useAuth();
+  const [sortOrder, setSortOrder] = useState<SearchSort>('relevance');
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [selectedSizes, setSelectedSizes] = useState<string[]>([]);
+  const [selectedColors, setSelectedColors] = useState<string[]>([]);
+  const [inStockOnly, setInStockOnly] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  // As on the category page, the query only follows the committed price range
+  const [priceDraft, setPriceDraft] = useState<number[] | null>(null);
+  const [priceFilterRange, setPriceFilterRange] = useState<number[] | null>(null);
+
+  useDocumentMeta(query ? `Search results for "${query}" | Usha Designs` : 'Search | Usha Designs');
+
+  const facetsQuery = useSearchFacets(query);
+  const facets = facetsQuery.data;
+
+  const filters = {
+    categoryId: selectedCategory,
+    minPrice: priceFilterRange?.[0],
+    maxPrice: priceFilterRange?.[1],
+    colors: selectedColors,
+    sizes: selectedSizes,
+    inStock: inStockOnly,
+    sort: sortOrder,
+  };
+  const resultsQuery = useProductSearch(query, filters, currentPage);
+
+  const results = resultsQuery.data?.results ?? [];
+  const total = resultsQuery.data?.total ?? 0;
+  const pageCount = Math.ceil(total / SEARCH_PAGE_SIZE);
+
+  // Start over for a new query
+  useEffect(() => {
+    setSelectedCategory(null);
+    setSelectedSizes([]);
+    setSelectedColors([]);
+    setInStockOnly(false);
+    setPriceDraft(null);
+    setPriceFilterRange(null);
+    setSortOrder('relevance');
+    setCurrentPage(1);
+  }, [query]);
+
+  // Record each query once its first results are in, for recent and popular searches
+  const loggedQuery = useRef<string | null>(null);
+  useEffect(() => {
+    if (!resultsQuery.data || resultsQuery.isPlaceholderData || loggedQuery.current === query) return;
+    loggedQuery.current = query;
+    addRecentSearch(query);
+    if (user) {
+      logSearch(query);
+    }
+  }, [query, resultsQuery.data, resultsQuery.isPlaceholderData, user]);
+
+  // Reset to first page when filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [selectedCategory, selectedSizes, selectedColors, inStockOnly, priceFilterRange, sortOrder]);
+
+  const handleSizeChange = (size: string) => {
+    setSelectedSizes(prevSizes =>
+      prevSizes.includes(size) ? prevSizes.filter(s => s !== size) : [...prevSizes, size]
+    );
+  };
+
+  const handleColorChange = (color: string) => {
+    setSelectedColors(prevColors =>
+      prevColors.includes(color) ? prevColors.filter(c => c !== color) : [...prevColors, color]
+    );
+  };
+
+  const minPrice = facets?.minPrice ?? 0;
+  const maxPrice = facets?.maxPrice ?? 0;
+  const priceRange = priceDraft ?? priceFilterRange ?? [minPrice, maxPrice];
+
+  const handlePriceChange = (value: number[]) => {
+    setPriceDraft(value);
+  };
+
+  const commitPriceRange = () => {
+    if (!priceDraft) return;
+    const [low, high] = priceDraft;
+    setPriceFilterRange(low <= minPrice && high >= maxPrice ? null : [Math.min(low, high), Math.max(low, high)]);
+    setPriceDraft(null);
+  };
+
+  const sortLabel = searchSorts.find(sort => sort.id === sortOrder)?.label;
+
+  if (!query) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto py-16 text-center">
+          <h1 className="text-2xl font-bold mb-2">Search</h1>
+          <p className="text-muted-foreground mb-6">
+            Enter a fabric, weave or product name in the search box to find products.
+          </p>
+          <Button asChild>
+            <Link to="/">Continue Shopping</Link>
+          </Button>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto py-8 flex flex-col md:flex-row gap-8">
+        {/* Filter Section */}
+        <aside className="w-full md:w-80 p-4 border rounded">
+          <ScrollArea className="h-[500px] w-full">
+            {facets && facets.categories.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Category</CardTitle>
+                <CardDescription>Narrow the results to one category</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col space-y-1">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedCategory(null)}
+                    className={`text-left text-sm py-1 hover:text-usha-burgundy ${selectedCategory === null ? 'font-semibold text-usha-burgundy' : ''}`}
+                  >
+                    All categories
+                  </button>
+                  {facets.categories.map(category => (
+                    <button
+                      key={category.id}
+                      type="button"
+                      onClick={() => setSelectedCategory(category.id)}
+                      className={`flex justify-between text-left text-sm py-1 hover:text-usha-burgundy ${selectedCategory === category.id ? 'font-semibold text-usha-burgundy' : ''}`}
+                    >
+                      <span>{category.name}</span>
+                      <span className="text-muted-foreground">{category.count}</span>
+                    </button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+            )}
+
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle>Filter by Price</CardTitle>
+                <CardDescription>Set the price range for products</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    value={priceRange[0]}
+                    onChange={(e) => handlePriceChange([Number(e.target.value), priceRange[1]])}
+                    onBlur={commitPriceRange}
+                    className="w-24"
+                  />
+                  <span>-</span>
+                  <Input
+                    type="number"
+                    value={priceRange[1]}
+                    onChange={(e) => handlePriceChange([priceRange[0], Number(e.target.value)])}
+                    onBlur={commitPriceRange}
+                    className="w-24"
+                  />
+                </div>
+                <Slider
+                  value={priceRange}
+                  min={minPrice}
+                  max={maxPrice}
+                  step={100}
+                  onValueChange={handlePriceChange}
+                  onValueCommit={commitPriceRange}
+                  disabled={minPrice === maxPrice}
+                  className="mt-4"
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-4">
+              <CardContent className="pt-6">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="in-stock"
+                    checked={inStockOnly}
+                    onCheckedChange={(checked) => setInStockOnly(checked === true)}
+                  />
+                  <label htmlFor="in-stock" className="text-sm font-medium leading-none">
+                    In stock only
+                  </label>
+                </div>
+              </CardContent>
+            </Card>
+
+            {facets && facets.sizes.length > 0 && (
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle>Filter by Size</CardTitle>
+                <CardDescription>Select the sizes you want to filter by</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col space-y-1">
+                  {facets.sizes.map(size => (
+                    <div key={size} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`size-${size}`}
+                        checked={selectedSizes.includes(size)}
+                        onCheckedChange={() => handleSizeChange(size)}
+                      />
+                      <label htmlFor={`size-${size}`} className="text-sm font-medium leading-none">
+                        {size}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+            )}
+
+            {facets && facets.colors.length > 0 && (
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle>Filter by Color</CardTitle>
+                <CardDescription>Select the colors you want to filter by</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col space-y-1">
+                  {facets.colors.map(color => (
+                    <div key={color} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`color-${color}`}
+                        checked={selectedColors.includes(color)}
+                        onCheckedChange={() => handleColorChange(color)}
+                      />
+                      <label htmlFor={`color-${color}`} className="text-sm font-medium leading-none">
+                        {color}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+            )}
+          </ScrollArea>
+        </aside>
+
+        {/* Results Section */}
+        <section className="flex-1">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-2xl font-bold">Results for "{query}"</h1>
+              <p className="text-sm text-muted-foreground">
+                {total} {total === 1 ? 'product' : 'products'}
+              </p>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="ml-auto">
+                  Sort: {sortLabel}
+                  <ChevronDown className="ml-2 h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {searchSorts.map(sort => (
+                  <DropdownMenuItem key={sort.id} onClick={() => setSortOrder(sort.id)}>
+                    {sort.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
+          {resultsQuery.isError && (
+            <p className="text-center text-red-500 py-8">Search failed. Please try again.</p>
+          )}
+
+          {!resultsQuery.isPending && !resultsQuery.isError && results.length === 0 && (
+            <p className="text-center text-muted-foreground py-16">
+              No products found. Try a different spelling or fewer words.
+            </p>
+          )}
+
+          {resultsQuery.isPending && (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-usha-burgundy" />
+            </div>
+          )}
+
+          {/* Product Grid */}
+          <div className={`grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 ${resultsQuery.isPlaceholderData ? 'opacity-60' : ''}`}>
+            {results.map(product => (
+              <Link to={`/product/${product.id}`} key={product.id} className="group">
+                <Card className="h-full flex flex-col">
+                  <CardHeader className="p-0">
+                    <AspectRatio ratio={4 / 3}>
+                      <ResponsiveImage
+                        src={product.image || "/placeholder.svg"}
+                        sources={toImageSources(product.image_sources)}
+                        sizes="(min-width: 1024px) 20vw, (min-width: 640px) 50vw, 100vw"
+                        alt={product.name}
+                        className="object-cover rounded-md aspect-video"
+                        loading="lazy"
+                      />
+                    </AspectRatio>
+                  </CardHeader>
+                  <CardContent className="flex flex-col p-4 space-y-2 flex-grow">
+                    <CardTitle className="text-lg font-semibold truncate group-hover:text-primary transition-colors">
+                      <Highlighted headline={product.headline} />
+                    </CardTitle>
+                    <CardDescription>
+                      {formatCurrency(product.discount ? calculateDiscountPrice(product.price, product.discount) : product.price)}
+                      {!!product.discount && (
+                        <span className="ml-2 line-through">{formatCurrency(product.price)}</span>
+                      )}
+                    </CardDescription>
+                    {product.stock === 0 && (
+                      <Badge variant="outline">
+                        {canBackorder(product.fulfilment_mode) ? getFulfilmentModeLabel(product.fulfilment_mode) : 'Out of stock'}
+                      </Badge>
+                    )}
+                    {!!product.discount && (
+                      <Badge variant="secondary">
+                        {product.discount}% off
+                      </Badge>
+                    )}
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          {pageCount > 1 && (
+            <div className="flex justify-center mt-8">
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setCurrentPage(prev => Math.max(prev - 1, 1));
+                      }}
+                      className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
+                    />
+                  </PaginationItem>
+                  {/* Display up to 5 page numbers */}
+                  {Array.from({ length: Math.min(5, pageCount) }, (_, i) => {
+                    const firstPage = Math.max(1, Math.min(currentPage - 2, pageCount - 4));
+                    const pageNumber = firstPage + i;
+                    return (
+                      <PaginationItem key={pageNumber}>
+                        <PaginationLink
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setCurrentPage(pageNumber);
+                          }}
+                          isActive={currentPage === pageNumber}
+                        >
+                          {pageNumber}
+                        </PaginationLink>
+                      </PaginationItem>
+                    );
+                  })}
+                  <PaginationItem>
+                    <PaginationNext
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setCurrentPage(prev => Math.min(prev + 1, pageCount));
+                      }}
+                      className={currentPage === pageCount ? "pointer-events-none opacity-50" : ""}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            </div>
+          )}
+        </section>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default SearchPage;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Download, FileJson, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { AttributeDefinitionType, fetchAttributeDefinitions } from '@/lib/api/attributes';
+import {
+  ExportFormat,
+  FeedFormat,
+  downloadFeed,
+  exportProducts,
+  feedFormats,
+  getFeedUrl,
+} from '@/lib/api/catalogExport';
+
+const CatalogExportPage = () => {
+  const { toast } = useToast();
+  const [attributeDefinitions, setAttributeDefinitions] = useState<AttributeDefinitionType[]>([]);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [downloadingFeed, setDownloadingFeed] = useState<FeedFormat | null>(null);
+
+  useEffect(() => {
+    fetchAttributeDefinitions().then(setAttributeDefinitions);
+  }, []);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    const count = await exportProducts(format, attributeDefinitions);
+    setExporting(null);
+    if (count > 0) {
+      toast({
+        title: "Export ready",
+        description: `Exported ${count} products.`,
+      });
+    }
+  };
+
+  const handleDownloadFeed = async (format: FeedFormat) => {
+    setDownloadingFeed(format);
+    await downloadFeed(format);
+    setDownloadingFeed(null);
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Copied", description: "Feed URL copied to the clipboard." });
+    } catch (error) {
+      console.error('Error copying feed URL:', error);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Catalog Export</h1>
+          <p className="text-muted-foreground">
+            Download the product catalog and set up shopping feeds
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Export Products</CardTitle>
+            <CardDescription>
+              Every product with its category, prices, stock and specifications. The CSV uses the
+              same columns as the product import, so it can be edited and imported again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            <Button onClick={() => handleExport('csv')} disabled={exporting !== null}>
+              {exporting === 'csv' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+              )}
+              Export CSV
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('json')} disabled={exporting !== null}>
+              {exporting === 'json' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileJson className="mr-2 h-4 w-4" />
+              )}
+              Export JSON
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Shopping Feeds</CardTitle>
+            <CardDescription>
+              Add these URLs as scheduled feeds. They list every product with an image, at its
+              discounted price, and mark products without stock as out of stock.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {feedFormats.map(feed => {
+              const url = getFeedUrl(feed.id);
+              return (
+                <div key={feed.id} className="space-y-2">
+                  <p className="font-medium">{feed.label}</p>
+                  <div className="flex gap-2">
+                    <Input value={url} readOnly className="font-mono text-xs" />
+                    <Button variant="outline" size="icon" onClick={() => handleCopy(url)} aria-label="Copy URL">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleDownloadFeed(feed.id)}
+                      disabled={downloadingFeed !== null}
+                    >
+                      {downloadingFeed === feed.id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Download className="mr-2 h-4 w-4" />
+                      )}
+                      Download
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-sm text-muted-foreground">
+              Product links in the feeds point to the store address set in the SITE_URL secret of the
+              catalog-feed function.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default CatalogExportPage;
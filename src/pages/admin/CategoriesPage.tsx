@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { Tag, PlusCircle, Search, Edit, Trash2, Loader2 } from 'lucide-react';
+import { Tag, PlusCircle, Search, Edit, Trash2, Loader2, GripVertical } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -15,17 +15,46 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import AdminLayout from '@/components/layout/AdminLayout';
+import CategoryForm, { AttributeAssignment } from '@/components/categories/CategoryForm';
 import { 
+  CategoryInput,
   CategoryType, 
   fetchCategories, 
   addCategory, 
   updateCategory, 
+  moveCategory,
   deleteCategory,
   getProductCountByCategory 
 } from '@/lib/api/categories';
+import { AttributeDefinitionType, fetchAttributeDefinitions, saveCategoryAttributes } from '@/lib/api/attributes';
+import { buildCategoryTree, flattenCategoryTree, getCategoryPath, getDescendantIds } from '@/lib/categoryTree';
+
+const emptyCategory: CategoryInput = {
+  name: '',
+  slug: '',
+  parent_id: null,
+  description: '',
+  banner_image: null,
+  meta_title: '',
+  meta_description: '',
+  display_order: 0,
+};
+
+// Optional text fields are stored as null rather than empty strings
+const toCategoryInput = (category: CategoryInput): CategoryInput => ({
+  name: category.name.trim(),
+  slug: category.slug?.trim() || undefined,
+  parent_id: category.parent_id,
+  description: category.description?.trim() || null,
+  banner_image: category.banner_image,
+  meta_title: category.meta_title?.trim() || null,
+  meta_description: category.meta_description?.trim() || null,
+  display_order: Number(category.display_order) || 0,
+});
+
+const sortCategories = (categories: CategoryType[]) =>
+  [...categories].sort((a, b) => a.display_order - b.display_order || a.name.localeCompare(b.name));
 
 const CategoriesPage = () => {
   const { toast } = useToast();
@@ -35,15 +64,23 @@ const CategoriesPage = () => {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<CategoryType | null>(null);
-  const [newCategory, setNewCategory] = useState({ name: '', description: '' });
+  const [newCategory, setNewCategory] = useState<CategoryInput>(emptyCategory);
   const [isLoading, setIsLoading] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [attributeDefinitions, setAttributeDefinitions] = useState<AttributeDefinitionType[]>([]);
+  const [newAttributes, setNewAttributes] = useState<AttributeAssignment[]>([]);
+  const [editAttributes, setEditAttributes] = useState<AttributeAssignment[]>([]);
   
   useEffect(() => {
     const loadCategories = async () => {
       setIsLoading(true);
       try {
-        const categoriesData = await fetchCategories();
+        const [categoriesData, attributesData] = await Promise.all([
+          fetchCategories(),
+          fetchAttributeDefinitions()
+        ]);
         setCategories(categoriesData);
+        setAttributeDefinitions(attributesData);
         
         // Fetch product counts for each category
         const counts: Record<string, number> = {};
@@ -68,8 +105,65 @@ const CategoriesPage = () => {
   
   // Filter categories based on search term
   const filteredCategories = categories.filter(category =>
-    category.name.toLowerCase().includes(searchTerm.toLowerCase())
+    category.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    category.slug.includes(searchTerm.toLowerCase())
   );
+
+  // The tree is shown (and can be rearranged) unless a search narrows the list down
+  const treeRows = flattenCategoryTree(buildCategoryTree(categories));
+  const rows = searchTerm
+    ? filteredCategories.map(category => ({ category, depth: 0 }))
+    : treeRows;
+
+  // A category can't go under itself or anything below it
+  const getParentOptions = (categoryId?: string) => {
+    const excluded = categoryId ? getDescendantIds(categories, categoryId) : [];
+    return treeRows
+      .filter(row => !excluded.includes(row.category.id))
+      .map(row => ({ id: row.category.id, name: row.category.name, depth: row.depth }));
+  };
+
+  const getAssignedAttributes = (categoryId: string): AttributeAssignment[] =>
+    attributeDefinitions.flatMap(definition =>
+      definition.category_attributes
+        .filter(assignment => assignment.category_id === categoryId)
+        .map(assignment => ({ attribute_id: definition.id, required: assignment.required }))
+    );
+
+  // Attributes a category gets from the categories above it
+  const getInheritedAttributeIds = (parentId: string | null) => {
+    const ancestorIds = parentId ? getCategoryPath(categories, parentId).map(category => category.id) : [];
+    return attributeDefinitions
+      .filter(definition => definition.category_attributes.some(assignment => ancestorIds.includes(assignment.category_id)))
+      .map(definition => definition.id);
+  };
+
+  // Saves the category's attributes and reloads the definitions that list them
+  const saveAttributes = async (categoryId: string, assignments: AttributeAssignment[]) => {
+    const saved = await saveCategoryAttributes(categoryId, assignments);
+    if (saved) {
+      setAttributeDefinitions(await fetchAttributeDefinitions());
+    }
+    return saved;
+  };
+
+  const canDropOn = (targetId: string | null) =>
+    draggedId !== null &&
+    (targetId === null || !getDescendantIds(categories, draggedId).includes(targetId)) &&
+    categories.find(category => category.id === draggedId)?.parent_id !== targetId;
+
+  const handleDrop = async (targetId: string | null) => {
+    const categoryId = draggedId;
+    setDraggedId(null);
+    if (!categoryId || !canDropOn(targetId)) return;
+
+    const moved = await moveCategory(categoryId, targetId);
+    if (moved) {
+      setCategories(sortCategories(categories.map(category =>
+        category.id === moved.id ? moved : category
+      )));
+    }
+  };
   
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -79,21 +173,39 @@ const CategoriesPage = () => {
       setNewCategory({ ...newCategory, [name]: value });
     }
   };
+
+  const handleParentChange = (parentId: string | null) => {
+    if (isEditDialogOpen && selectedCategory) {
+      setSelectedCategory({ ...selectedCategory, parent_id: parentId });
+    } else {
+      setNewCategory({ ...newCategory, parent_id: parentId });
+    }
+  };
+
+  const handleBannerChange = (url: string | null) => {
+    if (isEditDialogOpen && selectedCategory) {
+      setSelectedCategory({ ...selectedCategory, banner_image: url });
+    } else {
+      setNewCategory({ ...newCategory, banner_image: url });
+    }
+  };
   
   const handleAddCategory = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     
     try {
-      const category = await addCategory(newCategory.name);
+      const category = await addCategory(toCategoryInput(newCategory));
       if (category) {
-        setCategories([...categories, category]);
+        await saveAttributes(category.id, newAttributes);
+        setCategories(sortCategories([...categories, category]));
         setProductCounts({
           ...productCounts,
           [category.id]: 0
         });
         setIsAddDialogOpen(false);
-        setNewCategory({ name: '', description: '' });
+        setNewCategory(emptyCategory);
+        setNewAttributes([]);
       }
     } catch (error) {
       console.error('Error adding category:', error);
@@ -108,11 +220,12 @@ const CategoriesPage = () => {
     
     setIsLoading(true);
     try {
-      const updatedCategory = await updateCategory(selectedCategory.id, selectedCategory.name);
+      const updatedCategory = await updateCategory(selectedCategory.id, toCategoryInput(selectedCategory));
       if (updatedCategory) {
-        setCategories(categories.map(category => 
+        await saveAttributes(updatedCategory.id, editAttributes);
+        setCategories(sortCategories(categories.map(category => 
           category.id === updatedCategory.id ? updatedCategory : category
-        ));
+        )));
         setIsEditDialogOpen(false);
       }
     } catch (error) {
@@ -150,6 +263,7 @@ const CategoriesPage = () => {
   
   const openEditDialog = (category: CategoryType) => {
     setSelectedCategory(category);
+    setEditAttributes(getAssignedAttributes(category.id));
     setIsEditDialogOpen(true);
   };
 
@@ -168,40 +282,24 @@ const CategoriesPage = () => {
                 Add Category
               </Button>
             </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px]">
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Add New Category</DialogTitle>
               </DialogHeader>
-              <form onSubmit={handleAddCategory} className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Category Name</Label>
-                  <Input
-                    id="name"
-                    name="name"
-                    value={newCategory.name}
-                    onChange={handleInputChange}
-                    required
-                  />
-                </div>
-                
-                <div className="flex justify-end space-x-2 pt-4">
-                  <Button 
-                    type="button" 
-                    variant="outline" 
-                    onClick={() => setIsAddDialogOpen(false)}
-                  >
-                    Cancel
-                  </Button>
-                  <Button type="submit" disabled={isLoading}>
-                    {isLoading ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Adding...
-                      </>
-                    ) : "Add Category"}
-                  </Button>
-                </div>
-              </form>
+              <CategoryForm
+                category={newCategory}
+                parentOptions={getParentOptions()}
+                attributeDefinitions={attributeDefinitions}
+                attributes={newAttributes}
+                inheritedAttributeIds={getInheritedAttributeIds(newCategory.parent_id)}
+                isLoading={isLoading}
+                onSubmit={handleAddCategory}
+                onInputChange={handleInputChange}
+                onBannerChange={handleBannerChange}
+                onParentChange={handleParentChange}
+                onAttributesChange={setNewAttributes}
+                onCancel={() => setIsAddDialogOpen(false)}
+              />
             </DialogContent>
           </Dialog>
         </div>
@@ -224,11 +322,29 @@ const CategoriesPage = () => {
               </div>
             </div>
             
+            {!searchTerm && categories.length > 0 && (
+              <p className="text-sm text-muted-foreground mb-2">
+                Drag a category onto another to move it there.
+              </p>
+            )}
+            {draggedId && (
+              <div
+                onDragOver={(e) => {
+                  if (canDropOn(null)) e.preventDefault();
+                }}
+                onDrop={() => handleDrop(null)}
+                className="mb-2 rounded-md border-2 border-dashed p-3 text-center text-sm text-muted-foreground"
+              >
+                Drop here to make it a top-level category
+              </div>
+            )}
             <div className="rounded-md border">
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Name</TableHead>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Order</TableHead>
                     <TableHead>Products</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -236,14 +352,14 @@ const CategoriesPage = () => {
                 <TableBody>
                   {isLoading && categories.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={3} className="text-center py-8">
+                      <TableCell colSpan={5} className="text-center py-8">
                         <Loader2 className="h-6 w-6 animate-spin mx-auto" />
                         <p className="mt-2 text-sm text-muted-foreground">Loading categories...</p>
                       </TableCell>
                     </TableRow>
-                  ) : filteredCategories.length === 0 ? (
+                  ) : rows.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={3} className="text-center py-8">
+                      <TableCell colSpan={5} className="text-center py-8">
                         <Tag className="h-10 w-10 mx-auto text-muted-foreground opacity-50" />
                         <p className="mt-2 text-sm text-muted-foreground">
                           {searchTerm ? 'No categories found matching your search' : 'No categories yet'}
@@ -261,9 +377,28 @@ const CategoriesPage = () => {
                       </TableCell>
                     </TableRow>
                   ) : (
-                    filteredCategories.map((category) => (
-                      <TableRow key={category.id}>
-                        <TableCell className="font-medium">{category.name}</TableCell>
+                    rows.map(({ category, depth }) => (
+                      <TableRow
+                        key={category.id}
+                        draggable={!searchTerm}
+                        onDragStart={() => setDraggedId(category.id)}
+                        onDragEnd={() => setDraggedId(null)}
+                        onDragOver={(e) => {
+                          if (canDropOn(category.id)) e.preventDefault();
+                        }}
+                        onDrop={() => handleDrop(category.id)}
+                        className={draggedId === category.id ? 'opacity-50' : ''}
+                      >
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                            {!searchTerm && (
+                              <GripVertical className="h-4 w-4 text-muted-foreground cursor-move flex-shrink-0" />
+                            )}
+                            {category.name}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">/category/{category.slug}</TableCell>
+                        <TableCell>{category.display_order}</TableCell>
                         <TableCell>
                           <Badge variant="outline">
                             {productCounts[category.id] || 0} items
@@ -303,41 +438,26 @@ const CategoriesPage = () => {
       
       {/* Edit Category Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Category</DialogTitle>
           </DialogHeader>
           {selectedCategory && (
-            <form onSubmit={handleEditCategory} className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="edit-name">Category Name</Label>
-                <Input
-                  id="edit-name"
-                  name="name"
-                  value={selectedCategory.name}
-                  onChange={handleInputChange}
-                  required
-                />
-              </div>
-              
-              <div className="flex justify-end space-x-2 pt-4">
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => setIsEditDialogOpen(false)}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit" disabled={isLoading}>
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Saving...
-                    </>
-                  ) : "Save Changes"}
-                </Button>
-              </div>
-            </form>
+            <CategoryForm
+              category={selectedCategory}
+              parentOptions={getParentOptions(selectedCategory.id)}
+              attributeDefinitions={attributeDefinitions}
+              attributes={editAttributes}
+              inheritedAttributeIds={getInheritedAttributeIds(selectedCategory.parent_id)}
+              isLoading={isLoading}
+              isEdit
+              onSubmit={handleEditCategory}
+              onInputChange={handleInputChange}
+              onBannerChange={handleBannerChange}
+              onParentChange={handleParentChange}
+              onAttributesChange={setEditAttributes}
+              onCancel={() => setIsEditDialogOpen(false)}
+            />
           )}
         </DialogContent>
       </Dialog>
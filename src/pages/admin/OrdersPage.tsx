@@ -4,6 +4,8 @@ import { Package, Search, Eye, Filter, ChevronDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Table,
   TableBody,
@@ -22,25 +24,35 @@ import {
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
 import { useToast } from '@/components/ui/use-toast';
-import { format } from 'date-fns';
+import { format, isBefore, startOfToday } from 'date-fns';
 import AdminLayout from '@/components/layout/AdminLayout';
 import { supabase } from '@/integrations/supabase/client'; // Import Supabase client
+import { paymentMethods, PaymentMethod } from '@/lib/constants';
+import { OrderStatus, OrderStatusHistoryType, fetchOrderStatusHistory, getNextStatuses, updateOrderStatus } from '@/lib/api/orderStatus';
 
 // Define types for order data
 interface OrderItem {
-  id: number;
+  id: string;
   name: string;
   price: number;
   quantity: number;
+  // Units that were not in stock and are being made or awaited
+  backordered: number;
+  dispatch_by: string | null;
 }
 
 interface ShippingAddress {
+  full_name?: string;
+  phone?: string;
   line1: string;
   line2?: string;
   city: string;
@@ -48,19 +60,38 @@ interface ShippingAddress {
   postal_code: string;
 }
 
-export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'completed' | 'cancelled';
-
 export interface Order {
   id: string;
   customer_name: string;
+  // Empty until emails can be read here: they live in auth.users
   customer_email: string;
+  customer_phone: string;
   order_date: string; // Assuming date is stored as string in Supabase
   status: OrderStatus;
+  payment_method: PaymentMethod;
   total_amount: number;
   items: OrderItem[];
   shipping_address: ShippingAddress;
+  // Set when some items are pre-ordered or made to order
+  dispatch_by: string | null;
 }
 
+// Orders still waiting on pre-order or made-to-order items are worked from the
+// production queue rather than the main list
+const isInProduction = (order: Order) =>
+  !!order.dispatch_by && (order.status === 'pending' || order.status === 'processing');
+
+// Labels of the actions that move an order to each status
+const statusActions: Record<OrderStatus, string> = {
+  pending: 'Mark as Pending',
+  processing: 'Mark as Processing',
+  shipped: 'Mark as Shipped',
+  collected: 'Mark as Collected',
+  completed: 'Mark as Completed',
+  cancelled: 'Cancel Order',
+  rto: 'Mark as RTO',
+};
+
 const OrdersPage = () => {
   const { toast } = useToast();
   const [orders, setOrders] = useState<Order[]>([]);
@@ -68,9 +99,15 @@ const OrdersPage = () => {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
+  const [view, setView] = useState<'orders' | 'production'>('orders');
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<OrderStatusHistoryType[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [statusChange, setStatusChange] = useState<{ order: Order; status: OrderStatus } | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
   const ordersPerPage = 10;
 
   // Fetch orders from Supabase
@@ -81,18 +118,38 @@ const OrdersPage = () => {
       try {
         const { data, error } = await supabase
           .from('orders')
-          .select('*');
+          .select('*, order_items(id, quantity, price, backordered, dispatch_by, product:product_id(name))');
 
         if (error) {
           throw error;
         }
         // Ensure items and shipping_address are parsed if they are stored as JSON strings
-        const parsedData = data.map(order => ({
-          ...order, // Comma RE-ADDED after spread operator, as it's required.
-          order_date: order.order_date ? new Date(order.order_date).toISOString() : new Date().toISOString(), // Ensure date is in a consistent format
-          items: typeof order.items === 'string' ? JSON.parse(order.items) : order.items,
-          shipping_address: typeof order.shipping_address === 'string' ? JSON.parse(order.shipping_address) : order.shipping_address
-        }));
+        const parsedData = data.map(order => {
+          const shippingAddress = (typeof order.shipping_address === 'string'
+            ? JSON.parse(order.shipping_address)
+            : order.shipping_address) as unknown as ShippingAddress;
+
+          return {
+            id: order.id,
+            customer_name: shippingAddress?.full_name || '',
+            customer_email: '',
+            customer_phone: shippingAddress?.phone || '',
+            order_date: new Date(order.created_at).toISOString(), // Ensure date is in a consistent format
+            status: order.status as OrderStatus,
+            payment_method: order.payment_method as PaymentMethod,
+            total_amount: order.total,
+            items: (order.order_items || []).map(item => ({
+              id: item.id,
+              name: item.product?.name || 'Deleted product',
+              price: item.price,
+              quantity: item.quantity,
+              backordered: item.backordered,
+              dispatch_by: item.dispatch_by,
+            })),
+            shipping_address: shippingAddress,
+            dispatch_by: order.dispatch_by,
+          };
+        });
         setOrders(parsedData);
       } catch (err: any) {
         setError(err.message || 'Failed to fetch orders.');
@@ -114,12 +171,25 @@ const OrdersPage = () => {
     const matchesSearch = 
       order.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
       order.customer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.customer_email.toLowerCase().includes(searchTerm.toLowerCase());
+      order.customer_email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      order.customer_phone.includes(searchTerm);
     
     const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
+    const matchesView = (view === 'production') === isInProduction(order);
     
-    return matchesSearch && matchesStatus;
+    return matchesSearch && matchesStatus && matchesView;
   });
+
+  // The queue is worked by dispatch date, soonest first
+  if (view === 'production') {
+    filteredOrders.sort((a, b) => a.dispatch_by.localeCompare(b.dispatch_by));
+  }
+  const productionCount = orders.filter(isInProduction).length;
+
+  // Shipping is whatever the order total adds to its items
+  const selectedItemsTotal = selectedOrder
+    ? selectedOrder.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+    : 0;
   
   // Pagination
   const indexOfLastOrder = currentPage * ordersPerPage;
@@ -132,41 +202,43 @@ const OrdersPage = () => {
     setIsViewModalOpen(true);
   };
   
-  const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
-    try {
-      const { data, error } = await supabase
-        .from('orders')
-        .update({ status: newStatus })
-        .eq('id', orderId)
-        .select();
+  // Loads the timeline of the order open in the detail modal
+  const selectedOrderId = selectedOrder?.id;
+  useEffect(() => {
+    if (!selectedOrderId) return;
 
-      if (error) {
-        throw error;
-      }
+    let cancelled = false;
+    setIsHistoryLoading(true);
+    fetchOrderStatusHistory(selectedOrderId).then(history => {
+      if (cancelled) return;
+      setStatusHistory(history);
+      setIsHistoryLoading(false);
+    });
 
-      if (data && data.length > 0) {
-        const updatedOrder = data[0];
-        const updatedOrders = orders.map(order =>
-          order.id === orderId ? { ...order, status: updatedOrder.status } : order
-        );
-        setOrders(updatedOrders);
-        toast({
-          title: "Order status updated",
-          description: `Order ${orderId} status changed to ${newStatus}`,
-        });
-      } else {
-        toast({
-          title: "Failed to update status",
-          description: "Order not found or no changes made.",
-          variant: "destructive",
-        });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrderId, selectedOrder?.status]);
+
+  const openStatusChange = (order: Order, status: OrderStatus) => {
+    setStatusChange({ order, status });
+    setStatusNote('');
+  };
+
+  const confirmStatusChange = async () => {
+    if (!statusChange) return;
+
+    const { order, status } = statusChange;
+    setIsUpdatingStatus(true);
+    const updated = await updateOrderStatus(order.id, status, statusNote);
+    setIsUpdatingStatus(false);
+
+    if (updated) {
+      setOrders(orders.map(item => (item.id === order.id ? { ...item, status } : item)));
+      if (selectedOrder?.id === order.id) {
+        setSelectedOrder({ ...selectedOrder, status });
       }
-    } catch (err: any) {
-      toast({
-        title: "Error updating status",
-        description: err.message || 'An unexpected error occurred.',
-        variant: "destructive",
-      });
+      setStatusChange(null);
     }
   };
 
@@ -178,15 +250,29 @@ const OrdersPage = () => {
         return <Badge variant="outline" className="bg-blue-50 text-blue-700 hover:bg-blue-50">Processing</Badge>;
       case 'shipped':
         return <Badge variant="outline" className="bg-purple-50 text-purple-700 hover:bg-purple-50">Shipped</Badge>;
+      case 'collected':
+        return <Badge variant="outline" className="bg-teal-50 text-teal-700 hover:bg-teal-50">Collected</Badge>;
       case 'completed':
         return <Badge variant="outline" className="bg-green-50 text-green-700 hover:bg-green-50">Completed</Badge>;
       case 'cancelled':
         return <Badge variant="outline" className="bg-red-50 text-red-700 hover:bg-red-50">Cancelled</Badge>;
+      case 'rto':
+        return <Badge variant="outline" className="bg-orange-50 text-orange-700 hover:bg-orange-50">Returned (RTO)</Badge>;
       default:
         return <Badge variant="outline">Unknown</Badge>;
     }
   };
 
+  const getPaymentBadge = (method: PaymentMethod) => {
+    if (method === 'online') return null;
+
+    return (
+      <Badge variant="outline" className="ml-2 bg-amber-50 text-amber-700 hover:bg-amber-50">
+        {method === 'cod' ? 'COD' : 'UPI on Delivery'}
+      </Badge>
+    );
+  };
+
   return (
     <AdminLayout>
       <div className="container mx-auto p-6">
@@ -203,9 +289,28 @@ const OrdersPage = () => {
               </div>
             </div>
             
+            <Tabs
+              value={view}
+              onValueChange={(value) => {
+                setView(value as 'orders' | 'production');
+                setCurrentPage(1);
+              }}
+              className="mb-4"
+            >
+              <TabsList>
+                <TabsTrigger value="orders">Orders</TabsTrigger>
+                <TabsTrigger value="production">Production Queue ({productionCount})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            
             <Card>
               <CardHeader className="pb-2">
-                <CardTitle>Order List</CardTitle>
+                <CardTitle>{view === 'production' ? 'Production Queue' : 'Order List'}</CardTitle>
+                {view === 'production' && (
+                  <p className="text-sm text-muted-foreground">
+                    Pending and processing orders with pre-order or made-to-order items, by dispatch date
+                  </p>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="flex flex-col md:flex-row gap-4 mb-4">
@@ -242,12 +347,18 @@ const OrdersPage = () => {
                       <DropdownMenuItem onClick={() => setStatusFilter('shipped')}>
                         Shipped
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setStatusFilter('collected')}>
+                        Collected
+                      </DropdownMenuItem>
                       <DropdownMenuItem onClick={() => setStatusFilter('completed')}>
                         Completed
                       </DropdownMenuItem>
                       <DropdownMenuItem onClick={() => setStatusFilter('cancelled')}>
                         Cancelled
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setStatusFilter('rto')}>
+                        Returned (RTO)
+                      </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
@@ -259,6 +370,7 @@ const OrdersPage = () => {
                         <TableHead>Order ID</TableHead>
                         <TableHead>Customer</TableHead>
                         <TableHead>Date</TableHead>
+                        {view === 'production' && <TableHead>Dispatch By</TableHead>}
                         <TableHead>Status</TableHead>
                         <TableHead>Total</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
@@ -271,11 +383,24 @@ const OrdersPage = () => {
                           <TableCell>
                             <div>
                               <p>{order.customer_name}</p>
-                              <p className="text-sm text-muted-foreground">{order.customer_email}</p>
+                              {order.customer_email && (
+                                <p className="text-sm text-muted-foreground">{order.customer_email}</p>
+                              )}
+                              {order.customer_phone && (
+                                <p className="text-sm text-muted-foreground">Phone: {order.customer_phone}</p>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>{format(new Date(order.order_date), 'PP')}</TableCell>
-                          <TableCell>{getStatusBadge(order.status as OrderStatus)}</TableCell>
+                          {view === 'production' && (
+                            <TableCell className={isBefore(new Date(order.dispatch_by), startOfToday()) ? 'text-red-600 font-medium' : ''}>
+                              {format(new Date(order.dispatch_by), 'PP')}
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            {getStatusBadge(order.status as OrderStatus)}
+                            {getPaymentBadge(order.payment_method)}
+                          </TableCell>
                           <TableCell>₹{order.total_amount}</TableCell>
                           <TableCell className="text-right">
                             <div className="flex justify-end space-x-2">
@@ -296,38 +421,19 @@ const OrdersPage = () => {
                                   </Button>
                                 </DropdownMenuTrigger>
                                 <DropdownMenuContent align="end">
-                                  <DropdownMenuItem 
-                                    onClick={() => updateOrderStatus(order.id, 'pending')}
-                                    disabled={order.status === 'pending'}
-                                  >
-                                    Mark as Pending
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem 
-                                    onClick={() => updateOrderStatus(order.id, 'processing')}
-                                    disabled={order.status === 'processing'}
-                                  >
-                                    Mark as Processing
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem 
-                                    onClick={() => updateOrderStatus(order.id, 'shipped')}
-                                    disabled={order.status === 'shipped'}
-                                  >
-                                    Mark as Shipped
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem 
-                                    onClick={() => updateOrderStatus(order.id, 'completed')}
-                                    disabled={order.status === 'completed'}
-                                  >
-                                    Mark as Completed
-                                  </DropdownMenuItem>
-                                  <DropdownMenuSeparator />
-                                  <DropdownMenuItem 
-                                    onClick={() => updateOrderStatus(order.id, 'cancelled')}
-                                    disabled={order.status === 'cancelled'}
-                                    className="text-red-600"
-                                  >
-                                    Cancel Order
-                                  </DropdownMenuItem>
+                                  {getNextStatuses(order.status, order.payment_method).length === 0 ? (
+                                    <DropdownMenuItem disabled>No further status changes</DropdownMenuItem>
+                                  ) : (
+                                    getNextStatuses(order.status, order.payment_method).map(status => (
+                                      <DropdownMenuItem
+                                        key={status}
+                                        onClick={() => openStatusChange(order, status)}
+                                        className={status === 'cancelled' ? 'text-red-600' : status === 'rto' ? 'text-orange-600' : ''}
+                                      >
+                                        {statusActions[status]}
+                                      </DropdownMenuItem>
+                                    ))
+                                  )}
                                 </DropdownMenuContent>
                               </DropdownMenu>
                             </div>
@@ -392,18 +498,59 @@ const OrdersPage = () => {
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground">Customer</h3>
                   <p className="font-medium">{selectedOrder.customer_name}</p>
-                  <p className="text-sm">{selectedOrder.customer_email}</p>
+                  {selectedOrder.customer_email && <p className="text-sm">{selectedOrder.customer_email}</p>}
+                  {selectedOrder.customer_phone && <p className="text-sm">Phone: {selectedOrder.customer_phone}</p>}
                 </div>
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground">Order Date</h3>
                   <p>{format(new Date(selectedOrder.order_date), 'PPP')}</p>
                 </div>
+                {selectedOrder.dispatch_by && (
+                  <div>
+                    <h3 className="text-sm font-medium text-muted-foreground">Dispatch By</h3>
+                    <p>{format(new Date(selectedOrder.dispatch_by), 'PPP')}</p>
+                  </div>
+                )}
               </div>
               
               <div>
                 <h3 className="text-sm font-medium text-muted-foreground mb-1">Status</h3>
                 {getStatusBadge(selectedOrder.status as OrderStatus)}
               </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Timeline</h3>
+                {isHistoryLoading ? (
+                  <p className="text-sm text-muted-foreground">Loading timeline...</p>
+                ) : statusHistory.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No status changes recorded.</p>
+                ) : (
+                  <ol className="relative border-l ml-2 space-y-4">
+                    {statusHistory.map(entry => (
+                      <li key={entry.id} className="ml-4">
+                        <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                        <div className="flex flex-wrap items-center gap-2">
+                          {getStatusBadge(entry.to_status)}
+                          <span className="text-sm text-muted-foreground">
+                            {format(new Date(entry.created_at), 'MMM dd, yyyy HH:mm')}
+                          </span>
+                        </div>
+                        <p className="text-sm mt-1">
+                          {entry.from_status ? `From ${entry.from_status}` : 'Order placed'}
+                          {' · '}
+                          {entry.changed_by ? entry.changed_by_name || 'Unknown user' : 'System'}
+                        </p>
+                        {entry.note && <p className="text-sm text-muted-foreground mt-1">{entry.note}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-1">Payment</h3>
+                <p>{paymentMethods.find(m => m.id === selectedOrder.payment_method)?.name}</p>
+              </div>
               
               <div>
                 <h3 className="text-sm font-medium text-muted-foreground mb-1">Shipping Address</h3>
@@ -427,7 +574,14 @@ const OrdersPage = () => {
                     <TableBody>
                       {selectedOrder.items && selectedOrder.items.map((item: OrderItem) => (
                         <TableRow key={item.id}>
-                          <TableCell>{item.name}</TableCell>
+                          <TableCell>
+                            {item.name}
+                            {item.backordered > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {item.backordered} to make, by {format(new Date(item.dispatch_by), 'PP')}
+                              </p>
+                            )}
+                          </TableCell>
                           <TableCell className="text-right">₹{item.price}</TableCell>
                           <TableCell className="text-right">{item.quantity}</TableCell>
                           <TableCell className="text-right">₹{item.price * item.quantity}</TableCell>
@@ -442,11 +596,11 @@ const OrdersPage = () => {
                 <div className="w-1/2 space-y-1">
                   <div className="flex justify-between text-sm">
                     <span>Subtotal:</span>
-                    <span>₹{selectedOrder.total_amount}</span>
+                    <span>₹{selectedItemsTotal}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span>Shipping:</span>
-                    <span>₹0.00</span> {/* Assuming free shipping for now */}
+                    <span>{selectedOrder.total_amount - selectedItemsTotal === 0 ? 'Free' : `₹${selectedOrder.total_amount - selectedItemsTotal}`}</span>
                   </div>
                   <div className="flex justify-between font-medium">
                     <span>Total:</span>
@@ -466,6 +620,35 @@ const OrdersPage = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Status Change Dialog */}
+      <Dialog open={!!statusChange} onOpenChange={(open) => !open && setStatusChange(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{statusChange && statusActions[statusChange.status]}</DialogTitle>
+            <DialogDescription>
+              Order {statusChange?.order.id} moves from {statusChange?.order.status} to {statusChange?.status}. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="status-note">Note (optional)</Label>
+            <Textarea
+              id="status-note"
+              value={statusNote}
+              onChange={(e) => setStatusNote(e.target.value)}
+              placeholder="e.g. courier and tracking number, or why the order was cancelled"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatusChange(null)} disabled={isUpdatingStatus}>
+              Back
+            </Button>
+            <Button onClick={confirmStatusChange} disabled={isUpdatingStatus}>
+              {isUpdatingStatus ? 'Updating...' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </AdminLayout>
   );
 };
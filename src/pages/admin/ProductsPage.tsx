@@ -1,29 +1,77 @@
 
-import React, { useState, useEffect } from 'react';
-import { PlusCircle, Search } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ChevronDown, FileUp, Loader2, PlusCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { useToast } from '@/components/ui/use-toast';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
 import AdminLayout from '@/components/layout/AdminLayout';
 import ProductForm from '@/components/products/ProductForm';
 import ProductsTable from '@/components/products/ProductsTable';
-import { ProductType, fetchProducts, addProduct, updateProduct, deleteProduct } from '@/lib/api/products';
+import ProductFiltersBar from '@/components/products/ProductFiltersBar';
+import ProductVariantsManager from '@/components/products/ProductVariantsManager';
+import ProductImportDialog from '@/components/products/ProductImportDialog';
+import ProductBulkActionDialog, { BulkActionType } from '@/components/products/ProductBulkActionDialog';
+import ProductStockDialog from '@/components/products/ProductStockDialog';
+import {
+  ProductType,
+  ProductWithCategory,
+  ProductImageDraft,
+  BulkProductResult,
+  fetchProductImages,
+  addProduct,
+  updateProduct,
+  deleteProduct
+} from '@/lib/api/products';
+import {
+  PRODUCT_LIST_PAGE_SIZE,
+  ProductListFilters,
+  ProductListParams,
+  ProductSortField,
+  UNCATEGORIZED,
+  fetchAllMatchingProducts,
+  hasProductListFilters,
+  readProductListParams,
+  toProductListSearchParams,
+} from '@/lib/api/productList';
 import { CategoryType, fetchCategories } from '@/lib/api/categories';
+import {
+  AttributeDefinitionType,
+  AttributeValue,
+  cleanProductAttributes,
+  fetchAttributeDefinitions,
+  getCategoryAttributes,
+  toProductAttributes,
+} from '@/lib/api/attributes';
+import { Json } from '@/integrations/supabase/types';
+import { useAdminProducts } from '@/hooks/use-admin-products';
+import { getDescendantIds } from '@/lib/categoryTree';
 
 const ProductsPage = () => {
   const { toast } = useToast();
-  const [products, setProducts] = useState<ProductType[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
   const [categories, setCategories] = useState<CategoryType[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
+  const [attributeDefinitions, setAttributeDefinitions] = useState<AttributeDefinitionType[]>([]);
+  const [isCategoriesLoaded, setIsCategoriesLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<ProductType | null>(null);
-  const productsPerPage = 10;
+  // Products picked for a bulk action; they can span pages
+  const [selectedProducts, setSelectedProducts] = useState<ProductWithCategory[]>([]);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const [stockProduct, setStockProduct] = useState<ProductType | null>(null);
+  const [bulkAction, setBulkAction] = useState<{ type: BulkActionType; flagValue?: boolean } | null>(null);
   
   // New product form state
   const [newProduct, setNewProduct] = useState({
@@ -33,59 +81,153 @@ const ProductsPage = () => {
     discount: 0,
     description: '',
     stock: 10,
+    reorder_threshold: 5,
+    fulfilment_mode: 'in_stock',
+    lead_time_days: null,
     featured: false,
     bestseller: false,
+    attributes: {},
   });
   
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  
-  const [editImageFile, setEditImageFile] = useState<File | null>(null);
-  const [editImagePreview, setEditImagePreview] = useState<string | null>(null);
+  const [images, setImages] = useState<ProductImageDraft[]>([]);
+  const [editImages, setEditImages] = useState<ProductImageDraft[]>([]);
 
-  // Load products and categories on component mount
+  // Load categories and attribute definitions on component mount
   useEffect(() => {
     const loadData = async () => {
-      setIsLoading(true);
       try {
-        const [productsData, categoriesData] = await Promise.all([
-          fetchProducts(),
-          fetchCategories()
+        const [categoriesData, attributesData] = await Promise.all([
+          fetchCategories(),
+          fetchAttributeDefinitions()
         ]);
         
-        setProducts(productsData);
         setCategories(categoriesData);
+        setAttributeDefinitions(attributesData);
       } catch (error) {
         console.error('Error loading data:', error);
         toast({
           title: 'Error',
-          description: 'Failed to load products and categories',
+          description: 'Failed to load categories',
           variant: 'destructive'
         });
       } finally {
-        setIsLoading(false);
+        setIsCategoriesLoaded(true);
       }
     };
     
     loadData();
   }, [toast]);
 
-  // Filter products based on search term
-  const filteredProducts = products.filter(product =>
-    product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (product.category_name && product.category_name.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
+  // Search, filters, sort and page come from the URL
+  const listParams = readProductListParams(searchParams);
+  // A category filter also matches the categories below it
+  const filterCategoryIds = listParams.categoryId && listParams.categoryId !== UNCATEGORIZED
+    ? getDescendantIds(categories, listParams.categoryId)
+    : [];
+  const {
+    data: productPage,
+    isLoading: isListLoading,
+    isError: isListError,
+    refetch: refetchProducts,
+  } = useAdminProducts(listParams, filterCategoryIds, isCategoriesLoaded || filterCategoryIds.length === 0);
+
+  const products = productPage?.products ?? [];
+  const totalProducts = productPage?.total ?? 0;
+  const pageCount = Math.ceil(totalProducts / PRODUCT_LIST_PAGE_SIZE);
+  const currentPage = listParams.page;
+  // Up to five page links around the current page
+  const firstPageLink = Math.max(1, Math.min(currentPage - 2, pageCount - 4));
+  const selectedIds = selectedProducts.map(product => product.id);
+  const allOnPageSelected = products.length > 0 && products.every(product => selectedIds.includes(product.id));
+
+  useEffect(() => {
+    if (isListError) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load products',
+        variant: 'destructive'
+      });
+    }
+  }, [isListError, toast]);
+
+  const updateListParams = (changes: Partial<ProductListParams>) => {
+    setSearchParams(toProductListSearchParams({ ...listParams, ...changes }), { replace: true });
+  };
+
+  // A new set of matching products starts over from the first page and selection
+  const handleFiltersChange = useCallback((changes: Partial<ProductListFilters>) => {
+    setSearchParams(
+      params => toProductListSearchParams({ ...readProductListParams(params), ...changes, page: 1 }),
+      { replace: true }
+    );
+    setSelectedProducts([]);
+  }, [setSearchParams]);
 
-  // Pagination
-  const indexOfLastProduct = currentPage * productsPerPage;
-  const indexOfFirstProduct = indexOfLastProduct - productsPerPage;
-  const currentProducts = filteredProducts.slice(indexOfFirstProduct, indexOfLastProduct);
-  const pageCount = Math.ceil(filteredProducts.length / productsPerPage);
+  const handleSortChange = (sort: ProductSortField, ascending: boolean) => {
+    updateListParams({ sort, ascending, page: 1 });
+  };
+
+  const setPage = (page: number) => {
+    setSearchParams(toProductListSearchParams({ ...listParams, page }));
+  };
 
-  const handleEdit = (product: ProductType) => {
+  // Keeps selected products from other pages and adds those picked on this one
+  const handleSelectionChange = (ids: string[]) => {
+    setSelectedProducts([
+      ...selectedProducts.filter(product => ids.includes(product.id)),
+      ...products.filter(product => ids.includes(product.id) && !selectedIds.includes(product.id)),
+    ]);
+  };
+
+  const handleSelectAllMatching = async () => {
+    setIsSelectingAll(true);
+    try {
+      setSelectedProducts(await fetchAllMatchingProducts(listParams, filterCategoryIds));
+    } catch (error) {
+      console.error('Error selecting products:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to select all matching products',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  const getAttributesFor = (categoryId: string | null | undefined) =>
+    getCategoryAttributes(attributeDefinitions, categories, categoryId);
+
+  // Keeps only the attributes of the product's category, or returns null
+  // after telling the admin which required ones are missing
+  const prepareAttributes = (product: Partial<ProductType>): Json | null => {
+    const definitions = getAttributesFor(product.category_id);
+    const attributes = cleanProductAttributes(toProductAttributes(product.attributes), definitions);
+    const missing = definitions.filter(definition => definition.required && attributes[definition.key] === undefined);
+
+    if (missing.length > 0) {
+      toast({
+        title: 'Missing specifications',
+        description: `Please fill in: ${missing.map(definition => definition.label).join(', ')}`,
+        variant: 'destructive'
+      });
+      return null;
+    }
+
+    return attributes;
+  };
+
+  const handleEdit = async (product: ProductType) => {
     setSelectedProduct(product);
-    setEditImagePreview(product.image);
+    setEditImages([]);
     setIsEditDialogOpen(true);
+
+    const gallery = await fetchProductImages(product.id);
+    setEditImages(gallery.map(image => ({
+      id: image.id,
+      url: image.url,
+      alt_text: image.alt_text || '',
+    })));
   };
 
   const handleDelete = async (productId: string) => {
@@ -93,7 +235,8 @@ const ProductsPage = () => {
       setIsLoading(true);
       const success = await deleteProduct(productId);
       if (success) {
-        setProducts(products.filter(product => product.id !== productId));
+        setSelectedProducts(selectedProducts.filter(product => product.id !== productId));
+        await refetchProducts();
       }
       setIsLoading(false);
     }
@@ -101,16 +244,15 @@ const ProductsPage = () => {
 
   const handleAddProduct = async (e: React.FormEvent) => {
     e.preventDefault();
+    const attributes = prepareAttributes(newProduct);
+    if (!attributes) return;
+
     setIsLoading(true);
     
     try {
-      const product = await addProduct(newProduct, imageFile || undefined);
+      const product = await addProduct({ ...newProduct, attributes }, images);
       if (product) {
-        const updatedProduct = {
-          ...product,
-          category_name: categories.find(c => c.id === product.category_id)?.name
-        };
-        setProducts([updatedProduct, ...products]);
+        await refetchProducts();
         setIsAddDialogOpen(false);
         resetNewProductForm();
       }
@@ -124,24 +266,19 @@ const ProductsPage = () => {
   const handleUpdateProduct = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedProduct) return;
+    const attributes = prepareAttributes(selectedProduct);
+    if (!attributes) return;
     
     setIsLoading(true);
     try {
       const updatedProduct = await updateProduct(
         selectedProduct.id, 
-        selectedProduct, 
-        editImageFile || undefined
+        { ...selectedProduct, attributes }, 
+        editImages
       );
       
       if (updatedProduct) {
-        const updatedProductWithCategory = {
-          ...updatedProduct,
-          category_name: categories.find(c => c.id === updatedProduct.category_id)?.name
-        };
-        
-        setProducts(products.map(p => 
-          p.id === updatedProduct.id ? updatedProductWithCategory : p
-        ));
+        await refetchProducts();
         setIsEditDialogOpen(false);
       }
     } catch (error) {
@@ -151,6 +288,27 @@ const ProductsPage = () => {
     }
   };
 
+  // Variants added or removed change the product's stock, so pick up the new total
+  const handleVariantStockChange = async () => {
+    const { data } = await refetchProducts();
+
+    const refreshed = data?.products.find(p => p.id === selectedProduct?.id);
+    if (refreshed) {
+      setSelectedProduct(prev => prev && { ...prev, stock: refreshed.stock });
+    }
+  };
+
+  const handleImported = async () => {
+    await refetchProducts();
+  };
+
+  // Products the action failed for stay selected, to retry or act on otherwise
+  const handleBulkApplied = async (result: BulkProductResult) => {
+    const failedIds = result.failed.map(failure => failure.id);
+    setSelectedProducts(selectedProducts.filter(product => failedIds.includes(product.id)));
+    await refetchProducts();
+  };
+
   const resetNewProductForm = () => {
     setNewProduct({
       name: '',
@@ -159,11 +317,23 @@ const ProductsPage = () => {
       discount: 0,
       description: '',
       stock: 10,
+      reorder_threshold: 5,
+      fulfilment_mode: 'in_stock',
+      lead_time_days: null,
       featured: false,
       bestseller: false,
+      attributes: {},
     });
-    setImageFile(null);
-    setImagePreview(null);
+    setImages([]);
+  };
+
+  const toFieldValue = (name: string, value: string) => {
+    if (name === 'lead_time_days') {
+      return value === '' ? null : Number(value);
+    }
+    return name === 'price' || name === 'discount' || name === 'stock' || name === 'reorder_threshold'
+      ? Number(value)
+      : value;
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -172,16 +342,12 @@ const ProductsPage = () => {
     if (isEditDialogOpen && selectedProduct) {
       setSelectedProduct({
         ...selectedProduct,
-        [name]: name === 'price' || name === 'discount' || name === 'stock' 
-          ? Number(value) 
-          : value
+        [name]: toFieldValue(name, value)
       });
     } else {
       setNewProduct({
         ...newProduct,
-        [name]: name === 'price' || name === 'discount' || name === 'stock' 
-          ? Number(value) 
-          : value
+        [name]: toFieldValue(name, value)
       });
     }
   };
@@ -229,39 +395,74 @@ const ProductsPage = () => {
     }
   };
   
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    if (!file.type.startsWith('image/')) {
-      toast({
-        title: 'Invalid file',
-        description: 'Please select an image file (JPEG, PNG, etc.)',
-        variant: 'destructive'
+  const handleFulfilmentModeChange = (value: string) => {
+    // In-stock products have no lead time
+    const update = value === 'in_stock'
+      ? { fulfilment_mode: value, lead_time_days: null }
+      : { fulfilment_mode: value };
+
+    if (isEditDialogOpen && selectedProduct) {
+      setSelectedProduct({
+        ...selectedProduct,
+        ...update
+      });
+    } else {
+      setNewProduct({
+        ...newProduct,
+        ...update
       });
-      return;
     }
-    
-    if (file.size > 5 * 1024 * 1024) {
-      toast({
-        title: 'File too large',
-        description: 'Image size should not exceed 5MB',
-        variant: 'destructive'
+  };
+  
+  const handleAttributeChange = (key: string, value: AttributeValue | undefined) => {
+    const update = (attributes: Json | undefined) => {
+      const { [key]: _previous, ...rest } = toProductAttributes(attributes);
+      return value === undefined ? rest : { ...rest, [key]: value };
+    };
+
+    if (isEditDialogOpen && selectedProduct) {
+      setSelectedProduct({
+        ...selectedProduct,
+        attributes: update(selectedProduct.attributes)
+      });
+    } else {
+      setNewProduct({
+        ...newProduct,
+        attributes: update(newProduct.attributes)
       });
-      return;
     }
+  };
+  
+  const handleAddImages = (files: FileList) => {
+    const accepted: ProductImageDraft[] = [];
     
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (isEditDialogOpen) {
-        setEditImageFile(file);
-        setEditImagePreview(reader.result as string);
-      } else {
-        setImageFile(file);
-        setImagePreview(reader.result as string);
+    for (const file of Array.from(files)) {
+      if (!file.type.startsWith('image/')) {
+        toast({
+          title: 'Invalid file',
+          description: `${file.name} is not an image file (JPEG, PNG, etc.)`,
+          variant: 'destructive'
+        });
+        continue;
       }
-    };
-    reader.readAsDataURL(file);
+      
+      if (file.size > 5 * 1024 * 1024) {
+        toast({
+          title: 'File too large',
+          description: `${file.name} is larger than 5MB`,
+          variant: 'destructive'
+        });
+        continue;
+      }
+      
+      accepted.push({ url: URL.createObjectURL(file), file, alt_text: '' });
+    }
+    
+    if (isEditDialogOpen) {
+      setEditImages(prev => [...prev, ...accepted]);
+    } else {
+      setImages(prev => [...prev, ...accepted]);
+    }
   };
 
   return (
@@ -272,6 +473,11 @@ const ProductsPage = () => {
             <h1 className="text-2xl font-bold">Products Management</h1>
             <p className="text-muted-foreground">Manage your product catalog</p>
           </div>
+          <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Import
+          </Button>
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -286,18 +492,22 @@ const ProductsPage = () => {
               <ProductForm
                 product={newProduct}
                 categories={categories}
-                imageFile={imageFile}
-                imagePreview={imagePreview}
+                attributeDefinitions={getAttributesFor(newProduct.category_id)}
+                images={images}
                 isLoading={isLoading}
                 onSubmit={handleAddProduct}
                 onInputChange={handleInputChange}
                 onCategoryChange={handleCategoryChange}
+                onFulfilmentModeChange={handleFulfilmentModeChange}
+                onAttributeChange={handleAttributeChange}
                 onSwitchChange={handleSwitchChange}
-                onImageChange={handleImageChange}
+                onAddImages={handleAddImages}
+                onImagesChange={setImages}
                 onCancel={() => setIsAddDialogOpen(false)}
               />
             </DialogContent>
           </Dialog>
+          </div>
         </div>
         
         <Card>
@@ -305,44 +515,89 @@ const ProductsPage = () => {
             <CardTitle>Product Catalog</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="mb-4">
-              <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  type="search"
-                  placeholder="Search products..."
-                  className="pl-8"
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                />
+            <ProductFiltersBar
+              filters={listParams}
+              categories={categories}
+              onChange={handleFiltersChange}
+            />
+
+            {selectedIds.length > 0 && (
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-muted/50 px-4 py-2 mb-4">
+                <div className="flex flex-wrap items-center gap-x-2 text-sm">
+                  <span className="font-medium">{selectedIds.length} selected</span>
+                  {allOnPageSelected && selectedIds.length < totalProducts && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={handleSelectAllMatching}
+                      disabled={isSelectingAll}
+                    >
+                      {isSelectingAll && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                      Select all {totalProducts} matching products
+                    </Button>
+                  )}
+                  <Button variant="link" size="sm" className="h-auto p-0 text-muted-foreground" onClick={() => setSelectedProducts([])}>
+                    Clear selection
+                  </Button>
+                </div>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm">
+                      Bulk Actions
+                      <ChevronDown className="ml-2 h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setBulkAction({ type: 'discount' })}>Set discount</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setBulkAction({ type: 'category' })}>Change category</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setBulkAction({ type: 'stock' })}>Adjust stock</DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setBulkAction({ type: 'featured', flagValue: true })}>Mark as featured</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setBulkAction({ type: 'featured', flagValue: false })}>Unmark as featured</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setBulkAction({ type: 'bestseller', flagValue: true })}>Mark as bestseller</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setBulkAction({ type: 'bestseller', flagValue: false })}>Unmark as bestseller</DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem className="text-red-600" onClick={() => setBulkAction({ type: 'delete' })}>
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
-            </div>
+            )}
             
             <ProductsTable
-              products={currentProducts}
-              isLoading={isLoading}
+              products={products}
+              isLoading={isLoading || isListLoading}
+              isFiltered={hasProductListFilters(listParams)}
+              sort={listParams.sort}
+              ascending={listParams.ascending}
+              onSortChange={handleSortChange}
+              selectedIds={selectedIds}
+              onSelectionChange={handleSelectionChange}
               onEdit={handleEdit}
+              onStockHistory={setStockProduct}
               onDelete={handleDelete}
               onAddProduct={() => setIsAddDialogOpen(true)}
             />
             
-            {filteredProducts.length > productsPerPage && (
+            {pageCount > 1 && (
               <div className="flex justify-center mt-4">
                 <Pagination>
                   <PaginationContent>
                     <PaginationItem>
                       <PaginationPrevious 
-                        onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                        onClick={() => setPage(Math.max(currentPage - 1, 1))}
                         className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
                       />
                     </PaginationItem>
                     {Array.from({ length: Math.min(5, pageCount) }, (_, i) => {
-                      const pageNumber = Math.max(1, Math.min(currentPage - 2 + i, pageCount));
+                      const pageNumber = firstPageLink + i;
                       return (
                         <PaginationItem key={pageNumber}>
                           <PaginationLink
                             isActive={currentPage === pageNumber}
-                            onClick={() => setCurrentPage(pageNumber)}
+                            onClick={() => setPage(pageNumber)}
                           >
                             {pageNumber}
                           </PaginationLink>
@@ -351,8 +606,8 @@ const ProductsPage = () => {
                     })}
                     <PaginationItem>
                       <PaginationNext 
-                        onClick={() => setCurrentPage(prev => Math.min(prev + 1, pageCount))}
-                        className={currentPage === pageCount ? "pointer-events-none opacity-50" : ""}
+                        onClick={() => setPage(Math.min(currentPage + 1, pageCount))}
+                        className={currentPage >= pageCount ? "pointer-events-none opacity-50" : ""}
                       />
                     </PaginationItem>
                   </PaginationContent>
@@ -363,6 +618,29 @@ const ProductsPage = () => {
         </Card>
       </div>
       
+      <ProductImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        categories={categories}
+        attributeDefinitions={attributeDefinitions}
+        onImported={handleImported}
+      />
+
+      <ProductBulkActionDialog
+        actionType={bulkAction?.type ?? null}
+        flagValue={bulkAction?.flagValue}
+        products={selectedProducts}
+        categories={categories}
+        onClose={() => setBulkAction(null)}
+        onApplied={handleBulkApplied}
+      />
+
+      <ProductStockDialog
+        product={stockProduct}
+        onClose={() => setStockProduct(null)}
+        onStockChange={() => refetchProducts()}
+      />
+      
       {/* Edit Product Dialog */}
       {selectedProduct && (
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
@@ -373,17 +651,24 @@ const ProductsPage = () => {
             <ProductForm
               product={selectedProduct}
               categories={categories}
-              imageFile={editImageFile}
-              imagePreview={editImagePreview}
+              attributeDefinitions={getAttributesFor(selectedProduct.category_id)}
+              images={editImages}
               isLoading={isLoading}
               isEdit={true}
               onSubmit={handleUpdateProduct}
               onInputChange={handleInputChange}
               onCategoryChange={handleCategoryChange}
+              onFulfilmentModeChange={handleFulfilmentModeChange}
+              onAttributeChange={handleAttributeChange}
               onSwitchChange={handleSwitchChange}
-              onImageChange={handleImageChange}
+              onAddImages={handleAddImages}
+              onImagesChange={setEditImages}
               onCancel={() => setIsEditDialogOpen(false)}
             />
+            <ProductVariantsManager
+              productId={selectedProduct.id}
+              onStockChange={handleVariantStockChange}
+            />
           </DialogContent>
         </Dialog>
       )}
@@ -1,6 +1,6 @@
 
-import React, { useState } from 'react';
-import { Settings, User, Store, Mail, Bell, Lock, Save } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Settings, User, Store, Mail, Bell, Lock, Save, Wallet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -10,6 +10,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/components/ui/use-toast';
 import AdminLayout from '@/components/layout/AdminLayout';
+import { fetchCodSettings, updateCodSettings } from '@/lib/api/settings';
 
 const SettingsPage = () => {
   const { toast } = useToast();
@@ -44,8 +45,32 @@ const SettingsPage = () => {
     confirmPassword: '',
   });
   
+  // Cash on delivery rules, stored in the database
+  const [codSettings, setCodSettings] = useState({
+    enabled: true,
+    maxOrderValue: '',
+    blockedPincodes: '',
+    maxRtoCount: '2',
+  });
+  
   const [isLoading, setIsLoading] = useState(false);
   
+  useEffect(() => {
+    const loadCodSettings = async () => {
+      const settings = await fetchCodSettings();
+      if (settings) {
+        setCodSettings({
+          enabled: settings.enabled,
+          maxOrderValue: settings.max_order_value?.toString() ?? '',
+          blockedPincodes: settings.blocked_pincodes.join('\n'),
+          maxRtoCount: settings.max_rto_count.toString(),
+        });
+      }
+    };
+    
+    loadCodSettings();
+  }, []);
+  
   const handleStoreSettingChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setStoreSettings(prev => ({ ...prev, [name]: value }));
@@ -88,6 +113,33 @@ const SettingsPage = () => {
     }, 1000);
   };
   
+  const handleCodSettingChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setCodSettings(prev => ({ ...prev, [name]: value }));
+  };
+  
+  const saveCodSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    
+    // Pincodes may be separated by commas, spaces or new lines
+    const blockedPincodes = Array.from(new Set(
+      codSettings.blockedPincodes.split(/[\s,]+/).map(pincode => pincode.trim()).filter(Boolean)
+    ));
+    
+    const saved = await updateCodSettings({
+      enabled: codSettings.enabled,
+      max_order_value: codSettings.maxOrderValue ? Number(codSettings.maxOrderValue) : null,
+      blocked_pincodes: blockedPincodes,
+      max_rto_count: Number(codSettings.maxRtoCount) || 0,
+    });
+    
+    if (saved) {
+      setCodSettings(prev => ({ ...prev, blockedPincodes: saved.blocked_pincodes.join('\n') }));
+    }
+    setIsLoading(false);
+  };
+  
   const saveUserSettings = (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -129,11 +181,15 @@ const SettingsPage = () => {
         </div>
         
         <Tabs defaultValue="store" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="store">
               <Store className="mr-2 h-4 w-4" />
               Store Settings
             </TabsTrigger>
+            <TabsTrigger value="payments">
+              <Wallet className="mr-2 h-4 w-4" />
+              Payments
+            </TabsTrigger>
             <TabsTrigger value="notifications">
               <Bell className="mr-2 h-4 w-4" />
               Notifications
@@ -247,6 +303,86 @@ const SettingsPage = () => {
             </Card>
           </TabsContent>
           
+          <TabsContent value="payments">
+            <Card>
+              <form onSubmit={saveCodSettings}>
+                <CardHeader>
+                  <CardTitle>Cash on Delivery</CardTitle>
+                  <CardDescription>
+                    Decide who can pay by cash or UPI when their order arrives
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="font-medium">Pay on Delivery</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Offer Cash on Delivery and UPI on Delivery at checkout
+                      </p>
+                    </div>
+                    <Switch
+                      checked={codSettings.enabled}
+                      onCheckedChange={(checked) => setCodSettings(prev => ({ ...prev, enabled: checked }))}
+                    />
+                  </div>
+                  
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="maxOrderValue">Maximum Order Value (₹)</Label>
+                      <Input
+                        id="maxOrderValue"
+                        name="maxOrderValue"
+                        type="number"
+                        min="0"
+                        placeholder="No limit"
+                        value={codSettings.maxOrderValue}
+                        onChange={handleCodSettingChange}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxRtoCount">Maximum Returned Orders per Customer</Label>
+                      <Input
+                        id="maxRtoCount"
+                        name="maxRtoCount"
+                        type="number"
+                        min="0"
+                        value={codSettings.maxRtoCount}
+                        onChange={handleCodSettingChange}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Customers with this many RTO orders lose pay on delivery
+                      </p>
+                    </div>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="blockedPincodes">Blocked Pincodes</Label>
+                    <Textarea
+                      id="blockedPincodes"
+                      name="blockedPincodes"
+                      placeholder="One pincode per line"
+                      value={codSettings.blockedPincodes}
+                      onChange={handleCodSettingChange}
+                      rows={5}
+                    />
+                  </div>
+                </CardContent>
+                <CardFooter className="flex justify-end">
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? (
+                      <>Saving...</>
+                    ) : (
+                      <>
+                        <Save className="mr-2 h-4 w-4" />
+                        Save Changes
+                      </>
+                    )}
+                  </Button>
+                </CardFooter>
+              </form>
+            </Card>
+          </TabsContent>
+          
           <TabsContent value="notifications">
             <Card>
               <form onSubmit={saveEmailSettings}>
@@ -0,0 +1,298 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Bell, History, Loader2, Send } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import AdminLayout from '@/components/layout/AdminLayout';
+import ProductStockDialog from '@/components/products/ProductStockDialog';
+import { ProductWithCategory } from '@/lib/api/products';
+import {
+  StockAlertDigestType,
+  fetchLastStockAlertDigest,
+  fetchStockAlertProducts,
+  sendStockAlertDigest,
+  updateReorderThreshold,
+} from '@/lib/api/stockAlerts';
+import { RestockDemandType, fetchRestockDemand, sendRestockEmails } from '@/lib/api/stockSubscriptions';
+
+const StockAlertsPage = () => {
+  const [products, setProducts] = useState<ProductWithCategory[]>([]);
+  const [lastDigest, setLastDigest] = useState<StockAlertDigestType | null>(null);
+  const [demand, setDemand] = useState<RestockDemandType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [isEmailing, setIsEmailing] = useState(false);
+  // Unsaved thresholds by product id
+  const [thresholds, setThresholds] = useState<Record<string, string>>({});
+  const [stockProduct, setStockProduct] = useState<ProductWithCategory | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    const [productsData, digest, demandData] = await Promise.all([
+      fetchStockAlertProducts(),
+      fetchLastStockAlertDigest(),
+      fetchRestockDemand(),
+    ]);
+    setProducts(productsData);
+    setLastDigest(digest);
+    setDemand(demandData);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  const handleSaveThreshold = async (product: ProductWithCategory) => {
+    const threshold = Number(thresholds[product.id]);
+    if (!Number.isInteger(threshold) || threshold < 0) return;
+
+    const updated = await updateReorderThreshold(product.id, threshold);
+    if (updated) {
+      setThresholds(prev => {
+        const { [product.id]: _saved, ...rest } = prev;
+        return rest;
+      });
+      // A higher stock than the new threshold takes the product off the list
+      await loadProducts();
+    }
+  };
+
+  const handleSendDigest = async () => {
+    setIsSending(true);
+    if (await sendStockAlertDigest()) {
+      setLastDigest(await fetchLastStockAlertDigest());
+    }
+    setIsSending(false);
+  };
+
+  const handleSendRestockEmails = async () => {
+    setIsEmailing(true);
+    if (await sendRestockEmails()) {
+      setDemand(await fetchRestockDemand());
+    }
+    setIsEmailing(false);
+  };
+
+  // Shoppers waiting for each product, across its variants
+  const waitingFor = (productId: string) => demand
+    .filter(item => item.product_id === productId)
+    .reduce((total, item) => total + item.waiting, 0);
+
+  const outOfStock = products.filter(product => product.stock_status === 'out_of_stock');
+  const lowStock = products.filter(product => product.stock_status === 'low_stock');
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold">Stock Alerts</h1>
+            <p className="text-muted-foreground">
+              Products at or below their reorder threshold
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleSendDigest} disabled={isSending}>
+            {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Send Digest Now
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Out of Stock</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-700">{isLoading ? '...' : outOfStock.length}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Low Stock</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-amber-700">{isLoading ? '...' : lowStock.length}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Last Digest</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {lastDigest ? format(new Date(lastDigest.sent_at), 'MMM dd, yyyy') : 'Never'}
+              </div>
+              {lastDigest && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Sent by {lastDigest.channel}: {lastDigest.out_of_stock_count} out of stock,{' '}
+                  {lastDigest.low_stock_count} low, {lastDigest.new_count} new
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reorder List</CardTitle>
+            <CardDescription>
+              Sold out products first. A daily digest of this list goes to the store admins.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead>Reorder At</TableHead>
+                  <TableHead>Low Since</TableHead>
+                  <TableHead className="text-right">Waiting</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : products.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                      Every product is above its reorder threshold.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  products.map(product => (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-medium">{product.name}</TableCell>
+                      <TableCell>{product.category_name || 'Uncategorized'}</TableCell>
+                      <TableCell>
+                        {product.stock_status === 'out_of_stock' ? (
+                          <Badge variant="outline" className="bg-red-50 text-red-700 hover:bg-red-50">
+                            Out of Stock
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="bg-amber-50 text-amber-700 hover:bg-amber-50">
+                            Low Stock
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{product.stock ?? 0}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            className="h-8 w-20"
+                            value={thresholds[product.id] ?? String(product.reorder_threshold ?? 0)}
+                            onChange={(e) => setThresholds(prev => ({ ...prev, [product.id]: e.target.value }))}
+                            aria-label={`Reorder threshold for ${product.name}`}
+                          />
+                          {thresholds[product.id] !== undefined && (
+                            <Button size="sm" variant="outline" onClick={() => handleSaveThreshold(product)}>
+                              Save
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {product.low_stock_since ? format(new Date(product.low_stock_since), 'MMM dd, yyyy') : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{waitingFor(product.id) || '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => setStockProduct(product)}>
+                          <History className="mr-2 h-4 w-4" />
+                          Record Stock
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Back-in-Stock Requests</CardTitle>
+              <CardDescription>
+                Shoppers who asked to be emailed when an item is back. Each is emailed once,
+                shortly after the item has stock again.
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={handleSendRestockEmails} disabled={isEmailing}>
+              {isEmailing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Bell className="mr-2 h-4 w-4" />}
+              Send Restock Emails
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Variant</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Waiting</TableHead>
+                  <TableHead>Waiting Since</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {demand.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                      {isLoading ? 'Loading...' : 'No shoppers are waiting for an item.'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  demand.map(item => (
+                    <TableRow key={item.variant_id ?? item.product_id}>
+                      <TableCell className="font-medium">{item.product_name}</TableCell>
+                      <TableCell>
+                        {item.variant_sku ?? '—'}
+                        {item.variant_name && (
+                          <span className="block text-xs text-muted-foreground">{item.variant_name}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.stock > 0 ? item.stock : <span className="text-red-700">Sold out</span>}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{item.waiting}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(new Date(item.oldest), 'MMM dd, yyyy')}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ProductStockDialog
+        product={stockProduct}
+        onClose={() => setStockProduct(null)}
+        onStockChange={loadProducts}
+      />
+    </AdminLayout>
+  );
+};
+
+export default StockAlertsPage;
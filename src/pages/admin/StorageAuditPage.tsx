@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { HardDrive, Loader2, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { format } from 'date-fns';
+import AdminLayout from '@/components/layout/AdminLayout';
+import { StorageObjectType, fetchUnreferencedImages, deleteStorageObjects } from '@/lib/api/storage';
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const StorageAuditPage = () => {
+  const [objects, setObjects] = useState<StorageObjectType[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [hasScanned, setHasScanned] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const totalSize = objects.reduce((sum, object) => sum + (object.size ?? 0), 0);
+  const allSelected = objects.length > 0 && selected.length === objects.length;
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setObjects(await fetchUnreferencedImages());
+    setSelected([]);
+    setHasScanned(true);
+    setIsScanning(false);
+  };
+
+  const toggleObject = (path: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, path] : prev.filter(p => p !== path)));
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Permanently delete ${selected.length} unused ${selected.length === 1 ? 'image' : 'images'}?`)) return;
+
+    setIsDeleting(true);
+    const success = await deleteStorageObjects(selected);
+    if (success) {
+      setObjects(objects.filter(object => !selected.includes(object.path)));
+      setSelected([]);
+    }
+    setIsDeleting(false);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Storage Audit</h1>
+            <p className="text-muted-foreground">
+              Find product images that are no longer used by any product
+            </p>
+          </div>
+          <Button onClick={handleScan} disabled={isScanning || isDeleting}>
+            {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+            Scan Bucket
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Unreferenced Images</CardTitle>
+              <CardDescription>
+                Images uploaded in the last hour are skipped, as they may belong to a product being saved.
+              </CardDescription>
+            </div>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={selected.length === 0 || isDeleting}
+            >
+              {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Delete Selected ({selected.length})
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {!hasScanned ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <HardDrive className="h-10 w-10 mx-auto mb-2" />
+                Scan the bucket to find unused images.
+              </div>
+            ) : objects.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Every image in the bucket is used by a product.
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {objects.length} unused {objects.length === 1 ? 'file' : 'files'}, {formatSize(totalSize)} in total
+                </p>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={allSelected}
+                            onCheckedChange={(checked) => setSelected(checked ? objects.map(object => object.path) : [])}
+                            aria-label="Select all"
+                          />
+                        </TableHead>
+                        <TableHead>Preview</TableHead>
+                        <TableHead>Path</TableHead>
+                        <TableHead>Size</TableHead>
+                        <TableHead>Uploaded</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {objects.map(object => (
+                        <TableRow key={object.path}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.includes(object.path)}
+                              onCheckedChange={(checked) => toggleObject(object.path, checked === true)}
+                              aria-label={`Select ${object.path}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <a href={object.url} target="_blank" rel="noopener noreferrer">
+                              <img src={object.url} alt="" className="h-12 w-12 rounded-md object-cover" loading="lazy" />
+                            </a>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs break-all">{object.path}</TableCell>
+                          <TableCell>{formatSize(object.size)}</TableCell>
+                          <TableCell>
+                            {object.created_at ? format(new Date(object.created_at), 'dd MMM yyyy') : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default StorageAuditPage;
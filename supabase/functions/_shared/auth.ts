@@ -0,0 +1,14 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Whether the request comes from a scheduled job holding the service role key
+// or from a signed-in admin
+export const isServiceOrAdmin = async (supabase: SupabaseClient, req: Request, serviceRoleKey: string) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  if (token === serviceRoleKey) return true;
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  return Boolean(isAdmin);
+};
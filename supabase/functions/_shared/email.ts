@@ -0,0 +1,25 @@
+const RESEND_API = 'https://api.resend.com/emails';
+
+export interface Email {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+// Sends a plain-text email through Resend; throws when it is not accepted
+export const sendResendEmail = async (apiKey: string, { from, to, subject, text }: Email) => {
+  const response = await fetch(RESEND_API, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from, to, subject, text }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Email to ${to.join(', ')} failed with status ${response.status}`);
+  }
+};
@@ -0,0 +1,126 @@
+// Shopping feeds for Google Merchant Center (RSS 2.0 with the g: namespace)
+// and Meta commerce catalogs (CSV). Both list the regular price and, for
+// discounted products, the sale price customers actually pay. Pre-order and
+// made-to-order products stay orderable once their stock runs out.
+
+export interface FeedProduct {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  sale_price: number | null;
+  discount: number | null;
+  stock: number | null;
+  fulfilment_mode: string;
+  image: string | null;
+  category: string | null;
+  // Gallery images after the cover, in order
+  additionalImages: string[];
+}
+
+export interface FeedOptions {
+  siteUrl: string;
+  storeName: string;
+  currency: string;
+}
+
+// Google allows 10 additional images, Meta 20; keep to the smaller limit
+const MAX_ADDITIONAL_IMAGES = 10;
+
+const formatPrice = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+type Availability = 'in_stock' | 'out_of_stock' | 'preorder' | 'backorder';
+
+const getAvailability = (product: FeedProduct): Availability => {
+  if ((product.stock ?? 0) > 0) return 'in_stock';
+  if (product.fulfilment_mode === 'pre_order') return 'preorder';
+  if (product.fulfilment_mode === 'made_to_order') return 'backorder';
+  return 'out_of_stock';
+};
+
+const isOnSale = (product: FeedProduct) =>
+  !!product.discount && product.sale_price !== null && product.sale_price < product.price;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeCsv = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Both feeds reject items without an image, so those are left out
+const listable = (products: FeedProduct[]) => products.filter(product => product.image);
+
+const productLink = (product: FeedProduct, options: FeedOptions) =>
+  `${options.siteUrl.replace(/\/$/, '')}/product/${product.id}`;
+
+export const buildGoogleMerchantFeed = (products: FeedProduct[], options: FeedOptions): string => {
+  const items = listable(products).map(product => {
+    const fields: [string, string][] = [
+      ['g:id', product.id],
+      ['g:title', product.name],
+      ['g:description', product.description || product.name],
+      ['g:link', productLink(product, options)],
+      ['g:image_link', product.image as string],
+      ...product.additionalImages.slice(0, MAX_ADDITIONAL_IMAGES).map(url => ['g:additional_image_link', url] as [string, string]),
+      ['g:availability', getAvailability(product)],
+      ['g:price', formatPrice(product.price, options.currency)],
+      ...(isOnSale(product) ? [['g:sale_price', formatPrice(product.sale_price as number, options.currency)] as [string, string]] : []),
+      ['g:condition', 'new'],
+      ['g:brand', options.storeName],
+      // Handloom pieces have no GTIN or MPN
+      ['g:identifier_exists', 'no'],
+      ...(product.category ? [['g:product_type', product.category] as [string, string]] : []),
+    ];
+
+    return `    <item>\n${fields.map(([tag, value]) => `      <${tag}>${escapeXml(value)}</${tag}>`).join('\n')}\n    </item>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+    '  <channel>',
+    `    <title>${escapeXml(options.storeName)}</title>`,
+    `    <link>${escapeXml(options.siteUrl)}</link>`,
+    `    <description>${escapeXml(`${options.storeName} product catalog`)}</description>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+};
+
+const metaColumns = [
+  'id', 'title', 'description', 'availability', 'condition', 'price', 'sale_price',
+  'link', 'image_link', 'additional_image_link', 'brand', 'product_type',
+];
+
+// Meta's names for the same states; it has no "backorder"
+const metaAvailability: Record<Availability, string> = {
+  in_stock: 'in stock',
+  out_of_stock: 'out of stock',
+  preorder: 'preorder',
+  backorder: 'available for order',
+};
+
+export const buildMetaCatalogFeed = (products: FeedProduct[], options: FeedOptions): string => {
+  const rows = listable(products).map(product => [
+    product.id,
+    product.name,
+    product.description || product.name,
+    metaAvailability[getAvailability(product)],
+    'new',
+    formatPrice(product.price, options.currency),
+    isOnSale(product) ? formatPrice(product.sale_price as number, options.currency) : '',
+    productLink(product, options),
+    product.image as string,
+    product.additionalImages.slice(0, MAX_ADDITIONAL_IMAGES).join(','),
+    options.storeName,
+    product.category ?? '',
+  ]);
+
+  return [metaColumns, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+};
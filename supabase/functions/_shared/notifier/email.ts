@@ -0,0 +1,17 @@
+import { sendResendEmail } from '../email.ts';
+import type { Notifier } from './types.ts';
+
+interface EmailConfig {
+  apiKey: string;
+  from: string;
+  to: string[];
+}
+
+// Sends plain-text email to the admin addresses through Resend
+export const createEmailNotifier = ({ apiKey, from, to }: EmailConfig): Notifier => ({
+  id: 'email',
+
+  async send({ subject, text }) {
+    await sendResendEmail(apiKey, { from, to, subject, text });
+  },
+});
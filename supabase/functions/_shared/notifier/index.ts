@@ -0,0 +1,30 @@
+import { createEmailNotifier } from './email.ts';
+import { createLogNotifier } from './log.ts';
+import { createWebhookNotifier } from './webhook.ts';
+import type { Notifier } from './types.ts';
+
+export type { Notification, Notifier, NotifierId } from './types.ts';
+
+// NOTIFIER selects the adapter for admin alerts; anything other than "email"
+// or "webhook" falls back to logging them.
+export const getNotifier = (): Notifier => {
+  const notifier = Deno.env.get('NOTIFIER');
+
+  if (notifier === 'email') {
+    return createEmailNotifier({
+      apiKey: Deno.env.get('RESEND_API_KEY') ?? '',
+      from: Deno.env.get('NOTIFY_EMAIL_FROM') ?? '',
+      // Comma-separated list of admin addresses
+      to: (Deno.env.get('NOTIFY_EMAIL_TO') ?? '').split(',').map((email) => email.trim()).filter(Boolean),
+    });
+  }
+
+  if (notifier === 'webhook') {
+    return createWebhookNotifier({
+      url: Deno.env.get('NOTIFY_WEBHOOK_URL') ?? '',
+      secret: Deno.env.get('NOTIFY_WEBHOOK_SECRET') ?? '',
+    });
+  }
+
+  return createLogNotifier();
+};
@@ -0,0 +1,11 @@
+import type { Notifier } from './types.ts';
+
+// Local notifier that only writes to the function log, so alerts can be
+// tried out without an email account or webhook endpoint.
+export const createLogNotifier = (): Notifier => ({
+  id: 'log',
+
+  async send({ subject, text }) {
+    console.log(`[notification] ${subject}\n${text}`);
+  },
+});
@@ -0,0 +1,15 @@
+export type NotifierId = 'email' | 'webhook' | 'log';
+
+export interface Notification {
+  subject: string;
+  // Plain-text body, for email and chat webhooks
+  text: string;
+  // Structured copy of the contents, for webhooks that process them
+  data?: unknown;
+}
+
+export interface Notifier {
+  id: NotifierId;
+  // Throws when the notification could not be delivered
+  send(notification: Notification): Promise<void>;
+}
@@ -0,0 +1,27 @@
+import type { Notifier } from './types.ts';
+
+interface WebhookConfig {
+  url: string;
+  // Sent as a bearer token, if set, so the receiver can check the sender
+  secret: string;
+}
+
+// Posts { subject, text, data } as JSON, e.g. to a chat or automation webhook
+export const createWebhookNotifier = ({ url, secret }: WebhookConfig): Notifier => ({
+  id: 'webhook',
+
+  async send(notification) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(secret ? { 'Authorization': `Bearer ${secret}` } : {}),
+      },
+      body: JSON.stringify(notification),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  },
+});
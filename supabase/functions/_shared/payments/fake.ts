@@ -0,0 +1,41 @@
+import { hmacSha256Hex, safeEqual } from './hmac.ts';
+import type { PaymentProvider, WebhookEvent } from './types.ts';
+
+// Local provider that never leaves the machine. The browser side decides the
+// outcome by sending { outcome: 'success' | 'failure' } when confirming, and
+// webhooks are signed with FAKE_PAYMENT_WEBHOOK_SECRET so the webhook path can
+// be exercised with curl.
+export const createFakeProvider = (webhookSecret: string): PaymentProvider => ({
+  id: 'fake',
+  publicKey: null,
+
+  async createIntent({ amount, currency }) {
+    return { id: `fake_order_${crypto.randomUUID()}`, amount, currency };
+  },
+
+  async confirm(intentId, payload) {
+    if (payload.outcome !== 'success') {
+      return { confirmed: false, reason: 'Payment declined by fake provider' };
+    }
+
+    return { confirmed: true, paymentId: `fake_pay_${intentId.replace('fake_order_', '')}` };
+  },
+
+  async refund() {
+    return { refundId: `fake_rfnd_${crypto.randomUUID()}`, status: 'processed' };
+  },
+
+  async verifyWebhook(rawBody, signature) {
+    if (!signature) return null;
+
+    const expected = await hmacSha256Hex(webhookSecret, rawBody);
+    if (!safeEqual(expected, signature)) return null;
+
+    const body = JSON.parse(rawBody);
+    return {
+      type: (body.event as WebhookEvent['type']) ?? 'unknown',
+      intentId: body.intent_id ?? null,
+      paymentId: body.payment_id ?? null,
+    };
+  },
+});
@@ -0,0 +1,42 @@
+import { createFakeProvider } from './fake.ts';
+import { createRazorpayProvider } from './razorpay.ts';
+import type { PaymentProvider } from './types.ts';
+
+export type { PaymentProvider, PaymentProviderId } from './types.ts';
+
+// Environments where the fake provider may run, from APP_ENV
+const FAKE_PROVIDER_ENVIRONMENTS = ['local', 'development'];
+
+const requireEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+};
+
+// PAYMENT_PROVIDER selects the adapter and must be set explicitly. The fake
+// provider approves whatever the browser asks, so it is refused unless
+// APP_ENV is local or development. Throws when misconfigured rather than
+// taking payments through the wrong provider.
+export const getPaymentProvider = (): PaymentProvider => {
+  const providerId = Deno.env.get('PAYMENT_PROVIDER');
+
+  if (providerId === 'razorpay') {
+    return createRazorpayProvider({
+      keyId: requireEnv('RAZORPAY_KEY_ID'),
+      keySecret: requireEnv('RAZORPAY_KEY_SECRET'),
+      webhookSecret: requireEnv('RAZORPAY_WEBHOOK_SECRET'),
+    });
+  }
+
+  if (providerId === 'fake') {
+    if (!FAKE_PROVIDER_ENVIRONMENTS.includes(Deno.env.get('APP_ENV') ?? '')) {
+      throw new Error('The fake payment provider is only available when APP_ENV is local or development');
+    }
+
+    return createFakeProvider(requireEnv('FAKE_PAYMENT_WEBHOOK_SECRET'));
+  }
+
+  throw new Error(`PAYMENT_PROVIDER must be "razorpay" or "fake", got ${providerId ? `"${providerId}"` : 'nothing'}`);
+};
@@ -0,0 +1,94 @@
+import { hmacSha256Hex, safeEqual } from './hmac.ts';
+import type { PaymentProvider, WebhookEvent } from './types.ts';
+
+const RAZORPAY_API = 'https://api.razorpay.com/v1';
+
+interface RazorpayConfig {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+}
+
+export const createRazorpayProvider = ({ keyId, keySecret, webhookSecret }: RazorpayConfig): PaymentProvider => {
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${RAZORPAY_API}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Basic ${btoa(`${keyId}:${keySecret}`)}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      throw new Error(body?.error?.description || `Razorpay request to ${path} failed`);
+    }
+    return body;
+  };
+
+  return {
+    id: 'razorpay',
+    publicKey: keyId,
+
+    async createIntent({ orderId, amount, currency }) {
+      const order = await request('/orders', {
+        method: 'POST',
+        body: JSON.stringify({ amount, currency, receipt: orderId }),
+      });
+
+      return { id: order.id, amount: order.amount, currency: order.currency };
+    },
+
+    async confirm(intentId, payload) {
+      const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = payload;
+
+      if (razorpay_order_id !== intentId || !razorpay_payment_id || !razorpay_signature) {
+        return { confirmed: false, reason: 'Incomplete payment response' };
+      }
+
+      const expected = await hmacSha256Hex(keySecret, `${razorpay_order_id}|${razorpay_payment_id}`);
+      if (!safeEqual(expected, razorpay_signature)) {
+        return { confirmed: false, reason: 'Payment signature mismatch' };
+      }
+
+      return { confirmed: true, paymentId: razorpay_payment_id };
+    },
+
+    async refund(intentId, amount) {
+      const { items } = await request(`/orders/${intentId}/payments`);
+      const captured = (items || []).find((payment: { status: string }) => payment.status === 'captured');
+
+      if (!captured) {
+        throw new Error('No captured payment found for this order');
+      }
+
+      const refund = await request(`/payments/${captured.id}/refund`, {
+        method: 'POST',
+        body: JSON.stringify(amount ? { amount } : {}),
+      });
+
+      return { refundId: refund.id, status: refund.status };
+    },
+
+    async verifyWebhook(rawBody, signature) {
+      if (!signature) return null;
+
+      const expected = await hmacSha256Hex(webhookSecret, rawBody);
+      if (!safeEqual(expected, signature)) return null;
+
+      const body = JSON.parse(rawBody);
+      const payment = body.payload?.payment?.entity;
+      const type: WebhookEvent['type'] =
+        body.event === 'payment.captured' || body.event === 'payment.failed' || body.event === 'refund.processed'
+          ? body.event
+          : 'unknown';
+
+      return {
+        type,
+        intentId: payment?.order_id ?? null,
+        paymentId: payment?.id ?? null,
+      };
+    },
+  };
+};
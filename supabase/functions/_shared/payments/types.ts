@@ -0,0 +1,43 @@
+export type PaymentProviderId = 'razorpay' | 'fake';
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+}
+
+export interface CreateIntentInput {
+  orderId: string;
+  // Amount in the smallest currency unit (paise for INR)
+  amount: number;
+  currency: string;
+}
+
+export interface ConfirmResult {
+  confirmed: boolean;
+  paymentId?: string;
+  reason?: string;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: string;
+}
+
+export interface WebhookEvent {
+  type: 'payment.captured' | 'payment.failed' | 'refund.processed' | 'unknown';
+  intentId: string | null;
+  paymentId: string | null;
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  // Key the browser needs to open the provider's checkout, if any
+  publicKey: string | null;
+  createIntent(input: CreateIntentInput): Promise<PaymentIntent>;
+  // Verifies what the browser checkout returned for this intent
+  confirm(intentId: string, payload: Record<string, string>): Promise<ConfirmResult>;
+  refund(intentId: string, amount?: number): Promise<RefundResult>;
+  // Returns null when the signature does not match the body
+  verifyWebhook(rawBody: string, signature: string | null): Promise<WebhookEvent | null>;
+}
@@ -0,0 +1,85 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isServiceOrAdmin } from '../_shared/auth.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { sendResendEmail } from '../_shared/email.ts';
+
+interface RestockNotification {
+  id: string;
+  email: string;
+  product_id: string;
+  product_name: string;
+  variant_name: string | null;
+}
+
+// Largest number of emails sent per run
+const BATCH_SIZE = 100;
+
+// Emails shoppers whose product or variant is back in stock, once per
+// subscription. Runs every five minutes from the pg_cron job in
+// 20250612090000_schedule_restock_emails.sql; admins can also run it from the
+// Stock Alerts page. Without RESEND_API_KEY the emails are only logged.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  if (!await isServiceOrAdmin(supabase, req, serviceRoleKey)) {
+    return jsonResponse({ error: 'Only admins can send restock emails' }, 403);
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('claim_restock_notifications', { _limit: BATCH_SIZE });
+
+    if (error) throw error;
+
+    const apiKey = Deno.env.get('RESEND_API_KEY');
+    const from = Deno.env.get('NOTIFY_EMAIL_FROM') ?? '';
+    const siteUrl = Deno.env.get('SITE_URL') ?? '';
+    const storeName = Deno.env.get('STORE_NAME') ?? 'Usha Designs';
+    const failedIds: string[] = [];
+
+    for (const notification of data as RestockNotification[]) {
+      const item = notification.variant_name
+        ? `${notification.product_name} (${notification.variant_name})`
+        : notification.product_name;
+      const email = {
+        from,
+        to: [notification.email],
+        subject: `${item} is back in stock`,
+        text: [
+          `Good news: ${item} is available again at ${storeName}.`,
+          `Stock is limited, so order soon: ${siteUrl}/product/${notification.product_id}`,
+          'You asked to hear about this item once. We won\'t email you about it again.',
+        ].join('\n\n'),
+      };
+
+      try {
+        if (apiKey) {
+          await sendResendEmail(apiKey, email);
+        } else {
+          console.log(`[restock email] to ${notification.email}: ${email.subject}`);
+        }
+      } catch (sendError) {
+        console.error(`Error emailing ${notification.email}:`, sendError);
+        failedIds.push(notification.id);
+      }
+    }
+
+    // Failed subscriptions wait for the next run
+    if (failedIds.length > 0) {
+      const { error: releaseError } = await supabase.rpc('release_restock_notifications', { _ids: failedIds });
+
+      if (releaseError) {
+        console.error('Error releasing failed restock emails:', releaseError);
+      }
+    }
+
+    return jsonResponse({ sent: data.length - failedIds.length, failed: failedIds.length });
+  } catch (error) {
+    console.error('Restock email error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Could not send restock emails' }, 500);
+  }
+});
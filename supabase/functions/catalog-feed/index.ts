@@ -0,0 +1,82 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { FeedProduct, buildGoogleMerchantFeed, buildMetaCatalogFeed } from '../_shared/feeds.ts';
+
+// PostgREST returns at most this many rows per request
+const MAX_ROWS = 1000;
+
+// Public product feeds for shopping ads, fetched on a schedule by Merchant
+// Center (?format=google) and Commerce Manager (?format=meta). SITE_URL is
+// the storefront the product links point to.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const format = new URL(req.url).searchParams.get('format');
+  if (format !== 'google' && format !== 'meta') {
+    return jsonResponse({ error: 'format must be "google" or "meta"' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const loadPage = (from: number) => supabase
+    .from('products')
+    .select('id, name, description, price, sale_price, discount, stock, fulfilment_mode, image, categories(name), product_images(url, sort_order)')
+    .order('created_at', { ascending: false })
+    .order('id')
+    .range(from, from + MAX_ROWS - 1);
+
+  const data: NonNullable<Awaited<ReturnType<typeof loadPage>>['data']> = [];
+
+  for (let from = 0; ; from += MAX_ROWS) {
+    const { data: page, error } = await loadPage(from);
+
+    if (error) {
+      console.error('Error loading products for feed:', error);
+      return jsonResponse({ error: 'Could not load products' }, 500);
+    }
+
+    data.push(...page);
+    if (page.length < MAX_ROWS) break;
+  }
+
+  const products: FeedProduct[] = data.map((product) => ({
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    price: Number(product.price),
+    sale_price: product.sale_price === null ? null : Number(product.sale_price),
+    discount: product.discount,
+    stock: product.stock,
+    fulfilment_mode: product.fulfilment_mode,
+    image: product.image,
+    category: product.categories?.name ?? null,
+    additionalImages: [...(product.product_images ?? [])]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((image) => image.url)
+      .filter((url) => url !== product.image),
+  }));
+
+  const options = {
+    siteUrl: Deno.env.get('SITE_URL') ?? '',
+    storeName: Deno.env.get('STORE_NAME') ?? 'Usha Designs',
+    currency: 'INR',
+  };
+
+  const body = format === 'google'
+    ? buildGoogleMerchantFeed(products, options)
+    : buildMetaCatalogFeed(products, options);
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': format === 'google' ? 'application/xml; charset=utf-8' : 'text/csv; charset=utf-8',
+      // Feeds are fetched a few times a day at most
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+});
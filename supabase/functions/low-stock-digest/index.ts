@@ -0,0 +1,100 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isServiceOrAdmin } from '../_shared/auth.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getNotifier } from '../_shared/notifier/index.ts';
+
+interface AlertProduct {
+  id: string;
+  name: string;
+  stock: number | null;
+  reorder_threshold: number;
+  stock_status: string;
+  low_stock_since: string | null;
+}
+
+// Sends admins a digest of the products at or below their reorder threshold
+// through the configured notifier (see getNotifier). Runs every morning from
+// the pg_cron job in 20250611090000_schedule_low_stock_digest.sql; admins can
+// also send one from the Stock Alerts page. Nothing is sent when every
+// product is above its threshold.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  if (!await isServiceOrAdmin(supabase, req, serviceRoleKey)) {
+    return jsonResponse({ error: 'Only admins can send stock alerts' }, 403);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, name, stock, reorder_threshold, stock_status, low_stock_since')
+      .in('stock_status', ['low_stock', 'out_of_stock'])
+      .order('stock', { ascending: true, nullsFirst: true })
+      .order('name');
+
+    if (error) throw error;
+
+    const products = data as AlertProduct[];
+    if (products.length === 0) {
+      return jsonResponse({ sent: false });
+    }
+
+    const { data: previous } = await supabase
+      .from('stock_alert_digests')
+      .select('sent_at')
+      .order('sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const isNew = (product: AlertProduct) =>
+      !previous || (product.low_stock_since !== null && new Date(product.low_stock_since) > new Date(previous.sent_at));
+    const outOfStock = products.filter((product) => product.stock_status === 'out_of_stock');
+    const lowStock = products.filter((product) => product.stock_status === 'low_stock');
+    const newCount = products.filter(isNew).length;
+
+    const line = (product: AlertProduct) =>
+      `- ${product.name}: ${product.stock ?? 0} left (reorder at ${product.reorder_threshold})${isNew(product) ? ' NEW' : ''}`;
+    const sections = [
+      outOfStock.length > 0 ? `Out of stock (${outOfStock.length})\n${outOfStock.map(line).join('\n')}` : '',
+      lowStock.length > 0 ? `Low stock (${lowStock.length})\n${lowStock.map(line).join('\n')}` : '',
+      `Review and record receipts at ${Deno.env.get('SITE_URL') ?? ''}/admin/stock-alerts`,
+    ];
+
+    const notifier = getNotifier();
+    await notifier.send({
+      subject: `${products.length} ${products.length === 1 ? 'product needs' : 'products need'} reordering` +
+        (newCount > 0 ? ` (${newCount} new)` : ''),
+      text: sections.filter(Boolean).join('\n\n'),
+      data: { out_of_stock: outOfStock, low_stock: lowStock },
+    });
+
+    const { error: logError } = await supabase
+      .from('stock_alert_digests')
+      .insert({
+        channel: notifier.id,
+        low_stock_count: lowStock.length,
+        out_of_stock_count: outOfStock.length,
+        new_count: newCount,
+      });
+
+    if (logError) {
+      console.error('Error recording stock alert digest:', logError);
+    }
+
+    return jsonResponse({
+      sent: true,
+      channel: notifier.id,
+      low_stock: lowStock.length,
+      out_of_stock: outOfStock.length,
+      new: newCount,
+    });
+  } catch (error) {
+    console.error('Stock alert error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Could not send stock alert' }, 500);
+  }
+});
@@ -0,0 +1,44 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { jsonResponse } from '../_shared/cors.ts';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+
+// Safety net for payments whose browser confirmation never reached us
+// (closed tab, dropped connection). Razorpay signs with X-Razorpay-Signature;
+// the fake provider accepts the same header.
+Deno.serve(async (req) => {
+  const rawBody = await req.text();
+
+  let provider;
+  try {
+    provider = getPaymentProvider();
+  } catch (error) {
+    console.error('Payment provider misconfigured:', error);
+    return jsonResponse({ error: 'Payments are not configured' }, 500);
+  }
+
+  const event = await provider.verifyWebhook(rawBody, req.headers.get('X-Razorpay-Signature'));
+
+  if (!event) {
+    return jsonResponse({ error: 'Invalid signature' }, 401);
+  }
+
+  if (event.type === 'payment.captured' && event.intentId) {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { error } = await supabase
+      .from('orders')
+      .update({ status: 'processing', updated_at: new Date().toISOString() })
+      .eq('payment_intent', event.intentId)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('Error confirming order from webhook:', error);
+      return jsonResponse({ error: 'Could not update order' }, 500);
+    }
+  }
+
+  return jsonResponse({ received: true });
+});
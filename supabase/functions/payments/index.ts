@@ -0,0 +1,118 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+
+type PaymentAction =
+  | { action: 'create_intent'; order_id: string }
+  | { action: 'confirm'; order_id: string; payload: Record<string, string> }
+  | { action: 'refund'; order_id: string; amount?: number };
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  const { data: { user } } = await supabase.auth.getUser(token);
+
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  try {
+    const body = await req.json() as PaymentAction;
+    const provider = getPaymentProvider();
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, user_id, status, total, payment_intent, payment_method')
+      .eq('id', body.order_id)
+      .single();
+
+    if (orderError || !order) {
+      return jsonResponse({ error: 'Order not found' }, 404);
+    }
+
+    if (body.action === 'refund') {
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (!isAdmin) {
+        return jsonResponse({ error: 'Only admins can issue refunds' }, 403);
+      }
+      if (!order.payment_intent) {
+        return jsonResponse({ error: 'Order has no payment to refund' }, 400);
+      }
+
+      const refund = await provider.refund(
+        order.payment_intent,
+        body.amount ? Math.round(body.amount * 100) : undefined
+      );
+      return jsonResponse(refund);
+    }
+
+    if (order.user_id !== user.id) {
+      return jsonResponse({ error: 'Order not found' }, 404);
+    }
+
+    if (order.payment_method !== 'online') {
+      return jsonResponse({ error: 'Order is paid on delivery' }, 409);
+    }
+
+    if (order.status !== 'pending') {
+      return jsonResponse({ error: 'Order is not awaiting payment' }, 409);
+    }
+
+    if (body.action === 'create_intent') {
+      const intent = await provider.createIntent({
+        orderId: order.id,
+        amount: Math.round(order.total * 100),
+        currency: 'INR',
+      });
+
+      const { error: updateError } = await supabase
+        .from('orders')
+        .update({ payment_intent: intent.id, updated_at: new Date().toISOString() })
+        .eq('id', order.id);
+
+      if (updateError) throw updateError;
+
+      return jsonResponse({
+        provider: provider.id,
+        public_key: provider.publicKey,
+        intent_id: intent.id,
+        amount: intent.amount,
+        currency: intent.currency,
+      });
+    }
+
+    if (body.action === 'confirm') {
+      if (!order.payment_intent) {
+        return jsonResponse({ error: 'No payment was started for this order' }, 400);
+      }
+
+      const result = await provider.confirm(order.payment_intent, body.payload ?? {});
+
+      // Only a verified payment moves the order out of pending
+      if (result.confirmed) {
+        const { error: updateError } = await supabase
+          .from('orders')
+          .update({ status: 'processing', updated_at: new Date().toISOString() })
+          .eq('id', order.id)
+          .eq('status', 'pending');
+
+        if (updateError) throw updateError;
+      }
+
+      return jsonResponse(result);
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('Payment error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Payment failed' }, 500);
+  }
+});
@@ -0,0 +1,101 @@
+-- Places an order for the signed-in user from the contents of their cart.
+--
+-- Every product row in the cart is locked with FOR UPDATE (in id order, so two
+-- checkouts never deadlock) before stock is checked. When two customers race
+-- for the last unit, the second transaction waits on the lock, re-reads the
+-- decremented stock and fails with an out_of_stock error listing every short
+-- line as JSON in the error detail.
+create or replace function public.place_order(
+  _shipping_address jsonb,
+  _shipping_method text default 'standard'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid := auth.uid();
+  _cart_id uuid;
+  _order_id uuid;
+  _subtotal numeric := 0;
+  _shipping_cost numeric;
+  _short_lines jsonb := '[]'::jsonb;
+  _line record;
+begin
+  if _user_id is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  select id into _cart_id from carts where user_id = _user_id;
+
+  if _cart_id is null or not exists (select 1 from cart_items where cart_id = _cart_id) then
+    raise exception 'cart_empty' using errcode = 'P0001';
+  end if;
+
+  perform 1
+  from products p
+  where p.id in (select product_id from cart_items where cart_id = _cart_id)
+  order by p.id
+  for update;
+
+  for _line in
+    select ci.product_id, ci.quantity, p.name, coalesce(p.stock, 0) as stock,
+           p.price - (p.price * coalesce(p.discount, 0) / 100) as unit_price
+    from cart_items ci
+    join products p on p.id = ci.product_id
+    where ci.cart_id = _cart_id
+  loop
+    if _line.quantity > _line.stock then
+      _short_lines := _short_lines || jsonb_build_object(
+        'product_id', _line.product_id,
+        'name', _line.name,
+        'requested', _line.quantity,
+        'available', _line.stock
+      );
+    end if;
+    _subtotal := _subtotal + _line.unit_price * _line.quantity;
+  end loop;
+
+  if jsonb_array_length(_short_lines) > 0 then
+    raise exception 'out_of_stock'
+      using errcode = 'P0001', detail = _short_lines::text;
+  end if;
+
+  -- Mirrors shippingMethods in src/lib/constants.ts
+  _shipping_cost := case
+    when _shipping_method = 'express' then 250
+    when _subtotal > 1000 then 0
+    else 100
+  end;
+
+  insert into orders (user_id, status, total, shipping_address)
+  values (
+    _user_id,
+    'pending',
+    _subtotal + _shipping_cost,
+    _shipping_address || jsonb_build_object('shipping_method', _shipping_method)
+  )
+  returning id into _order_id;
+
+  insert into order_items (order_id, product_id, quantity, price)
+  select _order_id, ci.product_id, ci.quantity,
+         p.price - (p.price * coalesce(p.discount, 0) / 100)
+  from cart_items ci
+  join products p on p.id = ci.product_id
+  where ci.cart_id = _cart_id;
+
+  update products p
+  set stock = coalesce(p.stock, 0) - ci.quantity,
+      sales_count = coalesce(p.sales_count, 0) + ci.quantity,
+      updated_at = now()
+  from cart_items ci
+  where ci.cart_id = _cart_id and p.id = ci.product_id;
+
+  delete from cart_items where cart_id = _cart_id;
+
+  return _order_id;
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text) to authenticated;
@@ -0,0 +1,210 @@
+-- Pay-on-delivery modes and the rules that decide who may use them.
+
+alter table public.orders
+  add column payment_method text not null default 'online'
+  check (payment_method in ('online', 'cod', 'upi_on_delivery'));
+
+-- Single-row table edited from the admin Settings page
+create table public.cod_settings (
+  id integer primary key default 1 check (id = 1),
+  enabled boolean not null default true,
+  max_order_value numeric,
+  blocked_pincodes text[] not null default '{}',
+  max_rto_count integer not null default 2,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.cod_settings (id, max_order_value) values (1, 25000);
+
+alter table public.cod_settings enable row level security;
+
+create policy "Anyone can read COD settings"
+  on public.cod_settings for select
+  using (true);
+
+create policy "Admins can update COD settings"
+  on public.cod_settings for update
+  using (public.has_role(auth.uid(), 'admin'));
+
+-- Returns null when the user may pay on delivery, otherwise the reason why not.
+-- An RTO (return to origin) is a pay-on-delivery order the courier brought back.
+create or replace function public.cod_ineligibility_reason(
+  _user_id uuid,
+  _postal_code text,
+  _order_value numeric
+)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  _settings cod_settings;
+  _rto_count integer;
+begin
+  select * into _settings from cod_settings where id = 1;
+
+  if not found or not _settings.enabled then
+    return 'Pay on delivery is currently unavailable';
+  end if;
+
+  if _settings.max_order_value is not null and _order_value > _settings.max_order_value then
+    return format('Pay on delivery is available on orders up to ₹%s', _settings.max_order_value);
+  end if;
+
+  if trim(_postal_code) = any(_settings.blocked_pincodes) then
+    return 'Pay on delivery is not available for this PIN code';
+  end if;
+
+  select count(*) into _rto_count
+  from orders
+  where user_id = _user_id and status = 'rto';
+
+  if _rto_count >= _settings.max_rto_count then
+    return 'Pay on delivery is not available for this account';
+  end if;
+
+  return null;
+end;
+$$;
+
+-- Takes any user's id, so it is only called from the functions below, which
+-- pass the signed-in user's. Callers can't probe someone else's RTO history.
+revoke execute on function public.cod_ineligibility_reason(uuid, text, numeric) from public, anon, authenticated;
+
+-- Checks the signed-in user's current cart against the COD rules
+create or replace function public.check_cod_eligibility(_postal_code text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  _reason text;
+  _subtotal numeric;
+begin
+  select coalesce(sum((p.price - (p.price * coalesce(p.discount, 0) / 100)) * ci.quantity), 0)
+  into _subtotal
+  from carts c
+  join cart_items ci on ci.cart_id = c.id
+  join products p on p.id = ci.product_id
+  where c.user_id = auth.uid();
+
+  _reason := cod_ineligibility_reason(auth.uid(), _postal_code, _subtotal);
+
+  return jsonb_build_object('eligible', _reason is null, 'reason', _reason);
+end;
+$$;
+
+grant execute on function public.check_cod_eligibility(text) to authenticated;
+
+drop function if exists public.place_order(jsonb, text);
+
+create or replace function public.place_order(
+  _shipping_address jsonb,
+  _shipping_method text default 'standard',
+  _payment_method text default 'online'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid := auth.uid();
+  _cart_id uuid;
+  _order_id uuid;
+  _subtotal numeric := 0;
+  _shipping_cost numeric;
+  _short_lines jsonb := '[]'::jsonb;
+  _cod_reason text;
+  _line record;
+begin
+  if _user_id is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  select id into _cart_id from carts where user_id = _user_id;
+
+  if _cart_id is null or not exists (select 1 from cart_items where cart_id = _cart_id) then
+    raise exception 'cart_empty' using errcode = 'P0001';
+  end if;
+
+  perform 1
+  from products p
+  where p.id in (select product_id from cart_items where cart_id = _cart_id)
+  order by p.id
+  for update;
+
+  for _line in
+    select ci.product_id, ci.quantity, p.name, coalesce(p.stock, 0) as stock,
+           p.price - (p.price * coalesce(p.discount, 0) / 100) as unit_price
+    from cart_items ci
+    join products p on p.id = ci.product_id
+    where ci.cart_id = _cart_id
+  loop
+    if _line.quantity > _line.stock then
+      _short_lines := _short_lines || jsonb_build_object(
+        'product_id', _line.product_id,
+        'name', _line.name,
+        'requested', _line.quantity,
+        'available', _line.stock
+      );
+    end if;
+    _subtotal := _subtotal + _line.unit_price * _line.quantity;
+  end loop;
+
+  if jsonb_array_length(_short_lines) > 0 then
+    raise exception 'out_of_stock'
+      using errcode = 'P0001', detail = _short_lines::text;
+  end if;
+
+  if _payment_method in ('cod', 'upi_on_delivery') then
+    _cod_reason := cod_ineligibility_reason(_user_id, _shipping_address->>'postal_code', _subtotal);
+    if _cod_reason is not null then
+      raise exception 'cod_ineligible' using errcode = 'P0001', detail = _cod_reason;
+    end if;
+  elsif _payment_method <> 'online' then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  -- Mirrors shippingMethods in src/lib/constants.ts
+  _shipping_cost := case
+    when _shipping_method = 'express' then 250
+    when _subtotal > 1000 then 0
+    else 100
+  end;
+
+  insert into orders (user_id, status, total, shipping_address, payment_method)
+  values (
+    _user_id,
+    'pending',
+    _subtotal + _shipping_cost,
+    _shipping_address || jsonb_build_object('shipping_method', _shipping_method),
+    _payment_method
+  )
+  returning id into _order_id;
+
+  insert into order_items (order_id, product_id, quantity, price)
+  select _order_id, ci.product_id, ci.quantity,
+         p.price - (p.price * coalesce(p.discount, 0) / 100)
+  from cart_items ci
+  join products p on p.id = ci.product_id
+  where ci.cart_id = _cart_id;
+
+  update products p
+  set stock = coalesce(p.stock, 0) - ci.quantity,
+      sales_count = coalesce(p.sales_count, 0) + ci.quantity,
+      updated_at = now()
+  from cart_items ci
+  where ci.cart_id = _cart_id and p.id = ci.product_id;
+
+  delete from cart_items where cart_id = _cart_id;
+
+  return _order_id;
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text, text) to authenticated;
@@ -0,0 +1,194 @@
+-- Sellable variants of a product (colour, size, blouse option), each with its
+-- own SKU and stock. A product without variants is sold as before, from
+-- products.stock. For a product with variants, products.stock is kept equal to
+-- the sum of its variants' stock so listings keep working.
+
+create table public.product_variants (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  sku text not null unique,
+  color text,
+  size text,
+  blouse_option text,
+  -- Overrides products.price when set. The product discount still applies.
+  price numeric check (price is null or price >= 0),
+  stock integer not null default 0 check (stock >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index product_variants_product_id_idx on public.product_variants (product_id);
+
+alter table public.product_variants enable row level security;
+
+create policy "Anyone can view product variants"
+  on public.product_variants for select
+  using (true);
+
+create policy "Admins can manage product variants"
+  on public.product_variants for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create or replace function public.sync_product_stock_from_variants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _product_id uuid := coalesce(new.product_id, old.product_id);
+begin
+  update products
+  set stock = (select coalesce(sum(stock), 0) from product_variants where product_id = _product_id),
+      updated_at = now()
+  where id = _product_id;
+
+  return null;
+end;
+$$;
+
+create trigger product_variants_sync_stock
+  after insert or update of stock or delete on public.product_variants
+  for each row execute function public.sync_product_stock_from_variants();
+
+alter table public.cart_items
+  add column variant_id uuid references public.product_variants(id) on delete cascade;
+
+alter table public.order_items
+  add column variant_id uuid references public.product_variants(id) on delete set null;
+
+-- Same as before, except that lines with a variant are priced and stocked from
+-- the variant. Variant rows are locked along with their products.
+create or replace function public.place_order(
+  _shipping_address jsonb,
+  _shipping_method text default 'standard',
+  _payment_method text default 'online'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid := auth.uid();
+  _cart_id uuid;
+  _order_id uuid;
+  _subtotal numeric := 0;
+  _shipping_cost numeric;
+  _short_lines jsonb := '[]'::jsonb;
+  _cod_reason text;
+  _line record;
+begin
+  if _user_id is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  select id into _cart_id from carts where user_id = _user_id;
+
+  if _cart_id is null or not exists (select 1 from cart_items where cart_id = _cart_id) then
+    raise exception 'cart_empty' using errcode = 'P0001';
+  end if;
+
+  perform 1
+  from products p
+  where p.id in (select product_id from cart_items where cart_id = _cart_id)
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select variant_id from cart_items where cart_id = _cart_id)
+  order by v.id
+  for update;
+
+  for _line in
+    select ci.product_id, ci.variant_id, ci.quantity, p.name,
+           concat_ws(' / ', v.color, v.size, v.blouse_option) as variant_name,
+           case when ci.variant_id is null then coalesce(p.stock, 0) else coalesce(v.stock, 0) end as stock,
+           coalesce(v.price, p.price) - (coalesce(v.price, p.price) * coalesce(p.discount, 0) / 100) as unit_price
+    from cart_items ci
+    join products p on p.id = ci.product_id
+    left join product_variants v on v.id = ci.variant_id
+    where ci.cart_id = _cart_id
+  loop
+    if _line.quantity > _line.stock then
+      _short_lines := _short_lines || jsonb_build_object(
+        'product_id', _line.product_id,
+        'variant_id', _line.variant_id,
+        'name', case when _line.variant_name = '' then _line.name
+                     else _line.name || ' (' || _line.variant_name || ')' end,
+        'requested', _line.quantity,
+        'available', _line.stock
+      );
+    end if;
+    _subtotal := _subtotal + _line.unit_price * _line.quantity;
+  end loop;
+
+  if jsonb_array_length(_short_lines) > 0 then
+    raise exception 'out_of_stock'
+      using errcode = 'P0001', detail = _short_lines::text;
+  end if;
+
+  if _payment_method in ('cod', 'upi_on_delivery') then
+    _cod_reason := cod_ineligibility_reason(_user_id, _shipping_address->>'postal_code', _subtotal);
+    if _cod_reason is not null then
+      raise exception 'cod_ineligible' using errcode = 'P0001', detail = _cod_reason;
+    end if;
+  elsif _payment_method <> 'online' then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  -- Mirrors shippingMethods in src/lib/constants.ts
+  _shipping_cost := case
+    when _shipping_method = 'express' then 250
+    when _subtotal > 1000 then 0
+    else 100
+  end;
+
+  insert into orders (user_id, status, total, shipping_address, payment_method)
+  values (
+    _user_id,
+    'pending',
+    _subtotal + _shipping_cost,
+    _shipping_address || jsonb_build_object('shipping_method', _shipping_method),
+    _payment_method
+  )
+  returning id into _order_id;
+
+  insert into order_items (order_id, product_id, variant_id, quantity, price)
+  select _order_id, ci.product_id, ci.variant_id, ci.quantity,
+         coalesce(v.price, p.price) - (coalesce(v.price, p.price) * coalesce(p.discount, 0) / 100)
+  from cart_items ci
+  join products p on p.id = ci.product_id
+  left join product_variants v on v.id = ci.variant_id
+  where ci.cart_id = _cart_id;
+
+  -- Variant stock changes flow through to products.stock via the trigger
+  update product_variants v
+  set stock = v.stock - ci.quantity,
+      updated_at = now()
+  from cart_items ci
+  where ci.cart_id = _cart_id and v.id = ci.variant_id;
+
+  update products p
+  set stock = case when lines.base_quantity > 0
+                   then coalesce(p.stock, 0) - lines.base_quantity
+                   else p.stock end,
+      sales_count = coalesce(p.sales_count, 0) + lines.quantity,
+      updated_at = now()
+  from (
+    select product_id,
+           sum(quantity) as quantity,
+           sum(quantity) filter (where variant_id is null) as base_quantity
+    from cart_items
+    where cart_id = _cart_id
+    group by product_id
+  ) lines
+  where p.id = lines.product_id;
+
+  delete from cart_items where cart_id = _cart_id;
+
+  return _order_id;
+end;
+$$;
@@ -0,0 +1,32 @@
+-- Ordered image gallery for each product. products.image is kept as the cover
+-- (the first gallery image) for listings that only show one picture.
+
+create table public.product_images (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  url text not null,
+  -- Object key in the product-images bucket
+  storage_path text,
+  alt_text text,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index product_images_product_id_idx on public.product_images (product_id, sort_order);
+
+alter table public.product_images enable row level security;
+
+create policy "Anyone can view product images"
+  on public.product_images for select
+  using (true);
+
+create policy "Admins can manage product images"
+  on public.product_images for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- Existing single images become the first gallery image
+insert into public.product_images (product_id, url, storage_path, alt_text, sort_order)
+select id, image, substring(image from '/product-images/([^?]+)'), name, 0
+from public.products
+where image is not null and image <> '';
@@ -0,0 +1,11 @@
+-- Images are now resized and re-encoded in the browser before upload, and each
+-- width is stored as its own object. `sources` lists their public URLs as
+-- [{ "width": 640, "webp": "...", "jpeg": "..." }, ...] for building srcset.
+-- For processed images storage_path is the folder holding every width.
+
+alter table public.product_images
+  add column sources jsonb not null default '[]'::jsonb;
+
+-- Sources of the cover image, kept alongside products.image
+alter table public.products
+  add column image_sources jsonb not null default '[]'::jsonb;
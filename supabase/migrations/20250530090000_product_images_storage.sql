@@ -0,0 +1,16 @@
+-- Lets admins list and delete objects in the product-images bucket, for
+-- removing replaced images and for the storage audit in the admin panel.
+
+create policy "Admins can view product image objects"
+  on storage.objects for select
+  using (bucket_id = 'product-images' and public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can delete product image objects"
+  on storage.objects for delete
+  using (bucket_id = 'product-images' and public.has_role(auth.uid(), 'admin'));
+
+-- Rows added before storage_path was written (e.g. images with an external
+-- URL are left null, since they are not in the bucket)
+update public.product_images
+set storage_path = substring(url from '/product-images/([^?]+)')
+where storage_path is null;
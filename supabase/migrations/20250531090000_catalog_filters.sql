@@ -0,0 +1,8 @@
+-- Price after discount, as shown to shoppers, so category pages can filter and
+-- sort by it in the database
+alter table public.products
+  add column sale_price numeric generated always as (price - price * coalesce(discount, 0) / 100) stored;
+
+create index products_category_sale_price_idx on public.products (category_id, sale_price);
+
+create index product_variants_color_size_idx on public.product_variants (color, size);
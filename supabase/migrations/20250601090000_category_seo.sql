@@ -0,0 +1,92 @@
+-- Categories get a stored slug, so renaming a category no longer changes its
+-- URL, plus the content and SEO fields shown on the category page.
+
+alter table public.categories
+  add column slug text,
+  add column description text,
+  add column banner_image text,
+  add column meta_title text,
+  add column meta_description text,
+  add column display_order integer not null default 0;
+
+-- Same rules as generateSlug() in src/lib/utils.ts. Names with nothing
+-- usable in them (only symbols, or only non-Latin letters) get
+-- category-<id>, and duplicates are numbered. A numbered slug that clashes
+-- with another category's takes part of its id instead.
+with slugs as (
+  select id,
+         coalesce(
+           nullif(
+             regexp_replace(
+               regexp_replace(regexp_replace(lower(name), '[^a-z0-9_\s-]+', '', 'g'), '[\s-]+', '-', 'g'),
+               '^-+|-+$', '', 'g'
+             ),
+             ''
+           ),
+           'category-' || id
+         ) as base
+  from public.categories
+), numbered as (
+  select id,
+         base,
+         case when row_number() over (partition by base order by id) = 1 then base
+              else base || '-' || row_number() over (partition by base order by id) end as candidate
+  from slugs
+), unique_slugs as (
+  select id,
+         candidate,
+         -- Categories keeping their own base slug win a clash
+         row_number() over (partition by candidate order by (candidate = base) desc, id) as clash
+  from numbered
+)
+update public.categories c
+set slug = case when unique_slugs.clash = 1 then unique_slugs.candidate
+                else unique_slugs.candidate || '-' || left(replace(c.id::text, '-', ''), 8) end
+from unique_slugs
+where unique_slugs.id = c.id;
+
+alter table public.categories
+  alter column slug set not null,
+  add constraint categories_slug_key unique (slug),
+  add constraint categories_slug_format check (slug ~ '^[a-z0-9_]+(-[a-z0-9_]+)*$');
+
+-- Old slugs keep working after a category's slug is changed
+create table public.category_slug_redirects (
+  old_slug text primary key,
+  category_id uuid not null references public.categories(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.category_slug_redirects enable row level security;
+
+create policy "Anyone can view category slug redirects"
+  on public.category_slug_redirects for select
+  using (true);
+
+create policy "Admins can manage category slug redirects"
+  on public.category_slug_redirects for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create or replace function public.record_category_slug_redirect()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.slug is distinct from old.slug then
+    insert into public.category_slug_redirects (old_slug, category_id)
+    values (old.slug, new.id)
+    on conflict (old_slug) do update set category_id = excluded.category_id, created_at = now();
+
+    -- A slug that is live again must not redirect anywhere
+    delete from public.category_slug_redirects where old_slug = new.slug;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger categories_slug_redirect
+  after update of slug on public.categories
+  for each row execute function public.record_category_slug_redirect();
@@ -0,0 +1,105 @@
+-- Categories form a tree: top-level groups (Pure Silk, Cotton, ...) with the
+-- individual categories below them. Replaces the hard-coded groupedCategories.
+
+alter table public.categories
+  add column parent_id uuid references public.categories(id) on delete restrict;
+
+create index categories_parent_id_idx on public.categories (parent_id, display_order);
+
+create or replace function public.prevent_category_cycle()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is not null and exists (
+    with recursive ancestors as (
+      select id, parent_id from public.categories where id = new.parent_id
+      union
+      select c.id, c.parent_id
+      from public.categories c
+      join ancestors a on c.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'A category cannot be moved under itself or one of its subcategories';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger categories_prevent_cycle
+  before insert or update of parent_id on public.categories
+  for each row execute function public.prevent_category_cycle();
+
+-- Seed the tree from the groups the menu used to hard-code
+insert into public.categories (name, slug, display_order)
+values
+  ('Pure Silk', 'pure-silk', 1),
+  ('Cotton', 'cotton', 2),
+  ('Georgette', 'georgette', 3),
+  ('Designer', 'designer', 4),
+  ('Ready Sets', 'ready-sets', 5),
+  ('More Sarees', 'more-sarees', 6)
+on conflict (slug) do nothing;
+
+create temporary table category_groups (parent_slug text, name text, position integer) on commit drop;
+
+insert into category_groups (parent_slug, name, position)
+values
+  ('pure-silk', 'Pure Kanchi silk', 1),
+  ('pure-silk', 'Pure Tusser silk', 2),
+  ('pure-silk', 'Gicha silk', 3),
+  ('pure-silk', 'Raw mango silk', 4),
+  ('pure-silk', 'Pure pathani silk', 5),
+  ('pure-silk', 'Benarasi silk', 6),
+  ('pure-silk', 'Uppada Silk Sarees', 7),
+  ('pure-silk', 'Silk & Semi-Silk Sarees', 8),
+  ('cotton', 'Handloom Cotton Sarees', 1),
+  ('cotton', 'Handloom cotton silk (Mangalagiri)', 2),
+  ('georgette', 'Georgette Sarees', 1),
+  ('georgette', 'Crispy Georgette Sarees', 2),
+  ('georgette', 'Georgette with Banarasi Weave Sarees', 3),
+  ('designer', 'Designer Kurtis nd 3Pc sets', 1),
+  ('designer', 'Hand embroidery sarees', 2),
+  ('ready-sets', 'Ready blouse sarees', 1),
+  ('ready-sets', 'Ready blouses', 2),
+  ('ready-sets', 'Dress materials', 3),
+  ('more-sarees', 'Pure Linen Sarees', 1),
+  ('more-sarees', 'Chanderi Kotta Sarees', 2),
+  ('more-sarees', 'Crepe Silk Sarees', 3),
+  ('more-sarees', 'Bandhini Sarees', 4),
+  ('more-sarees', 'Organza Sarees', 5),
+  ('more-sarees', 'Jute Silk Sarees', 6),
+  ('more-sarees', 'Pure Chander Sarees', 7);
+
+-- Categories from the old list that were never created in the database
+insert into public.categories (name, slug, display_order)
+select g.name,
+       regexp_replace(regexp_replace(lower(g.name), '[^\w ]+', '', 'g'), ' +', '-', 'g'),
+       g.position
+from category_groups g
+where not exists (select 1 from public.categories c where lower(c.name) = lower(g.name))
+on conflict (slug) do nothing;
+
+update public.categories c
+set parent_id = parent.id
+from category_groups g
+join public.categories parent on parent.slug = g.parent_slug
+where lower(c.name) = lower(g.name)
+  and c.parent_id is null
+  and c.id <> parent.id;
+
+-- Links the storefront used before these categories existed
+insert into public.category_slug_redirects (old_slug, category_id)
+select r.old_slug, c.id
+from (
+  values
+    ('silk', 'pure-silk'),
+    ('silk-sarees', 'pure-silk'),
+    ('cotton-sarees', 'cotton'),
+    ('designer-sets', 'designer'),
+    ('festive', 'designer')
+) as r (old_slug, slug)
+join public.categories c on c.slug = r.slug
+where not exists (select 1 from public.categories live where live.slug = r.old_slug)
+on conflict (old_slug) do nothing;
@@ -0,0 +1,264 @@
+-- Full-text product search for /search. Products keep a weighted tsvector
+-- (name, then category, then description) and a plain-text copy for trigram
+-- matching, which catches typos the full-text search misses.
+
+create extension if not exists pg_trgm with schema extensions;
+
+alter table public.products
+  add column search_vector tsvector,
+  add column search_text text;
+
+-- Spellings of the same textile term. A query for any of them matches all.
+create table public.search_synonyms (
+  term text primary key,
+  group_name text not null
+);
+
+create index search_synonyms_group_idx on public.search_synonyms (group_name);
+
+alter table public.search_synonyms enable row level security;
+
+create policy "Anyone can view search synonyms"
+  on public.search_synonyms for select
+  using (true);
+
+create policy "Admins can manage search synonyms"
+  on public.search_synonyms for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+insert into public.search_synonyms (term, group_name)
+values
+  ('kanchipuram', 'kanchipuram'),
+  ('kanjivaram', 'kanchipuram'),
+  ('kanjeevaram', 'kanchipuram'),
+  ('kancheepuram', 'kanchipuram'),
+  ('kanchi', 'kanchipuram'),
+  ('kanjivaran', 'kanchipuram'),
+  ('banarasi', 'banarasi'),
+  ('benarasi', 'banarasi'),
+  ('banarsi', 'banarasi'),
+  ('benares', 'banarasi'),
+  ('varanasi', 'banarasi'),
+  ('paithani', 'paithani'),
+  ('pathani', 'paithani'),
+  ('paithni', 'paithani'),
+  ('tussar', 'tussar'),
+  ('tusser', 'tussar'),
+  ('tussore', 'tussar'),
+  ('tasar', 'tussar'),
+  ('bandhani', 'bandhani'),
+  ('bandhini', 'bandhani'),
+  ('bandhej', 'bandhani'),
+  ('chanderi', 'chanderi'),
+  ('chander', 'chanderi'),
+  ('mangalagiri', 'mangalagiri'),
+  ('mangalgiri', 'mangalagiri'),
+  ('uppada', 'uppada'),
+  ('upada', 'uppada'),
+  ('georgette', 'georgette'),
+  ('georgete', 'georgette'),
+  ('jorjet', 'georgette'),
+  ('kota', 'kota'),
+  ('kotta', 'kota'),
+  ('ghicha', 'ghicha'),
+  ('gicha', 'ghicha'),
+  ('saree', 'saree'),
+  ('sari', 'saree'),
+  ('sarees', 'saree'),
+  ('saris', 'saree');
+
+create or replace function public.update_product_search()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  _category text;
+begin
+  select name into _category from public.categories where id = new.category_id;
+
+  new.search_vector :=
+    setweight(to_tsvector('english', coalesce(new.name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(_category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(new.description, '')), 'C');
+  new.search_text := lower(concat_ws(' ', new.name, _category, new.description));
+  return new;
+end;
+$$;
+
+create trigger products_search_update
+  before insert or update of name, description, category_id on public.products
+  for each row execute function public.update_product_search();
+
+-- Renaming a category changes what its products match
+create or replace function public.refresh_category_product_search()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.name is distinct from old.name then
+    update public.products set category_id = category_id where category_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger categories_search_refresh
+  after update of name on public.categories
+  for each row execute function public.refresh_category_product_search();
+
+update public.products set name = name;
+
+create index products_search_vector_idx on public.products using gin (search_vector);
+create index products_search_text_trgm_idx on public.products using gin (search_text extensions.gin_trgm_ops);
+
+-- Every word becomes a prefix match; words with known spellings match any of them
+create or replace function public.build_search_tsquery(_query text)
+returns tsquery
+language sql
+stable
+set search_path = public
+as $$
+  select to_tsquery('english', string_agg(
+    coalesce(
+      (select '(' || string_agg(s2.term || ':*', ' | ') || ')'
+       from public.search_synonyms s1
+       join public.search_synonyms s2 on s2.group_name = s1.group_name
+       where s1.term = w.word),
+      w.word || ':*'
+    ),
+    ' & ' order by w.ord
+  ))
+  from regexp_split_to_table(
+    lower(regexp_replace(coalesce(_query, ''), '[^[:alnum:][:space:]]+', ' ', 'g')),
+    '\s+'
+  ) with ordinality as w(word, ord)
+  where w.word <> ''
+$$;
+
+-- Products matching a query with their relevance. Full-text matches rank by
+-- ts_rank; trigram similarity lets through near-misses such as "georgete".
+create or replace function public.match_products(_query text)
+returns table (product_id uuid, rank real, query tsquery)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  with q as (
+    select public.build_search_tsquery(_query) as query, lower(trim(_query)) as raw
+  )
+  select p.id,
+         (coalesce(ts_rank(p.search_vector, q.query), 0) + word_similarity(q.raw, p.search_text))::real,
+         q.query
+  from public.products p, q
+  where q.raw <> ''
+    and (p.search_vector @@ q.query or q.raw <% p.search_text)
+$$;
+
+-- One page of search results. Name headlines wrap matches in chr(1) ... chr(2)
+-- for the client to highlight. total_count is the number of results on all pages.
+create or replace function public.search_products(
+  _query text,
+  _category_ids uuid[] default null,
+  _min_price numeric default null,
+  _max_price numeric default null,
+  _colors text[] default null,
+  _sizes text[] default null,
+  _in_stock boolean default false,
+  _sort text default 'relevance',
+  _limit integer default 12,
+  _offset integer default 0
+)
+returns table (
+  id uuid,
+  name text,
+  price numeric,
+  discount numeric,
+  image text,
+  image_sources jsonb,
+  stock integer,
+  rating numeric,
+  headline text,
+  rank real,
+  total_count bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  select p.id,
+         p.name::text,
+         p.price::numeric,
+         p.discount::numeric,
+         p.image::text,
+         p.image_sources,
+         p.stock::integer,
+         p.rating::numeric,
+         ts_headline('english', p.name, m.query,
+           'HighlightAll=true, StartSel=' || chr(1) || ', StopSel=' || chr(2)),
+         m.rank,
+         count(*) over ()
+  from public.match_products(_query) m
+  join public.products p on p.id = m.product_id
+  where (_category_ids is null or p.category_id = any(_category_ids))
+    and (_min_price is null or p.sale_price >= _min_price)
+    and (_max_price is null or p.sale_price <= _max_price)
+    and (not _in_stock or p.stock > 0)
+    and (
+      (_colors is null and _sizes is null) or exists (
+        select 1 from public.product_variants v
+        where v.product_id = p.id
+          and (_colors is null or v.color = any(_colors))
+          and (_sizes is null or v.size = any(_sizes))
+          and (not _in_stock or v.stock > 0)
+      )
+    )
+  order by
+    case when _sort = 'price_asc' then p.sale_price end asc,
+    case when _sort = 'price_desc' then p.sale_price end desc,
+    case when _sort = 'popular' then p.sales_count end desc nulls last,
+    case when _sort = 'rating' then p.rating end desc nulls last,
+    case when _sort = 'newest' then p.created_at end desc,
+    m.rank desc,
+    p.id
+  limit _limit
+  offset _offset
+$$;
+
+-- Filters available for a query: matching categories with counts, variant
+-- colours and sizes, and the price range
+create or replace function public.search_product_facets(_query text)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  with matched as (
+    select p.* from public.match_products(_query) m
+    join public.products p on p.id = m.product_id
+  )
+  select jsonb_build_object(
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name, 'slug', c.slug, 'count', counts.n) order by counts.n desc)
+      from (select category_id, count(*) as n from matched where category_id is not null group by category_id) counts
+      join public.categories c on c.id = counts.category_id
+    ), '[]'::jsonb),
+    'colors', coalesce((
+      select jsonb_agg(distinct v.color) from public.product_variants v
+      join matched on matched.id = v.product_id
+      where v.color is not null
+    ), '[]'::jsonb),
+    'sizes', coalesce((
+      select jsonb_agg(distinct v.size) from public.product_variants v
+      join matched on matched.id = v.product_id
+      where v.size is not null
+    ), '[]'::jsonb),
+    'min_price', (select floor(min(sale_price)) from matched),
+    'max_price', (select ceil(max(sale_price)) from matched)
+  )
+$$;
+
+grant execute on function public.search_products(text, uuid[], numeric, numeric, text[], text[], boolean, text, integer, integer) to anon, authenticated;
+grant execute on function public.search_product_facets(text) to anon, authenticated;
@@ -0,0 +1,113 @@
+-- Search-as-you-type suggestions for the Navbar search box, and a log of
+-- searches so the box can offer the most-searched terms.
+
+create table public.search_queries (
+  id uuid primary key default gen_random_uuid(),
+  query text not null,
+  result_count integer not null default 0,
+  user_id uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index search_queries_created_at_idx on public.search_queries (created_at);
+create index search_queries_user_id_idx on public.search_queries (user_id, created_at) where user_id is not null;
+
+alter table public.search_queries enable row level security;
+
+-- Searches are recorded through log_search; only admins read them back
+create policy "Admins can manage search queries"
+  on public.search_queries for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- Records a signed-in shopper's search. The result count is worked out here
+-- rather than trusted from the browser, a user's repeat of the same query
+-- within the hour isn't recorded again, and each user is limited to
+-- _hourly_limit searches an hour. Guests' searches aren't recorded, since
+-- they can't be told apart.
+create or replace function public.log_search(_query text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid := auth.uid();
+  _hourly_limit constant integer := 30;
+  _normalized text := lower(regexp_replace(trim(coalesce(_query, '')), '\s+', ' ', 'g'));
+begin
+  if _user_id is null or _normalized = '' or length(_normalized) > 100 then
+    return;
+  end if;
+
+  if exists (
+    select 1 from search_queries
+    where user_id = _user_id and query = _normalized and created_at > now() - interval '1 hour'
+  ) then
+    return;
+  end if;
+
+  if (
+    select count(*) from search_queries
+    where user_id = _user_id and created_at > now() - interval '1 hour'
+  ) >= _hourly_limit then
+    return;
+  end if;
+
+  insert into search_queries (query, result_count, user_id)
+  values (_normalized, (select count(*) from match_products(_normalized)), _user_id);
+end;
+$$;
+
+-- Most-searched terms of the last month, by how many different shoppers
+-- searched them. A term needs at least three, so no single account, or pair
+-- of accounts, can put a term in front of everyone. Searches that found
+-- nothing are left out so misspellings don't get suggested either.
+create or replace function public.trending_searches(_limit integer default 8)
+returns table (query text, search_count bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.query, count(distinct s.user_id)
+  from public.search_queries s
+  where s.created_at > now() - interval '30 days'
+    and s.result_count > 0
+    and s.user_id is not null
+  group by s.query
+  having count(distinct s.user_id) >= 3
+  order by count(distinct s.user_id) desc, s.query
+  limit _limit
+$$;
+
+-- The best few products for a partly typed query
+create or replace function public.search_suggestions(_query text, _limit integer default 5)
+returns table (
+  id uuid,
+  name text,
+  price numeric,
+  discount numeric,
+  image text,
+  headline text
+)
+language sql
+stable
+set search_path = public
+as $$
+  select p.id,
+         p.name::text,
+         p.price::numeric,
+         p.discount::numeric,
+         p.image::text,
+         ts_headline('english', p.name, m.query,
+           'HighlightAll=true, StartSel=' || chr(1) || ', StopSel=' || chr(2))
+  from public.match_products(_query) m
+  join public.products p on p.id = m.product_id
+  order by m.rank desc, p.id
+  limit _limit
+$$;
+
+grant execute on function public.log_search(text) to authenticated;
+grant execute on function public.trending_searches(integer) to anon, authenticated;
+grant execute on function public.search_suggestions(text, integer) to anon, authenticated;
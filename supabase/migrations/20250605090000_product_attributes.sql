@@ -0,0 +1,151 @@
+-- Structured textile attributes (fabric, weave, zari, ...) instead of details
+-- buried in the description. Attributes are defined once and assigned to
+-- categories; a category also offers the attributes of its ancestors.
+-- Products keep their values in products.attributes, keyed by attribute key.
+
+create table public.attribute_definitions (
+  id uuid primary key default gen_random_uuid(),
+  key text not null unique check (key ~ '^[a-z][a-z0-9_]*$'),
+  label text not null,
+  type text not null check (type in ('text', 'select', 'boolean', 'number')),
+  -- Allowed values of a select attribute, in display order
+  options text[] not null default '{}',
+  unit text,
+  -- Offered as a filter on category pages
+  filterable boolean not null default false,
+  display_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.category_attributes (
+  category_id uuid not null references public.categories(id) on delete cascade,
+  attribute_id uuid not null references public.attribute_definitions(id) on delete cascade,
+  required boolean not null default false,
+  primary key (category_id, attribute_id)
+);
+
+create index category_attributes_attribute_id_idx on public.category_attributes (attribute_id);
+
+alter table public.attribute_definitions enable row level security;
+alter table public.category_attributes enable row level security;
+
+create policy "Anyone can view attribute definitions"
+  on public.attribute_definitions for select
+  using (true);
+
+create policy "Admins can manage attribute definitions"
+  on public.attribute_definitions for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Anyone can view category attributes"
+  on public.category_attributes for select
+  using (true);
+
+create policy "Admins can manage category attributes"
+  on public.category_attributes for all
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+alter table public.products
+  add column attributes jsonb not null default '{}'::jsonb;
+
+create index products_attributes_idx on public.products using gin (attributes);
+
+-- Values must match their attribute's type, and select values one of its options
+create or replace function public.validate_product_attributes()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  _entry record;
+  _definition public.attribute_definitions;
+begin
+  if jsonb_typeof(new.attributes) <> 'object' then
+    raise exception 'Product attributes must be an object';
+  end if;
+
+  for _entry in select * from jsonb_each(new.attributes) loop
+    select * into _definition from public.attribute_definitions where key = _entry.key;
+
+    if not found then
+      raise exception 'Unknown product attribute "%"', _entry.key;
+    end if;
+
+    if (_definition.type = 'boolean' and jsonb_typeof(_entry.value) <> 'boolean')
+      or (_definition.type = 'number' and jsonb_typeof(_entry.value) <> 'number')
+      or (_definition.type in ('text', 'select') and jsonb_typeof(_entry.value) <> 'string')
+    then
+      raise exception 'Product attribute "%" must be of type %', _entry.key, _definition.type;
+    end if;
+
+    if _definition.type = 'select' and not (_entry.value #>> '{}' = any(_definition.options)) then
+      raise exception 'Product attribute "%" cannot be "%"', _entry.key, _entry.value #>> '{}';
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+create trigger products_validate_attributes
+  before insert or update of attributes on public.products
+  for each row execute function public.validate_product_attributes();
+
+insert into public.attribute_definitions (key, label, type, options, unit, filterable, display_order)
+values
+  ('fabric', 'Fabric', 'select',
+    array['Pure Silk', 'Silk Blend', 'Silk Cotton', 'Cotton', 'Linen', 'Tussar Silk', 'Raw Silk',
+          'Georgette', 'Chiffon', 'Crepe', 'Organza', 'Chanderi', 'Jute Silk'],
+    null, true, 1),
+  ('weave', 'Weave', 'select',
+    array['Kanchipuram', 'Banarasi', 'Paithani', 'Uppada', 'Gadwal', 'Pochampally Ikat', 'Patola',
+          'Jamdani', 'Maheshwari', 'Chanderi', 'Mangalagiri', 'Kota', 'Bandhani', 'Printed', 'Embroidered'],
+    null, true, 2),
+  ('zari', 'Zari', 'select', array['Real', 'Tested', 'None'], null, true, 3),
+  ('saree_length', 'Saree Length', 'number', '{}', 'm', false, 4),
+  ('blouse_piece', 'Blouse Piece Included', 'boolean', '{}', null, true, 5),
+  ('wash_care', 'Wash Care', 'select',
+    array['Dry clean only', 'Hand wash separately', 'Gentle machine wash'],
+    null, false, 6);
+
+-- Every saree group gets the saree attributes; Ready Sets only the fabric ones
+insert into public.category_attributes (category_id, attribute_id, required)
+select c.id, a.id, a.key = 'fabric'
+from public.categories c
+cross join public.attribute_definitions a
+where c.parent_id is null
+  and (c.slug <> 'ready-sets' or a.key in ('fabric', 'weave', 'wash_care'))
+on conflict do nothing;
+
+-- Attribute values are searchable like the rest of the product
+create or replace function public.update_product_search()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  _category text;
+  _attributes text;
+begin
+  select name into _category from public.categories where id = new.category_id;
+  select string_agg(value #>> '{}', ' ') into _attributes
+  from jsonb_each(coalesce(new.attributes, '{}'::jsonb))
+  where jsonb_typeof(value) = 'string';
+
+  new.search_vector :=
+    setweight(to_tsvector('english', coalesce(new.name, '')), 'A') ||
+    setweight(to_tsvector('english', concat_ws(' ', _category, _attributes)), 'B') ||
+    setweight(to_tsvector('english', coalesce(new.description, '')), 'C');
+  new.search_text := lower(concat_ws(' ', new.name, _category, _attributes, new.description));
+  return new;
+end;
+$$;
+
+drop trigger products_search_update on public.products;
+
+create trigger products_search_update
+  before insert or update of name, description, category_id, attributes on public.products
+  for each row execute function public.update_product_search();
@@ -0,0 +1,427 @@
+-- Every stock change is recorded in inventory_movements with its reason, who
+-- made it and an optional note. products.stock and product_variants.stock are
+-- balances kept by the ledger and can't be written directly any more.
+--
+-- A product without variants has movements with no variant_id. A product with
+-- variants has movements per variant, and its products.stock stays the sum of
+-- its variants' stock as before.
+
+create table public.inventory_movements (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  -- A variant's history goes with it, since its stock no longer counts anywhere
+  variant_id uuid references public.product_variants(id) on delete cascade,
+  -- Positive for stock coming in, negative for stock going out
+  quantity integer not null check (quantity <> 0),
+  reason text not null check (reason in ('receipt', 'sale', 'return', 'damage', 'correction')),
+  note text,
+  order_id uuid references public.orders(id) on delete set null,
+  -- Stock of the product or variant once this movement was applied
+  stock_after integer not null default 0,
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index inventory_movements_product_id_idx on public.inventory_movements (product_id, created_at desc);
+create index inventory_movements_variant_id_idx on public.inventory_movements (variant_id) where variant_id is not null;
+create index inventory_movements_order_id_idx on public.inventory_movements (order_id) where order_id is not null;
+
+alter table public.inventory_movements enable row level security;
+
+-- The ledger is append-only: there are no update or delete policies
+create policy "Admins can view inventory movements"
+  on public.inventory_movements for select
+  using (public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can record inventory movements"
+  on public.inventory_movements for insert
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- Direct writes of stock are rejected; only the functions below, which set
+-- inventory.applying for the length of their update, can change it
+create or replace function public.guard_stock_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.stock is distinct from old.stock
+    and coalesce(current_setting('inventory.applying', true), '') <> 'on'
+  then
+    raise exception 'stock_not_editable'
+      using errcode = 'P0001', detail = 'Record an inventory movement to change stock';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger products_guard_stock
+  before update of stock on public.products
+  for each row execute function public.guard_stock_update();
+
+create trigger product_variants_guard_stock
+  before update of stock on public.product_variants
+  for each row execute function public.guard_stock_update();
+
+-- Same as before, with permission to write the product's stock
+create or replace function public.sync_product_stock_from_variants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _product_id uuid := coalesce(new.product_id, old.product_id);
+begin
+  perform set_config('inventory.applying', 'on', true);
+
+  update products
+  set stock = (select coalesce(sum(stock), 0) from product_variants where product_id = _product_id),
+      updated_at = now()
+  where id = _product_id;
+
+  perform set_config('inventory.applying', 'off', true);
+
+  return null;
+end;
+$$;
+
+-- Sets the stock of the movement's product or variant to the sum of its
+-- movements, refusing to go below zero. The row is locked first so
+-- concurrent movements apply one after the other.
+create or replace function public.apply_inventory_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _stock integer;
+begin
+  if new.variant_id is null then
+    perform 1 from products where id = new.product_id for update;
+
+    if exists (select 1 from product_variants where product_id = new.product_id) then
+      raise exception 'variant_required'
+        using errcode = 'P0001', detail = 'Stock of a product with variants is recorded per variant';
+    end if;
+
+    select coalesce(sum(quantity), 0) + new.quantity into _stock
+    from inventory_movements
+    where product_id = new.product_id and variant_id is null;
+  else
+    perform 1 from product_variants where id = new.variant_id and product_id = new.product_id for update;
+
+    if not found then
+      raise exception 'variant_not_found' using errcode = 'P0001';
+    end if;
+
+    select coalesce(sum(quantity), 0) + new.quantity into _stock
+    from inventory_movements
+    where variant_id = new.variant_id;
+  end if;
+
+  if _stock < 0 then
+    raise exception 'insufficient_stock'
+      using errcode = 'P0001', detail = format('Only %s in stock', _stock - new.quantity);
+  end if;
+
+  new.stock_after := _stock;
+
+  perform set_config('inventory.applying', 'on', true);
+
+  if new.variant_id is null then
+    update products set stock = _stock, updated_at = now() where id = new.product_id;
+  else
+    -- products.stock follows through sync_product_stock_from_variants
+    update product_variants set stock = _stock, updated_at = now() where id = new.variant_id;
+  end if;
+
+  perform set_config('inventory.applying', 'off', true);
+
+  return new;
+end;
+$$;
+
+create trigger inventory_movements_apply
+  before insert on public.inventory_movements
+  for each row execute function public.apply_inventory_movement();
+
+-- Stock given when a product or variant is created becomes its first movement
+create or replace function public.record_opening_product_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.stock, 0) > 0 then
+    insert into inventory_movements (product_id, quantity, reason, note)
+    values (new.id, new.stock, 'correction', 'Opening stock');
+  end if;
+
+  return null;
+end;
+$$;
+
+create or replace function public.record_opening_variant_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.stock > 0 then
+    insert into inventory_movements (product_id, variant_id, quantity, reason, note)
+    values (new.product_id, new.id, new.stock, 'correction', 'Opening stock');
+  end if;
+
+  return null;
+end;
+$$;
+
+-- Existing stock becomes the opening balance of the ledger
+insert into public.inventory_movements (product_id, quantity, reason, note, created_by)
+select p.id, p.stock, 'correction', 'Opening balance', null
+from public.products p
+where coalesce(p.stock, 0) > 0
+  and not exists (select 1 from public.product_variants v where v.product_id = p.id);
+
+insert into public.inventory_movements (product_id, variant_id, quantity, reason, note, created_by)
+select v.product_id, v.id, v.stock, 'correction', 'Opening balance', null
+from public.product_variants v
+where v.stock > 0;
+
+create trigger products_record_opening_stock
+  after insert on public.products
+  for each row execute function public.record_opening_product_stock();
+
+create trigger product_variants_record_opening_stock
+  after insert on public.product_variants
+  for each row execute function public.record_opening_variant_stock();
+
+-- Once a product has variants its stock is theirs, so the stock it had on its
+-- own is taken out of the ledger before the first variant is added. A
+-- product left without variants starts again from zero, which is what
+-- sync_product_stock_from_variants sets products.stock to.
+create or replace function public.balance_product_stock_for_variants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _product_id uuid := coalesce(new.product_id, old.product_id);
+  _stock integer;
+begin
+  -- Gone with the product
+  perform 1 from products where id = _product_id for update;
+
+  if not found then
+    return null;
+  end if;
+
+  if exists (select 1 from product_variants where product_id = _product_id) then
+    return case when tg_op = 'INSERT' then new else null end;
+  end if;
+
+  select coalesce(sum(quantity), 0) into _stock
+  from inventory_movements
+  where product_id = _product_id and variant_id is null;
+
+  if _stock <> 0 then
+    insert into inventory_movements (product_id, quantity, reason, note)
+    values (
+      _product_id,
+      -_stock,
+      'correction',
+      case when tg_op = 'INSERT' then 'Stock moved to variants' else 'Last variant removed' end
+    );
+  end if;
+
+  return case when tg_op = 'INSERT' then new else null end;
+end;
+$$;
+
+create trigger product_variants_balance_first_variant
+  before insert on public.product_variants
+  for each row execute function public.balance_product_stock_for_variants();
+
+create trigger product_variants_balance_last_variant
+  after delete on public.product_variants
+  for each row execute function public.balance_product_stock_for_variants();
+
+-- Records a stock count: a correction by the difference between `_stock` and
+-- the current stock in the ledger, if any. Returns the stock afterwards.
+create or replace function public.set_stock_level(
+  _product_id uuid,
+  _variant_id uuid,
+  _stock integer,
+  _note text default null
+)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  _current integer;
+begin
+  if _stock < 0 then
+    raise exception 'invalid_stock' using errcode = 'P0001';
+  end if;
+
+  if _variant_id is null then
+    perform 1 from products where id = _product_id for update;
+  else
+    perform 1 from product_variants where id = _variant_id and product_id = _product_id for update;
+  end if;
+
+  if not found then
+    raise exception 'product_not_found' using errcode = 'P0001';
+  end if;
+
+  select coalesce(sum(quantity), 0) into _current
+  from inventory_movements
+  where product_id = _product_id
+    and variant_id is not distinct from _variant_id;
+
+  if _stock <> _current then
+    insert into inventory_movements (product_id, variant_id, quantity, reason, note)
+    values (_product_id, _variant_id, _stock - _current, 'correction', _note);
+  end if;
+
+  return _stock;
+end;
+$$;
+
+grant execute on function public.set_stock_level(uuid, uuid, integer, text) to authenticated;
+
+-- Same as before, except that sold stock is recorded as sale movements
+-- against the order instead of being subtracted in place
+create or replace function public.place_order(
+  _shipping_address jsonb,
+  _shipping_method text default 'standard',
+  _payment_method text default 'online'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid := auth.uid();
+  _cart_id uuid;
+  _order_id uuid;
+  _subtotal numeric := 0;
+  _shipping_cost numeric;
+  _short_lines jsonb := '[]'::jsonb;
+  _cod_reason text;
+  _line record;
+begin
+  if _user_id is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  select id into _cart_id from carts where user_id = _user_id;
+
+  if _cart_id is null or not exists (select 1 from cart_items where cart_id = _cart_id) then
+    raise exception 'cart_empty' using errcode = 'P0001';
+  end if;
+
+  perform 1
+  from products p
+  where p.id in (select product_id from cart_items where cart_id = _cart_id)
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select variant_id from cart_items where cart_id = _cart_id)
+  order by v.id
+  for update;
+
+  for _line in
+    select ci.product_id, ci.variant_id, ci.quantity, p.name,
+           concat_ws(' / ', v.color, v.size, v.blouse_option) as variant_name,
+           case when ci.variant_id is null then coalesce(p.stock, 0) else coalesce(v.stock, 0) end as stock,
+           coalesce(v.price, p.price) - (coalesce(v.price, p.price) * coalesce(p.discount, 0) / 100) as unit_price
+    from cart_items ci
+    join products p on p.id = ci.product_id
+    left join product_variants v on v.id = ci.variant_id
+    where ci.cart_id = _cart_id
+  loop
+    if _line.quantity > _line.stock then
+      _short_lines := _short_lines || jsonb_build_object(
+        'product_id', _line.product_id,
+        'variant_id', _line.variant_id,
+        'name', case when _line.variant_name = '' then _line.name
+                     else _line.name || ' (' || _line.variant_name || ')' end,
+        'requested', _line.quantity,
+        'available', _line.stock
+      );
+    end if;
+    _subtotal := _subtotal + _line.unit_price * _line.quantity;
+  end loop;
+
+  if jsonb_array_length(_short_lines) > 0 then
+    raise exception 'out_of_stock'
+      using errcode = 'P0001', detail = _short_lines::text;
+  end if;
+
+  if _payment_method in ('cod', 'upi_on_delivery') then
+    _cod_reason := cod_ineligibility_reason(_user_id, _shipping_address->>'postal_code', _subtotal);
+    if _cod_reason is not null then
+      raise exception 'cod_ineligible' using errcode = 'P0001', detail = _cod_reason;
+    end if;
+  elsif _payment_method <> 'online' then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  -- Mirrors shippingMethods in src/lib/constants.ts
+  _shipping_cost := case
+    when _shipping_method = 'express' then 250
+    when _subtotal > 1000 then 0
+    else 100
+  end;
+
+  insert into orders (user_id, status, total, shipping_address, payment_method)
+  values (
+    _user_id,
+    'pending',
+    _subtotal + _shipping_cost,
+    _shipping_address || jsonb_build_object('shipping_method', _shipping_method),
+    _payment_method
+  )
+  returning id into _order_id;
+
+  insert into order_items (order_id, product_id, variant_id, quantity, price)
+  select _order_id, ci.product_id, ci.variant_id, ci.quantity,
+         coalesce(v.price, p.price) - (coalesce(v.price, p.price) * coalesce(p.discount, 0) / 100)
+  from cart_items ci
+  join products p on p.id = ci.product_id
+  left join product_variants v on v.id = ci.variant_id
+  where ci.cart_id = _cart_id;
+
+  -- The ledger updates variant and product stock
+  insert into inventory_movements (product_id, variant_id, quantity, reason, order_id)
+  select ci.product_id, ci.variant_id, -ci.quantity, 'sale', _order_id
+  from cart_items ci
+  where ci.cart_id = _cart_id;
+
+  update products p
+  set sales_count = coalesce(p.sales_count, 0) + lines.quantity,
+      updated_at = now()
+  from (
+    select product_id, sum(quantity) as quantity
+    from cart_items
+    where cart_id = _cart_id
+    group by product_id
+  ) lines
+  where p.id = lines.product_id;
+
+  delete from cart_items where cart_id = _cart_id;
+
+  return _order_id;
+end;
+$$;
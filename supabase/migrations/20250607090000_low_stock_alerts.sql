@@ -0,0 +1,64 @@
+-- Per-product reorder thresholds. A product is low on stock once its stock
+-- falls to its threshold, and out of stock at zero. Products with variants
+-- use their total stock, as products.stock already holds it.
+
+alter table public.products
+  add column reorder_threshold integer not null default 5 check (reorder_threshold >= 0),
+  -- When the product last fell to its threshold; null while it is above it
+  add column low_stock_since timestamptz;
+
+-- PostgREST can't compare two columns, so the status is stored for filtering
+alter table public.products
+  add column stock_status text generated always as (
+    case
+      when coalesce(stock, 0) <= 0 then 'out_of_stock'
+      when stock <= reorder_threshold then 'low_stock'
+      else 'in_stock'
+    end
+  ) stored;
+
+create index products_stock_status_idx on public.products (stock_status) where stock_status <> 'in_stock';
+
+update public.products
+set low_stock_since = now()
+where coalesce(stock, 0) <= reorder_threshold;
+
+create or replace function public.track_low_stock()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(new.stock, 0) > new.reorder_threshold then
+    new.low_stock_since := null;
+  elsif tg_op = 'INSERT' or coalesce(old.stock, 0) > old.reorder_threshold then
+    new.low_stock_since := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger products_track_low_stock
+  before insert or update of stock, reorder_threshold on public.products
+  for each row execute function public.track_low_stock();
+
+-- One row per digest sent by the low-stock-digest function
+create table public.stock_alert_digests (
+  id uuid primary key default gen_random_uuid(),
+  sent_at timestamptz not null default now(),
+  -- Which notifier delivered it: email, webhook or log
+  channel text not null,
+  low_stock_count integer not null,
+  out_of_stock_count integer not null,
+  -- Products that fell to their threshold since the previous digest
+  new_count integer not null
+);
+
+create index stock_alert_digests_sent_at_idx on public.stock_alert_digests (sent_at desc);
+
+alter table public.stock_alert_digests enable row level security;
+
+create policy "Admins can view stock alert digests"
+  on public.stock_alert_digests for select
+  using (public.has_role(auth.uid(), 'admin'));
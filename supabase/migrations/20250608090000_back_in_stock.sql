@@ -0,0 +1,178 @@
+-- Shoppers ask to be emailed when a sold out product or variant is back.
+-- The back-in-stock-notify function emails each subscription once, after
+-- its product or variant has stock again, whether that came from a receipt,
+-- a return or a stock count.
+
+create table public.stock_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  -- Set when the product has variants; the subscription is for that variant
+  variant_id uuid references public.product_variants(id) on delete cascade,
+  -- Stored lowercase
+  email text not null,
+  user_id uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  -- When the email went out; null while waiting
+  notified_at timestamptz
+);
+
+-- One waiting subscription per address and item
+create unique index stock_subscriptions_pending_key
+  on public.stock_subscriptions (product_id, coalesce(variant_id, '00000000-0000-0000-0000-000000000000'::uuid), email)
+  where notified_at is null;
+
+create index stock_subscriptions_variant_id_idx on public.stock_subscriptions (variant_id) where variant_id is not null;
+
+alter table public.stock_subscriptions enable row level security;
+
+-- Subscribing goes through subscribe_to_restock, which guests can use too
+create policy "Users can view their own stock subscriptions"
+  on public.stock_subscriptions for select
+  using (auth.uid() = user_id);
+
+create policy "Admins can view stock subscriptions"
+  on public.stock_subscriptions for select
+  using (public.has_role(auth.uid(), 'admin'));
+
+create or replace function public.subscribe_to_restock(
+  _product_id uuid,
+  _variant_id uuid,
+  _email text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _address text := lower(trim(_email));
+begin
+  if _address !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' then
+    raise exception 'invalid_email' using errcode = 'P0001';
+  end if;
+
+  if _variant_id is null then
+    if not exists (select 1 from products where id = _product_id) then
+      raise exception 'product_not_found' using errcode = 'P0001';
+    end if;
+
+    if exists (select 1 from product_variants where product_id = _product_id) then
+      raise exception 'variant_required' using errcode = 'P0001';
+    end if;
+  elsif not exists (select 1 from product_variants where id = _variant_id and product_id = _product_id) then
+    raise exception 'variant_not_found' using errcode = 'P0001';
+  end if;
+
+  -- Subscribing twice while waiting is not an error
+  insert into stock_subscriptions (product_id, variant_id, email)
+  values (_product_id, _variant_id, _address)
+  on conflict do nothing;
+end;
+$$;
+
+grant execute on function public.subscribe_to_restock(uuid, uuid, text) to anon, authenticated;
+
+-- Waiting subscriptions per product or variant, most wanted first. Rows are
+-- limited by the policies above, so only admins see everyone's.
+create or replace function public.restock_demand()
+returns table (
+  product_id uuid,
+  variant_id uuid,
+  product_name text,
+  variant_sku text,
+  variant_name text,
+  stock integer,
+  waiting bigint,
+  oldest timestamptz
+)
+language sql
+stable
+set search_path = public
+as $$
+  select s.product_id,
+         s.variant_id,
+         p.name,
+         v.sku,
+         nullif(concat_ws(' / ', v.color, v.size, v.blouse_option), ''),
+         case when s.variant_id is null then coalesce(p.stock, 0) else v.stock end,
+         count(*),
+         min(s.created_at)
+  from stock_subscriptions s
+  join products p on p.id = s.product_id
+  left join product_variants v on v.id = s.variant_id
+  where s.notified_at is null
+  group by s.product_id, s.variant_id, p.name, p.stock, v.sku, v.color, v.size, v.blouse_option, v.stock
+  order by count(*) desc, min(s.created_at);
+$$;
+
+grant execute on function public.restock_demand() to authenticated;
+
+-- Marks up to `_limit` waiting subscriptions whose item has stock again as
+-- notified and returns them for emailing. Skips rows another run has
+-- claimed, so overlapping runs don't email anyone twice.
+create or replace function public.claim_restock_notifications(_limit integer default 100)
+returns table (
+  id uuid,
+  email text,
+  product_id uuid,
+  product_name text,
+  variant_name text
+)
+language sql
+security definer
+set search_path = public
+as $$
+  with ready as (
+    select s.id
+    from stock_subscriptions s
+    join products p on p.id = s.product_id
+    left join product_variants v on v.id = s.variant_id
+    where s.notified_at is null
+      and case when s.variant_id is null then coalesce(p.stock, 0) else v.stock end > 0
+    order by s.created_at
+    limit _limit
+    for update of s skip locked
+  )
+  update stock_subscriptions s
+  set notified_at = now()
+  where s.id in (select ready.id from ready)
+  returning s.id,
+            s.email,
+            s.product_id,
+            (select name from products where products.id = s.product_id),
+            (select nullif(concat_ws(' / ', color, size, blouse_option), '')
+             from product_variants where product_variants.id = s.variant_id);
+$$;
+
+revoke execute on function public.claim_restock_notifications(integer) from public, anon, authenticated;
+grant execute on function public.claim_restock_notifications(integer) to service_role;
+
+-- Puts claimed subscriptions whose email failed back in the queue. A shopper
+-- who subscribed again in the meantime already has a waiting row, which
+-- stock_subscriptions_pending_key allows only one of, so the failed row is
+-- dropped instead.
+create or replace function public.release_restock_notifications(_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from stock_subscriptions s
+  where s.id = any(_ids)
+    and exists (
+      select 1 from stock_subscriptions pending
+      where pending.notified_at is null
+        and pending.product_id = s.product_id
+        and pending.variant_id is not distinct from s.variant_id
+        and pending.email = s.email
+    );
+
+  update stock_subscriptions
+  set notified_at = null
+  where id = any(_ids);
+end;
+$$;
+
+revoke execute on function public.release_restock_notifications(uuid[]) from public, anon, authenticated;
+grant execute on function public.release_restock_notifications(uuid[]) to service_role;
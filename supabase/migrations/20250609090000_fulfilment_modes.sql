@@ -0,0 +1,245 @@
+-- Pre-order and made-to-order products can be bought without stock: handloom
+-- sarees woven on order take weeks. Stock on hand is sold first; whatever the
+-- stock doesn't cover is made (or awaited) and dispatched after the product's
+-- lead time. Orders with such lines carry a dispatch_by date and are worked
+-- from the production queue on the admin Orders page.
+
+alter table public.products
+  add column fulfilment_mode text not null default 'in_stock'
+    check (fulfilment_mode in ('in_stock', 'pre_order', 'made_to_order')),
+  add column lead_time_days integer check (lead_time_days > 0),
+  add constraint products_lead_time_required
+    check (fulfilment_mode = 'in_stock' or lead_time_days is not null);
+
+alter table public.order_items
+  -- The product's mode when the line needed stock it didn't have, otherwise in_stock
+  add column fulfilment_mode text not null default 'in_stock'
+    check (fulfilment_mode in ('in_stock', 'pre_order', 'made_to_order')),
+  -- Quantity that was not in stock and has to be made or awaited
+  add column backordered integer not null default 0 check (backordered >= 0),
+  add column dispatch_by date;
+
+alter table public.orders
+  -- Latest dispatch_by of the order's lines; null when everything was in stock
+  add column dispatch_by date;
+
+create index orders_dispatch_by_idx on public.orders (dispatch_by) where dispatch_by is not null;
+
+-- Same as before, except that lines of pre-order and made-to-order products
+-- may exceed stock. Only the stock on hand is recorded as sold.
+create or replace function public.place_order(
+  _shipping_address jsonb,
+  _shipping_method text default 'standard',
+  _payment_method text default 'online'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid := auth.uid();
+  _cart_id uuid;
+  _order_id uuid;
+  _subtotal numeric := 0;
+  _shipping_cost numeric;
+  _short_lines jsonb := '[]'::jsonb;
+  _cod_reason text;
+  _line record;
+begin
+  if _user_id is null then
+    raise exception 'not_authenticated' using errcode = '28000';
+  end if;
+
+  select id into _cart_id from carts where user_id = _user_id;
+
+  if _cart_id is null or not exists (select 1 from cart_items where cart_id = _cart_id) then
+    raise exception 'cart_empty' using errcode = 'P0001';
+  end if;
+
+  perform 1
+  from products p
+  where p.id in (select product_id from cart_items where cart_id = _cart_id)
+  order by p.id
+  for update;
+
+  perform 1
+  from product_variants v
+  where v.id in (select variant_id from cart_items where cart_id = _cart_id)
+  order by v.id
+  for update;
+
+  for _line in
+    select ci.product_id, ci.variant_id, ci.quantity, p.name,
+           concat_ws(' / ', v.color, v.size, v.blouse_option) as variant_name,
+           case when ci.variant_id is null then coalesce(p.stock, 0) else coalesce(v.stock, 0) end as stock,
+           p.fulfilment_mode,
+           coalesce(v.price, p.price) - (coalesce(v.price, p.price) * coalesce(p.discount, 0) / 100) as unit_price
+    from cart_items ci
+    join products p on p.id = ci.product_id
+    left join product_variants v on v.id = ci.variant_id
+    where ci.cart_id = _cart_id
+  loop
+    if _line.quantity > _line.stock and _line.fulfilment_mode = 'in_stock' then
+      _short_lines := _short_lines || jsonb_build_object(
+        'product_id', _line.product_id,
+        'variant_id', _line.variant_id,
+        'name', case when _line.variant_name = '' then _line.name
+                     else _line.name || ' (' || _line.variant_name || ')' end,
+        'requested', _line.quantity,
+        'available', _line.stock
+      );
+    end if;
+    _subtotal := _subtotal + _line.unit_price * _line.quantity;
+  end loop;
+
+  if jsonb_array_length(_short_lines) > 0 then
+    raise exception 'out_of_stock'
+      using errcode = 'P0001', detail = _short_lines::text;
+  end if;
+
+  if _payment_method in ('cod', 'upi_on_delivery') then
+    _cod_reason := cod_ineligibility_reason(_user_id, _shipping_address->>'postal_code', _subtotal);
+    if _cod_reason is not null then
+      raise exception 'cod_ineligible' using errcode = 'P0001', detail = _cod_reason;
+    end if;
+  elsif _payment_method <> 'online' then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  -- Mirrors shippingMethods in src/lib/constants.ts
+  _shipping_cost := case
+    when _shipping_method = 'express' then 250
+    when _subtotal > 1000 then 0
+    else 100
+  end;
+
+  insert into orders (user_id, status, total, shipping_address, payment_method)
+  values (
+    _user_id,
+    'pending',
+    _subtotal + _shipping_cost,
+    _shipping_address || jsonb_build_object('shipping_method', _shipping_method),
+    _payment_method
+  )
+  returning id into _order_id;
+
+  insert into order_items (order_id, product_id, variant_id, quantity, price, fulfilment_mode, backordered, dispatch_by)
+  select _order_id, lines.product_id, lines.variant_id, lines.quantity, lines.price,
+         case when lines.backordered > 0 then lines.fulfilment_mode else 'in_stock' end,
+         lines.backordered,
+         case when lines.backordered > 0 then current_date + lines.lead_time_days end
+  from (
+    select ci.product_id, ci.variant_id, ci.quantity, p.fulfilment_mode, p.lead_time_days,
+           coalesce(v.price, p.price) - (coalesce(v.price, p.price) * coalesce(p.discount, 0) / 100) as price,
+           greatest(ci.quantity - case when ci.variant_id is null then coalesce(p.stock, 0) else coalesce(v.stock, 0) end, 0) as backordered
+    from cart_items ci
+    join products p on p.id = ci.product_id
+    left join product_variants v on v.id = ci.variant_id
+    where ci.cart_id = _cart_id
+  ) lines;
+
+  update orders
+  set dispatch_by = (select max(dispatch_by) from order_items where order_id = _order_id)
+  where id = _order_id;
+
+  -- The ledger updates variant and product stock, for the part that was in stock
+  insert into inventory_movements (product_id, variant_id, quantity, reason, order_id)
+  select oi.product_id, oi.variant_id, -(oi.quantity - oi.backordered), 'sale', _order_id
+  from order_items oi
+  where oi.order_id = _order_id
+    and oi.quantity > oi.backordered;
+
+  update products p
+  set sales_count = coalesce(p.sales_count, 0) + lines.quantity,
+      updated_at = now()
+  from (
+    select product_id, sum(quantity) as quantity
+    from cart_items
+    where cart_id = _cart_id
+    group by product_id
+  ) lines
+  where p.id = lines.product_id;
+
+  delete from cart_items where cart_id = _cart_id;
+
+  return _order_id;
+end;
+$$;
+
+-- Same as before, with the product's fulfilment_mode so results at zero stock
+-- can say whether they can still be ordered. The return type changes, so the
+-- function is recreated.
+drop function public.search_products(text, uuid[], numeric, numeric, text[], text[], boolean, text, integer, integer);
+
+create function public.search_products(
+  _query text,
+  _category_ids uuid[] default null,
+  _min_price numeric default null,
+  _max_price numeric default null,
+  _colors text[] default null,
+  _sizes text[] default null,
+  _in_stock boolean default false,
+  _sort text default 'relevance',
+  _limit integer default 12,
+  _offset integer default 0
+)
+returns table (
+  id uuid,
+  name text,
+  price numeric,
+  discount numeric,
+  image text,
+  image_sources jsonb,
+  stock integer,
+  fulfilment_mode text,
+  rating numeric,
+  headline text,
+  rank real,
+  total_count bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  select p.id,
+         p.name::text,
+         p.price::numeric,
+         p.discount::numeric,
+         p.image::text,
+         p.image_sources,
+         p.stock::integer,
+         p.fulfilment_mode,
+         p.rating::numeric,
+         ts_headline('english', p.name, m.query,
+           'HighlightAll=true, StartSel=' || chr(1) || ', StopSel=' || chr(2)),
+         m.rank,
+         count(*) over ()
+  from public.match_products(_query) m
+  join public.products p on p.id = m.product_id
+  where (_category_ids is null or p.category_id = any(_category_ids))
+    and (_min_price is null or p.sale_price >= _min_price)
+    and (_max_price is null or p.sale_price <= _max_price)
+    and (not _in_stock or p.stock > 0)
+    and (
+      (_colors is null and _sizes is null) or exists (
+        select 1 from public.product_variants v
+        where v.product_id = p.id
+          and (_colors is null or v.color = any(_colors))
+          and (_sizes is null or v.size = any(_sizes))
+          and (not _in_stock or v.stock > 0)
+      )
+    )
+  order by
+    case when _sort = 'price_asc' then p.sale_price end asc,
+    case when _sort = 'price_desc' then p.sale_price end desc,
+    case when _sort = 'popular' then p.sales_count end desc nulls last,
+    case when _sort = 'rating' then p.rating end desc nulls last,
+    case when _sort = 'newest' then p.created_at end desc,
+    m.rank desc,
+    p.id
+  limit _limit
+  offset _offset
+$$;
+
+grant execute on function public.search_products(text, uuid[], numeric, numeric, text[], text[], boolean, text, integer, integer) to anon, authenticated;
@@ -0,0 +1,173 @@
+-- Every change of an order's status is recorded in order_status_history with
+-- who made it, when and an optional note, and only the transitions below are
+-- allowed:
+--
+--   pending    -> processing, cancelled
+--   processing -> shipped, cancelled
+--   shipped    -> completed                 (paid online)
+--   shipped    -> collected, rto            (paid on delivery: cod, upi_on_delivery)
+--   collected  -> completed
+--
+-- An order paid on delivery is only completed once the courier's collection
+-- is recorded. completed, cancelled and rto are final.
+
+create table public.order_status_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  -- Null for the row recording the order's first status
+  from_status text,
+  to_status text not null,
+  note text,
+  -- Null when the change was made by the system, e.g. a payment webhook
+  changed_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index order_status_history_order_id_idx on public.order_status_history (order_id, created_at);
+
+alter table public.order_status_history enable row level security;
+
+-- History is written by the triggers below only: there are no insert, update
+-- or delete policies
+create policy "Admins can view order status history"
+  on public.order_status_history for select
+  using (public.has_role(auth.uid(), 'admin'));
+
+create policy "Users can view their own order status history"
+  on public.order_status_history for select
+  using (exists (select 1 from orders where orders.id = order_id and orders.user_id = auth.uid()));
+
+create or replace function public.order_status_transition_allowed(_from text, _to text, _payment_method text)
+returns boolean
+language sql
+immutable
+set search_path = public
+as $$
+  select case _from
+    when 'pending' then _to in ('processing', 'cancelled')
+    when 'processing' then _to in ('shipped', 'cancelled')
+    when 'shipped' then
+      case when _payment_method in ('cod', 'upi_on_delivery') then _to in ('collected', 'rto')
+           else _to = 'completed' end
+    when 'collected' then _to = 'completed'
+    else false
+  end;
+$$;
+
+grant execute on function public.order_status_transition_allowed(text, text, text) to authenticated;
+
+-- Rejects transitions that aren't allowed and records the ones that are. The
+-- note comes from orders.status_note, which update_order_status sets for the
+-- length of its update. Stock sold with an order that is cancelled or comes
+-- back undelivered is returned to the ledger.
+create or replace function public.record_order_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    if new.status is not distinct from old.status then
+      return new;
+    end if;
+
+    if not order_status_transition_allowed(old.status, new.status, new.payment_method) then
+      raise exception 'invalid_status_transition'
+        using errcode = 'P0001', detail = case
+          when old.status = 'shipped' and new.status in ('collected', 'rto')
+            then format('Only orders paid on delivery can be marked %s', new.status)
+          when old.status = 'shipped' and new.status = 'completed'
+            then 'Mark the payment collected before completing an order paid on delivery'
+          else format('An order can''t go from %s to %s', old.status, new.status)
+        end;
+    end if;
+
+    new.updated_at := now();
+  end if;
+
+  insert into order_status_history (order_id, from_status, to_status, note)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    nullif(trim(coalesce(current_setting('orders.status_note', true), '')), '')
+  );
+
+  -- cancelled and rto are final, so this happens once per order. Sales
+  -- recorded before the product gained variants can't be returned to it.
+  if tg_op = 'UPDATE' and new.status in ('cancelled', 'rto') then
+    insert into inventory_movements (product_id, variant_id, quantity, reason, note, order_id)
+    select m.product_id, m.variant_id, -m.quantity, 'return',
+           case new.status when 'cancelled' then 'Order cancelled' else 'Returned to origin' end,
+           new.id
+    from inventory_movements m
+    where m.order_id = new.id
+      and m.reason = 'sale'
+      and (m.variant_id is not null
+           or not exists (select 1 from product_variants v where v.product_id = m.product_id))
+    order by m.product_id, m.variant_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger orders_record_status_change
+  before update of status on public.orders
+  for each row execute function public.record_order_status_change();
+
+-- After insert, since the history row references the order
+create or replace function public.record_order_created()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into order_status_history (order_id, from_status, to_status, changed_by, created_at)
+  values (new.id, null, new.status, new.user_id, new.created_at);
+
+  return null;
+end;
+$$;
+
+create trigger orders_record_created
+  after insert on public.orders
+  for each row execute function public.record_order_created();
+
+-- Earlier changes weren't kept, so existing orders start from their current
+-- status as of their last update
+insert into order_status_history (order_id, from_status, to_status, changed_by, created_at, note)
+select id, null, status, null, coalesce(updated_at, created_at), 'Status when history began'
+from public.orders;
+
+-- Changes an order's status, recording `_note` with it. Only admins can use it.
+create or replace function public.update_order_status(
+  _order_id uuid,
+  _status text,
+  _note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'not_authorized' using errcode = '42501';
+  end if;
+
+  perform set_config('orders.status_note', coalesce(_note, ''), true);
+
+  update orders set status = _status where id = _order_id;
+
+  if not found then
+    raise exception 'order_not_found' using errcode = 'P0001';
+  end if;
+
+  perform set_config('orders.status_note', '', true);
+end;
+$$;
+
+grant execute on function public.update_order_status(uuid, text, text) to authenticated;
@@ -0,0 +1,28 @@
+-- Runs the low-stock-digest function every morning at 08:00 IST (02:30 UTC).
+-- The job calls the function with the service role key, both read from Vault
+-- at run time so neither is stored in the migration. Create them once per
+-- project, e.g. from the SQL editor:
+--
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- Replaces the job if the migration runs again
+select cron.unschedule(jobid) from cron.job where jobname = 'low-stock-digest';
+
+select cron.schedule(
+  'low-stock-digest',
+  '30 2 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/low-stock-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,24 @@
+-- Runs the back-in-stock-notify function every five minutes, so shoppers hear
+-- soon after stock comes back. Uses the project_url and service_role_key
+-- Vault secrets described in 20250611090000_schedule_low_stock_digest.sql.
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- Replaces the job if the migration runs again
+select cron.unschedule(jobid) from cron.job where jobname = 'back-in-stock-notify';
+
+select cron.schedule(
+  'back-in-stock-notify',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/back-in-stock-notify',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);